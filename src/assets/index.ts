@@ -3,4 +3,4 @@
  */
 
 export { CSS } from "./styles.js";
-export { JS, getSearchJS } from "./scripts.js";
+export { JS, getSearchJS, getSingleFileJS } from "./scripts.js";
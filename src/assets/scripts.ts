@@ -39,13 +39,49 @@ document.querySelectorAll('.truncatable').forEach(function(wrapper) {
 });
 `;
 
+/**
+ * Anchor JavaScript template for transcript pages
+ *
+ * Copies the full link of a message or block when its anchor link is
+ * clicked, and follows hashes in the old timestamp-based id scheme to the
+ * ids that replaced them.
+ *
+ * @param redirects - Old message ids mapped to their current ids
+ */
+export function getAnchorJS(redirects: Record<string, string>): string {
+  return `(function() {
+    var redirects = ${JSON.stringify(redirects).replace(/</g, "\\u003c")};
+    function followRedirect() {
+        var id = decodeURIComponent(location.hash.slice(1));
+        if (id && !document.getElementById(id) && redirects[id]) {
+            location.replace('#' + redirects[id]);
+        }
+    }
+    followRedirect();
+    window.addEventListener('hashchange', followRedirect);
+    document.querySelectorAll('a.anchor-link').forEach(function(link) {
+        link.addEventListener('click', function() {
+            if (!navigator.clipboard) return;
+            var url = location.href.split('#')[0] + link.getAttribute('href');
+            navigator.clipboard.writeText(url).then(function() {
+                link.classList.add('copied');
+                setTimeout(function() { link.classList.remove('copied'); }, 1500);
+            }, function() {});
+        });
+    });
+})();`;
+}
+
 /**
  * Search JavaScript template
  * Generates the search modal functionality for the index page
+ *
+ * @param pageFiles - Filenames of the transcript pages to search
  */
-export function getSearchJS(totalPages: number): string {
+export function getSearchJS(pageFiles: string[]): string {
   return `(function() {
-    var totalPages = ${totalPages};
+    var pageFiles = ${JSON.stringify(pageFiles)};
+    var totalPages = pageFiles.length;
     var searchBox = document.getElementById('search-box');
     var searchInput = document.getElementById('search-input');
     var searchBtn = document.getElementById('search-btn');
@@ -245,10 +281,7 @@ export function getSearchJS(totalPages: number): string {
         var pagesSearched = 0;
 
         // Build list of pages to fetch
-        var pagesToFetch = [];
-        for (var i = 1; i <= totalPages; i++) {
-            pagesToFetch.push('page-' + String(i).padStart(3, '0') + '.html');
-        }
+        var pagesToFetch = pageFiles.slice();
 
         searchStatus.textContent = 'Searching...';
 
@@ -323,3 +356,141 @@ export function getSearchJS(totalPages: number): string {
     }
 })();`;
 }
+
+/**
+ * Single-file JavaScript
+ *
+ * Points links between pages at the sections holding them, shows only the
+ * section the location hash is in, and searches the messages of every
+ * section in the page itself, so it works from a local file.
+ */
+export function getSingleFileJS(): string {
+  return `(function() {
+    var sections = Array.prototype.slice.call(document.querySelectorAll('.single-file-section'));
+    if (sections.length === 0) return;
+    var byFilename = {};
+    sections.forEach(function(section) { byFilename[section.id] = section; });
+
+    document.querySelectorAll('a[href]').forEach(function(link) {
+        var href = link.getAttribute('href');
+        var hash = href.indexOf('#');
+        var filename = hash === -1 ? href : href.slice(0, hash);
+        if (!byFilename[filename]) return;
+        var id = hash === -1 || hash === href.length - 1 ? filename : href.slice(hash + 1);
+        link.setAttribute('href', '#' + id);
+    });
+
+    function showSection() {
+        var id = decodeURIComponent(location.hash.slice(1));
+        var target = id ? document.getElementById(id) : null;
+        var section = (target && target.closest('.single-file-section')) || sections[0];
+        sections.forEach(function(other) { other.hidden = other !== section; });
+        if (target && target !== section) {
+            target.scrollIntoView();
+        } else {
+            window.scrollTo(0, 0);
+        }
+    }
+    showSection();
+    window.addEventListener('hashchange', showSection);
+
+    var searchBox = document.getElementById('search-box');
+    var searchInput = document.getElementById('search-input');
+    var searchBtn = document.getElementById('search-btn');
+    var modal = document.getElementById('search-modal');
+    var modalInput = document.getElementById('modal-search-input');
+    var modalSearchBtn = document.getElementById('modal-search-btn');
+    var modalCloseBtn = document.getElementById('modal-close-btn');
+    var searchStatus = document.getElementById('search-status');
+    var searchResults = document.getElementById('search-results');
+    if (!searchBox || !modal) return;
+    searchBox.style.display = 'flex';
+
+    function highlightTextNodes(element, needle) {
+        var walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+        var nodes = [];
+        while (walker.nextNode()) nodes.push(walker.currentNode);
+        nodes.forEach(function(node) {
+            var text = node.nodeValue;
+            var lower = text.toLowerCase();
+            var at = lower.indexOf(needle);
+            if (at === -1) return;
+            var fragment = document.createDocumentFragment();
+            var start = 0;
+            while (at !== -1) {
+                fragment.appendChild(document.createTextNode(text.slice(start, at)));
+                var mark = document.createElement('mark');
+                mark.textContent = text.slice(at, at + needle.length);
+                fragment.appendChild(mark);
+                start = at + needle.length;
+                at = lower.indexOf(needle, start);
+            }
+            fragment.appendChild(document.createTextNode(text.slice(start)));
+            node.parentNode.replaceChild(fragment, node);
+        });
+    }
+
+    function performSearch(query) {
+        searchResults.innerHTML = '';
+        if (!query.trim()) {
+            searchStatus.textContent = 'Enter a search term';
+            return;
+        }
+        var needle = query.toLowerCase();
+        var resultsFound = 0;
+        sections.forEach(function(section) {
+            section.querySelectorAll('.message').forEach(function(msg) {
+                if ((msg.textContent || '').toLowerCase().indexOf(needle) === -1) return;
+                resultsFound++;
+
+                // Copies must not take the ids the results link to
+                var clone = msg.cloneNode(true);
+                clone.querySelectorAll('[id]').forEach(function(el) { el.removeAttribute('id'); });
+                highlightTextNodes(clone, needle);
+
+                var link = document.createElement('a');
+                link.href = '#' + (msg.id || section.id);
+                var page = document.createElement('div');
+                page.className = 'search-result-page';
+                page.textContent = section.getAttribute('data-label') || section.id;
+                var content = document.createElement('div');
+                content.className = 'search-result-content';
+                content.innerHTML = clone.innerHTML;
+                link.appendChild(page);
+                link.appendChild(content);
+                var resultDiv = document.createElement('div');
+                resultDiv.className = 'search-result';
+                resultDiv.appendChild(link);
+                searchResults.appendChild(resultDiv);
+            });
+        });
+        searchStatus.textContent = 'Found ' + resultsFound + ' result(s)';
+    }
+
+    function openModal(query) {
+        modalInput.value = query || '';
+        searchResults.innerHTML = '';
+        searchStatus.textContent = '';
+        modal.showModal();
+        modalInput.focus();
+        if (query) {
+            performSearch(query);
+        }
+    }
+
+    searchBtn.addEventListener('click', function() { openModal(searchInput.value); });
+    searchInput.addEventListener('keydown', function(e) {
+        if (e.key === 'Enter') openModal(searchInput.value);
+    });
+    modalSearchBtn.addEventListener('click', function() { performSearch(modalInput.value); });
+    modalInput.addEventListener('keydown', function(e) {
+        if (e.key === 'Enter') performSearch(modalInput.value);
+    });
+    modalCloseBtn.addEventListener('click', function() { modal.close(); });
+    modal.addEventListener('click', function(e) {
+        if (e.target === modal || (e.target.closest && e.target.closest('.search-result a'))) {
+            modal.close();
+        }
+    });
+})();`;
+}
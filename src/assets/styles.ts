@@ -100,6 +100,171 @@ details.continuation { margin-bottom: 16px; }
 details.continuation summary { cursor: pointer; padding: 12px 16px; background: var(--user-bg); border-left: 4px solid var(--user-border); border-radius: 12px; font-weight: 500; color: var(--text-muted); }
 details.continuation summary:hover { background: rgba(25, 118, 210, 0.15); }
 details.continuation[open] summary { border-radius: 12px 12px 0 0; margin-bottom: 0; }
+details.alternate-path { margin-bottom: 16px; border-left: 4px dashed var(--assistant-border); border-radius: 12px; }
+details.alternate-path summary { cursor: pointer; padding: 8px 16px; background: rgba(0,0,0,0.03); border-radius: 12px; font-size: 0.85rem; color: var(--text-muted); }
+details.alternate-path[open] summary { border-radius: 12px 12px 0 0; margin-bottom: 8px; }
+details.alternate-path > div { padding-left: 12px; opacity: 0.85; }
+details.tool-card { margin: 12px 0; border: 1px solid var(--tool-border); border-radius: 8px; overflow: hidden; }
+details.tool-card > summary { cursor: pointer; display: flex; align-items: center; gap: 8px; padding: 6px 12px; background: var(--tool-bg); font-size: 0.85rem; }
+details.tool-card > div { padding: 0 12px; }
+details.tool-card.tool-card-error { border-color: #e53935; }
+details.tool-card.tool-card-missing { border-style: dashed; }
+.tool-card-name { font-weight: 600; color: var(--tool-border); }
+.tool-status { padding: 1px 8px; border-radius: 10px; font-size: 0.75rem; font-weight: 600; text-transform: uppercase; }
+.tool-status-ok { background: var(--tool-result-bg); color: #2e7d32; }
+.tool-status-error { background: var(--tool-error-bg); color: #c62828; }
+.tool-status-missing { background: #fff3e0; color: #e65100; }
+.tool-elapsed { margin-left: auto; color: var(--text-muted); font-size: 0.8rem; }
+.tool-orphan { border: 1px dashed #ff9800; border-radius: 8px; padding: 4px 12px; margin: 12px 0; }
+.tool-orphan-label { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #e65100; }
+.read-tool { background: linear-gradient(135deg, #e3f2fd 0%, #ede7f6 100%); border: 1px solid #7986cb; }
+.read-header { color: #283593; }
+.read-range { font-size: 0.8rem; font-weight: normal; color: var(--text-muted); }
+.numbered-lines { padding: 8px 0; }
+.numbered-line { display: flex; }
+.line-number { flex-shrink: 0; min-width: 3.5em; padding: 0 10px; text-align: right; color: #888; user-select: none; }
+.line-text { flex: 1; padding-right: 12px; white-space: pre-wrap; word-break: break-word; }
+.search-pattern { font-weight: normal; }
+.grep-file { margin: 6px 0; }
+.grep-file-path { font-family: monospace; font-size: 0.85rem; font-weight: 600; word-break: break-all; }
+.grep-matches { margin: 4px 0 8px 0; }
+.glob-count { font-size: 0.8rem; color: var(--text-muted); margin-bottom: 4px; }
+.file-tree { font-family: monospace; font-size: 0.85rem; }
+.file-tree-root { font-weight: 600; word-break: break-all; }
+.file-tree ul { list-style: none; margin: 0; padding-left: 16px; }
+.file-tree-dir > .file-tree-name { font-weight: 600; }
+.web-url { word-break: break-all; font-weight: normal; }
+.web-sources { margin: 0 0 8px 0; padding-left: 20px; }
+.web-source-host { margin-left: 8px; font-size: 0.8rem; color: var(--text-muted); }
+.multiedit-hunk { margin: 8px 0; }
+.multiedit-hunk-label { font-size: 0.8rem; font-weight: 600; color: #e65100; }
+.notebook-tool { background: linear-gradient(135deg, #fff8e1 0%, #f3e5f5 100%); border: 1px solid #ffb300; }
+.notebook-header { color: #6a1b9a; }
+.notebook-edit-mode { font-size: 0.8rem; font-weight: normal; color: var(--text-muted); }
+.notebook-cell { display: flex; gap: 8px; align-items: flex-start; }
+.notebook-cell-label { flex-shrink: 0; padding-top: 12px; font-family: monospace; font-size: 0.8rem; color: #6a1b9a; }
+.notebook-cell .truncatable { flex: 1; min-width: 0; }
+.notebook-cell-deleted { font-style: italic; color: var(--text-muted); }
+.notebook-tool .truncatable.truncated::after { background: linear-gradient(to bottom, transparent, #f8eef0); }
+.diff { font-size: 0.85rem; }
+.diff-toggle { display: flex; justify-content: flex-end; align-items: center; gap: 4px; font-size: 0.75rem; color: var(--text-muted); cursor: pointer; }
+.diff-table { width: 100%; border-collapse: collapse; font-family: monospace; }
+.diff-split { display: none; }
+.diff:has(.diff-split-toggle:checked) .diff-unified { display: none; }
+.diff:has(.diff-split-toggle:checked) .diff-split { display: table; }
+.diff-split .diff-text { width: 50%; }
+.diff-num { width: 3.5em; padding: 0 8px; text-align: right; vertical-align: top; color: #888; user-select: none; }
+.diff-sign { width: 1.5em; text-align: center; vertical-align: top; user-select: none; }
+.diff-text { padding-right: 8px; white-space: pre-wrap; word-break: break-word; }
+.diff-removed { background: #fce4ec; color: #880e4f; }
+.diff-added { background: #e8f5e9; color: #1b5e20; }
+.diff-empty { background: rgba(0,0,0,0.03); }
+.diff-removed .diff-word { background: #f8bbd9; border-radius: 2px; }
+.diff-added .diff-word { background: #a5d6a7; border-radius: 2px; }
+.diff-hunk td { padding: 2px 8px; background: rgba(0,0,0,0.04); color: var(--text-muted); }
+.diff-unchanged { font-style: italic; color: var(--text-muted); }
+pre { --code-keyword: #ce93d8; --code-string: #81d4fa; --code-number: #ffcc80; --code-literal: #f48fb1; --code-comment: #90a4ae; --code-title: #ffe082; --code-type: #80cbc4; --code-meta: #b0bec5; }
+.diff { --code-keyword: #7b1fa2; --code-string: #0277bd; --code-number: #e65100; --code-literal: #ad1457; --code-comment: #78909c; --code-title: #5d4037; --code-type: #00695c; --code-meta: #546e7a; }
+.hljs-keyword, .hljs-selector-tag, .hljs-doctag, .hljs-section { color: var(--code-keyword); }
+.hljs-string, .hljs-regexp, .hljs-addition, .hljs-char.escape_ { color: var(--code-string); }
+.hljs-number, .hljs-symbol, .hljs-bullet { color: var(--code-number); }
+.hljs-literal, .hljs-built_in, .hljs-deletion { color: var(--code-literal); }
+.hljs-comment, .hljs-quote { color: var(--code-comment); font-style: italic; }
+.hljs-title, .hljs-name, .hljs-selector-id, .hljs-selector-class { color: var(--code-title); }
+.hljs-type, .hljs-attr, .hljs-attribute, .hljs-variable, .hljs-template-variable, .hljs-property { color: var(--code-type); }
+.hljs-meta { color: var(--code-meta); }
+.hljs-emphasis { font-style: italic; }
+.hljs-strong { font-weight: bold; }
+.message-links { display: flex; align-items: center; gap: 8px; }
+.anchor-link { color: var(--text-muted); text-decoration: none; font-weight: 600; opacity: 0; transition: opacity 0.15s; }
+.message-header:hover .anchor-link, .block-anchor:hover > .anchor-link, .anchor-link:focus { opacity: 1; }
+.anchor-link.copied::after { content: " copied"; font-size: 0.75rem; font-weight: normal; }
+.block-anchor { position: relative; }
+.block-anchor > .anchor-link { position: absolute; top: 8px; right: 10px; z-index: 1; }
+.block-anchor:target { animation: highlight 2s ease-out; border-radius: 8px; }
+.pagination .report-link { background: var(--card-bg); color: var(--text-muted); border: 1px solid var(--assistant-border); margin-left: 8px; }
+.timeline-summary { color: var(--text-muted); margin-bottom: 16px; }
+.timeline-scroll { overflow-x: auto; background: var(--card-bg); border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); padding: 8px 0; }
+.timeline-chart { display: block; font-size: 10px; }
+.timeline-chart text { fill: var(--text-muted); }
+.timeline-lane-label { font-weight: 600; }
+.timeline-tick line { stroke: rgba(0,0,0,0.08); }
+.timeline-gap rect { fill: rgba(0,0,0,0.05); stroke: rgba(0,0,0,0.15); stroke-dasharray: 2 3; }
+.timeline-gap text { text-anchor: middle; font-style: italic; }
+.timeline-compaction-line { stroke: var(--thinking-border); stroke-width: 2; stroke-dasharray: 4 3; }
+.timeline-prompt { fill: var(--user-border); }
+.timeline-compaction { fill: var(--thinking-border); }
+.timeline-assistant { fill: var(--assistant-border); }
+.timeline-tool { fill: var(--tool-border); }
+.timeline-tool.timeline-error { fill: #c62828; }
+.timeline-chart a:hover rect { opacity: 0.7; }
+.stats-summary { color: var(--text-muted); margin-bottom: 16px; }
+.stats-section { background: var(--card-bg); border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); padding: 12px 16px; margin-bottom: 16px; }
+.stats-section h2 { font-size: 1rem; margin: 0 0 8px 0; }
+.stats-bars { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+.stats-bars th { text-align: left; font-weight: 600; padding: 2px 12px 2px 0; white-space: nowrap; width: 1%; }
+.stats-bar-cell { width: 100%; padding: 2px 0; }
+.stats-bar { height: 12px; min-width: 1px; border-radius: 2px; background: var(--tool-border); }
+.stats-bar-error { background: #c62828; }
+.stats-bar-value { text-align: right; padding-left: 12px; white-space: nowrap; color: var(--text-muted); }
+.stats-scroll { overflow-x: auto; }
+.stats-chart { display: block; font-size: 10px; }
+.stats-chart text { fill: var(--text-muted); }
+.stats-chart a:hover rect { opacity: 0.7; }
+.stats-turns { fill: var(--assistant-border); }
+.stats-context { fill: var(--user-border); }
+.stats-marker-compaction { stroke: #ef6c00; stroke-width: 2; stroke-dasharray: 4 2; }
+.stats-marker-model { stroke: var(--thinking-border); stroke-width: 2; }
+.stats-swatch-compaction { background: #ef6c00; }
+.stats-swatch-model { background: var(--thinking-border); }
+.stats-series-0 { fill: var(--tool-border); background: var(--tool-border); }
+.stats-series-1 { fill: var(--user-border); background: var(--user-border); }
+.stats-series-2 { fill: var(--thinking-border); background: var(--thinking-border); }
+.stats-series-3 { fill: #2e7d32; background: #2e7d32; }
+.stats-series-4 { fill: #ef6c00; background: #ef6c00; }
+.stats-series-other { fill: var(--assistant-border); background: var(--assistant-border); }
+.stats-legend { display: flex; flex-wrap: wrap; gap: 12px; font-size: 0.8rem; margin: 8px 0 0 0; }
+.stats-swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 2px; }
+.stats-table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+.stats-table th { text-align: left; color: var(--text-muted); font-weight: 600; padding: 4px 8px; border-bottom: 1px solid rgba(0,0,0,0.1); }
+.stats-table td { padding: 4px 8px; vertical-align: top; border-bottom: 1px solid rgba(0,0,0,0.05); }
+.stats-prompt, .stats-preview { word-break: break-word; }
+.stats-preview { font-family: monospace; font-size: 0.8rem; color: var(--text-muted); white-space: pre-wrap; }
+.files-summary { color: var(--text-muted); margin-bottom: 16px; }
+.files-report-tree { list-style: none; margin: 0; padding-left: 18px; }
+.container > .files-report-tree { padding: 12px 16px; background: var(--card-bg); border-radius: 12px; box-shadow: 0 1px 3px rgba(0,0,0,0.1); }
+.files-report-dir-name { font-family: monospace; font-weight: 600; color: var(--text-muted); }
+.file-entry summary { cursor: pointer; display: flex; flex-wrap: wrap; align-items: baseline; gap: 4px 12px; padding: 2px 0; }
+.file-entry-name { font-family: monospace; }
+.file-changed .file-entry-name { font-weight: 600; color: var(--user-border); }
+.file-entry-counts, .file-entry-times { font-size: 0.8rem; color: var(--text-muted); }
+.file-edits { margin: 4px 0 8px 0; padding-left: 24px; font-size: 0.85rem; }
+.file-edits a { color: inherit; }
+.file-edit-tool { font-weight: 600; color: var(--tool-border); }
+.file-edit-error { color: var(--text-muted); }
+.file-edit-failed { margin-left: 6px; font-size: 0.75rem; color: #c62828; text-transform: uppercase; }
+.file-edits-none { margin: 4px 0 8px 24px; font-size: 0.85rem; color: var(--text-muted); }
+.file-diff { margin: 4px 0 12px 24px; }
+.file-diff-note { margin: 4px 0; font-size: 0.85rem; color: var(--text-muted); }
+.file-diff-failures { margin: 4px 0; padding-left: 20px; font-size: 0.85rem; color: #c62828; }
+.file-diff-failures a { color: inherit; font-weight: 600; }
+.session-boundary { display: flex; align-items: center; flex-wrap: wrap; gap: 6px; margin: 24px 0 16px 0; padding: 8px 12px; border-top: 2px dashed var(--user-border); font-size: 0.85rem; color: var(--text-muted); }
+.session-boundary-label { font-weight: 600; color: var(--user-border); text-transform: uppercase; letter-spacing: 0.5px; }
+.session-boundary code { background: rgba(0,0,0,0.05); padding: 1px 6px; border-radius: 4px; word-break: break-all; }
+details.subagent { margin: -4px 0 12px 0; border: 1px solid var(--tool-border); border-top: none; border-radius: 0 0 8px 8px; background: var(--card-bg); }
+details.subagent summary { cursor: pointer; padding: 8px 12px; font-size: 0.85rem; font-weight: 600; color: var(--tool-border); }
+.subagent-messages { padding: 0 12px 4px 12px; }
+.subagent-messages .message { box-shadow: none; border: 1px solid rgba(0,0,0,0.08); }
+.session-header { margin-bottom: 24px; }
+.session-header h1 { margin-bottom: 12px; }
+.session-meta { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; margin: 0; font-size: 0.85rem; }
+.session-meta dt { font-weight: 600; color: var(--text-muted); }
+.session-meta dd { margin: 0; word-break: break-word; }
+.session-meta time { font-size: inherit; color: inherit; }
+.index-continuation { margin-bottom: 16px; border-left: 4px dashed var(--user-border); border-radius: 12px; background: rgba(0,0,0,0.02); }
+.index-continuation a { display: flex; justify-content: space-between; align-items: center; padding: 8px 16px; text-decoration: none; color: var(--text-muted); font-size: 0.85rem; }
+.index-continuation a:hover { background: rgba(25, 118, 210, 0.1); }
+.index-continuation-label { font-weight: 600; font-style: italic; }
 .index-item { margin-bottom: 16px; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.1); background: var(--user-bg); border-left: 4px solid var(--user-border); }
 .index-item a { display: block; text-decoration: none; color: inherit; }
 .index-item a:hover { background: rgba(25, 118, 210, 0.1); }
@@ -107,6 +272,7 @@ details.continuation[open] summary { border-radius: 12px 12px 0 0; margin-bottom
 .index-item-number { font-weight: 600; color: var(--user-border); }
 .index-item-content { padding: 16px; }
 .index-item-stats { padding: 8px 16px 12px 32px; font-size: 0.85rem; color: var(--text-muted); border-top: 1px solid rgba(0,0,0,0.06); }
+.index-item-usage { display: block; }
 .index-item-commit { margin-top: 6px; padding: 4px 8px; background: #fff3e0; border-radius: 4px; font-size: 0.85rem; color: #e65100; }
 .index-item-commit code { background: rgba(0,0,0,0.08); padding: 1px 4px; border-radius: 3px; font-size: 0.8rem; margin-right: 6px; }
 .commit-card { margin: 8px 0; padding: 10px 14px; background: #fff3e0; border-left: 4px solid #ff9800; border-radius: 6px; }
@@ -140,4 +306,5 @@ details.continuation[open] summary { border-radius: 12px 12px 0 0; margin-bottom
 .search-result-page { padding: 6px 12px; background: rgba(0,0,0,0.03); font-size: 0.8rem; color: var(--text-muted); border-bottom: 1px solid rgba(0,0,0,0.06); }
 .search-result-content { padding: 12px; }
 .search-result mark { background: #fff59d; padding: 1px 2px; border-radius: 2px; }
+.single-file-bar { display: flex; justify-content: flex-end; margin-bottom: 8px; }
 @media (max-width: 600px) { body { padding: 8px; } .message, .index-item { border-radius: 8px; } .message-content, .index-item-content { padding: 12px; } pre { font-size: 0.8rem; padding: 8px; } #search-box input { width: 120px; } #search-modal[open] { width: 95vw; height: 90vh; } }`;
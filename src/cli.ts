@@ -1,58 +1,277 @@
 #!/usr/bin/env node
 
-import { renderTranscriptFromFile } from "./index.js";
+import {
+  renderTranscriptFromFile,
+  reconstructFilesFromFile,
+  writeReconstructedFiles,
+  renderTerminalFromFile,
+  showInPager,
+  formatDiagnostic,
+  type ParseDiagnostic,
+  type PaginationStrategy,
+  type ContentFilter,
+  type RenderOptions,
+} from "./index.js";
+
+const FORMATS: Record<string, RenderOptions["format"]> = {
+  html: "html",
+  md: "markdown",
+  markdown: "markdown",
+};
 
 const args = process.argv.slice(2);
+// `cc-transcript view <input>` reads the session in the terminal instead of writing files
+const view = args[0] === "view";
+if (view) {
+  args.shift();
+}
 
 if (args.length === 0 || args.includes("--help") || args.includes("-h")) {
   console.log(`
 cc-transcript - Convert Claude Code session files to HTML transcripts
 
 Usage:
-  cc-transcript <input-file> [output-dir] [--repo <owner/repo>]
+  cc-transcript <input>... [output-dir] [--repo <owner/repo>] [options]
+  cc-transcript view <input>... [--prompt <n>] [options]
 
 Arguments:
-  input-file   Path to session file (.json or .jsonl)
+  input        Path to a session file (.json or .jsonl), or a session id.
+               Several inputs, or the files of a resumed session, are
+               merged into one transcript
   output-dir   Output directory (default: ./output)
 
 Options:
+  --output, -o Output directory, when it cannot be told apart from an input
   --repo       GitHub repo for commit links (e.g., owner/repo)
+  --title      Transcript title (default: the session summary)
+  --strict     Fail if any line of the session file is invalid
+  --alternate-branches
+               Show abandoned branches (rewinds, edits, retries) as
+               collapsible alternate paths
+  --pair-tool-results
+               Show each tool result under its call as one card
+  --projects-dir
+               Where to look up session ids (default: ~/.claude/projects)
+  --prompts-per-page <n>
+               Prompts per page (default: 5)
+  --max-page-bytes <n>
+               Fit as many prompts on a page as stay under this size in
+               bytes of HTML; accepts k and m suffixes (e.g. 500k)
+  --by-day     One page per calendar day (UTC)
+  --no-thinking
+               Leave out thinking blocks
+  --no-tools   Leave out tool calls and results
+  --exclude-tool <name>
+               Leave out calls to a tool and their results; accepts globs
+               (e.g. "mcp__*") and may be repeated
+  --format <html|md>
+               Output format (default: html). Markdown is written to one
+               transcript.md, or one file per page with --prompts-per-page,
+               --max-page-bytes or --by-day
+  --single-file
+               Write one transcript.html holding the index, the pages and
+               the reports, with search that works from a local file.
+               Not with --format md
+  --file-diffs Show a before/after diff of each changed file on the
+               files report
+  --reconstruct <dir>
+               Also write the final contents of the files the session
+               changed, rebuilt from its Write and Edit calls, to <dir>
   --help, -h   Show this help message
 
+View options:
+  --prompt <n> Open the pager at prompt n
+  --no-pager   Write to stdout instead of the pager ($PAGER, or less)
+  The filter options, --title, --strict and --projects-dir also apply
+
 Examples:
   cc-transcript session.jsonl
   cc-transcript session.jsonl ./output --repo myorg/myrepo
+  cc-transcript first.jsonl resumed.jsonl -o ./output
+  cc-transcript session.jsonl --format md
+  cc-transcript session.jsonl --single-file
+  cc-transcript 0b5c7a8e-3f4d-4b1e-9c2a-6d8f1e2a3b4c
+  cc-transcript view session.jsonl --prompt 3
 `);
   process.exit(0);
 }
 
-const inputFile = args[0];
-if (!inputFile) {
-  console.error("Error: Input file is required");
-  process.exit(1);
-}
-
-let outputDir = "./output";
+const positional: string[] = [];
+let outputDir: string | undefined;
 let githubRepo: string | undefined;
+let title: string | undefined;
+let strict = false;
+let alternateBranches = false;
+let pairToolResults = false;
+let projectsDir: string | undefined;
+let pagination: PaginationStrategy | undefined;
+let fileDiffs = false;
+let reconstructDir: string | undefined;
+let format: RenderOptions["format"];
+let singleFile = false;
+let prompt: number | undefined;
+let pager = true;
+const exclude: Required<Pick<ContentFilter, "blocks" | "tools">> = { blocks: [], tools: [] };
+
+const SIZE_SUFFIXES: Record<string, number> = { "": 1, k: 1024, m: 1024 * 1024 };
+
+// Parse a positive whole number, with an optional k or m suffix for sizes
+function parseCount(flag: string, value: string, allowSuffix = false): number {
+  const match = /^(\d+)([km]?)$/i.exec(value);
+  const suffix = match?.[2]?.toLowerCase() ?? "";
+  const count = match && (allowSuffix || !suffix) ? Number(match[1]) * SIZE_SUFFIXES[suffix]! : 0;
+  if (count < 1) {
+    console.error(`Error: ${flag} needs a positive number, got "${value}"`);
+    process.exit(1);
+  }
+  return count;
+}
 
-for (let i = 1; i < args.length; i++) {
+for (let i = 0; i < args.length; i++) {
   const arg = args[i];
   if (arg === "--repo" && args[i + 1]) {
     githubRepo = args[i + 1];
     i++;
-  } else if (!arg?.startsWith("--")) {
-    outputDir = arg ?? outputDir;
+  } else if (arg === "--title" && args[i + 1]) {
+    title = args[i + 1];
+    i++;
+  } else if ((arg === "--output" || arg === "-o") && args[i + 1]) {
+    outputDir = args[i + 1];
+    i++;
+  } else if (arg === "--projects-dir" && args[i + 1]) {
+    projectsDir = args[i + 1];
+    i++;
+  } else if (arg === "--prompts-per-page" && args[i + 1]) {
+    pagination = { promptsPerPage: parseCount(arg, args[i + 1]!) };
+    i++;
+  } else if (arg === "--max-page-bytes" && args[i + 1]) {
+    pagination = { maxBytesPerPage: parseCount(arg, args[i + 1]!, true) };
+    i++;
+  } else if (arg === "--by-day") {
+    pagination = { byDay: true };
+  } else if (arg === "--exclude-tool" && args[i + 1]) {
+    exclude.tools.push(args[i + 1]!);
+    i++;
+  } else if (arg === "--no-thinking") {
+    exclude.blocks.push("thinking");
+  } else if (arg === "--no-tools") {
+    exclude.blocks.push("tool_use", "tool_result");
+  } else if (arg === "--reconstruct" && args[i + 1]) {
+    reconstructDir = args[i + 1];
+    i++;
+  } else if (arg === "--format" && args[i + 1]) {
+    format = FORMATS[args[i + 1]!.toLowerCase()];
+    if (!format) {
+      console.error(`Error: --format needs html or md, got "${args[i + 1]}"`);
+      process.exit(1);
+    }
+    i++;
+  } else if (arg === "--prompt" && args[i + 1]) {
+    prompt = parseCount(arg, args[i + 1]!);
+    i++;
+  } else if (arg === "--no-pager") {
+    pager = false;
+  } else if (arg === "--single-file") {
+    singleFile = true;
+  } else if (arg === "--file-diffs") {
+    fileDiffs = true;
+  } else if (arg === "--strict") {
+    strict = true;
+  } else if (arg === "--alternate-branches") {
+    alternateBranches = true;
+  } else if (arg === "--pair-tool-results") {
+    pairToolResults = true;
+  } else if (arg && !arg.startsWith("--")) {
+    positional.push(arg);
   }
 }
 
-console.log(`Converting: ${inputFile}`);
+if (view) {
+  if (positional.length === 0) {
+    console.error("Error: Input file is required");
+    process.exit(1);
+  }
+  try {
+    const transcript = await renderTerminalFromFile(positional, {
+      title,
+      strict,
+      projectsDir,
+      exclude,
+      color: Boolean(process.stdout.isTTY) && !process.env.NO_COLOR,
+    });
+    const prompts = transcript.promptLines.length;
+    if (prompt && prompt > prompts) {
+      console.error(`Error: --prompt ${prompt} is past the last prompt (${prompts})`);
+      process.exit(1);
+    }
+    const startLine = prompt ? transcript.promptLines[prompt - 1]! : 0;
+    if (pager) {
+      await showInPager(transcript.text, startLine);
+    } else {
+      process.stdout.write(transcript.text.split("\n").slice(startLine).join("\n"));
+    }
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  process.exit(0);
+}
+
+if (singleFile && format === "markdown") {
+  console.error("Error: --single-file only works with --format html");
+  process.exit(1);
+}
+
+// Without --output, a trailing argument that is not a session file is the
+// output directory
+const last = positional[positional.length - 1];
+if (!outputDir && positional.length > 1 && last && !/\.jsonl?$/.test(last)) {
+  outputDir = positional.pop();
+}
+outputDir ??= "./output";
+
+const inputs = positional;
+if (inputs.length === 0) {
+  console.error("Error: Input file is required");
+  process.exit(1);
+}
+
+console.log(`Converting: ${inputs.join(", ")}`);
 console.log(`Output dir: ${outputDir}`);
 if (githubRepo) {
   console.log(`GitHub repo: ${githubRepo}`);
 }
 
+const MAX_REPORTED_DIAGNOSTICS = 10;
+
 try {
-  const output = await renderTranscriptFromFile(inputFile, { githubRepo });
+  const diagnostics: ParseDiagnostic[] = [];
+  const output = await renderTranscriptFromFile(inputs, {
+    githubRepo,
+    title,
+    strict,
+    alternateBranches,
+    pairToolResults,
+    projectsDir,
+    pagination,
+    exclude,
+    fileDiffs,
+    format,
+    singleFile,
+    onDiagnostic: (diagnostic) => diagnostics.push(diagnostic),
+  });
+
+  if (diagnostics.length > 0) {
+    console.warn(
+      `\nWarning: skipped ${diagnostics.length} invalid line${diagnostics.length !== 1 ? "s" : ""}:`
+    );
+    for (const diagnostic of diagnostics.slice(0, MAX_REPORTED_DIAGNOSTICS)) {
+      console.warn(`  ${diagnostic.file}: ${formatDiagnostic(diagnostic)}`);
+    }
+    if (diagnostics.length > MAX_REPORTED_DIAGNOSTICS) {
+      console.warn(`  ... and ${diagnostics.length - MAX_REPORTED_DIAGNOSTICS} more`);
+    }
+  }
 
   console.log(`\nGenerated ${output.files.size} files:`);
   for (const filename of output.files.keys()) {
@@ -61,6 +280,24 @@ try {
 
   await output.writeTo(outputDir);
   console.log(`\nWritten to ${outputDir}/`);
+
+  if (reconstructDir) {
+    const reconstruction = await reconstructFilesFromFile(inputs, { strict, projectsDir });
+    const written = await writeReconstructedFiles(reconstruction, reconstructDir);
+    const total = reconstruction.files.length;
+    console.log(
+      `\nReconstructed ${written.length} of ${total} changed file${total !== 1 ? "s" : ""} into ${reconstructDir}/`
+    );
+    for (const file of reconstruction.files) {
+      if (file.complete && file.failures.length === 0) continue;
+      console.log(
+        `  ${file.path}: ${file.complete ? "rebuilt from a later Read" : "final content not known"}`
+      );
+      for (const failure of file.failures) {
+        console.log(`    ${failure.tool} could not be replayed: ${failure.reason}`);
+      }
+    }
+  }
 } catch (error) {
   console.error("Error:", error instanceof Error ? error.message : error);
   process.exit(1);
@@ -0,0 +1,125 @@
+/**
+ * Content filtering
+ *
+ * Drops loglines and content blocks according to the `include` and `exclude`
+ * render options before conversations are grouped, so everything derived
+ * from the conversations (index stats, commits, pagination) sees only what
+ * is rendered.
+ */
+
+import type { Logline, MessageContentBlock } from "./schemas.js";
+import type { ContentBlockKind, ContentFilter, RenderOptions } from "./types.js";
+import { matchToolName } from "./render/tool-registry.js";
+import { isKnownContentBlock } from "./render/content-blocks.js";
+
+/** Filter kind of each content block type */
+const BLOCK_KINDS: Record<string, ContentBlockKind> = {
+  text: "text",
+  thinking: "thinking",
+  redacted_thinking: "thinking",
+  tool_use: "tool_use",
+  server_tool_use: "tool_use",
+  tool_result: "tool_result",
+  web_search_tool_result: "tool_result",
+  image: "image",
+  document: "document",
+};
+
+/**
+ * Filters loglines one at a time
+ *
+ * Tool results are matched by the name of their call, so loglines must be
+ * applied in order.
+ */
+export interface LoglineFilter {
+  /**
+   * Filter a logline
+   *
+   * @returns The logline with filtered content, or null if nothing is left
+   */
+  apply(logline: Logline): Logline | null;
+}
+
+/**
+ * Create a filter from the `include` and `exclude` options
+ */
+export function createLoglineFilter(
+  options: Pick<RenderOptions, "include" | "exclude">
+): LoglineFilter {
+  const { include = {}, exclude = {} } = options;
+  // Tool name of every call seen so far, to match results by their call
+  const toolNames = new Map<string, string>();
+
+  const matchesTools = (patterns: string[], name: string | undefined) =>
+    name !== undefined && patterns.some((pattern) => matchToolName(pattern, name));
+
+  const keepBlock = (block: MessageContentBlock): boolean => {
+    // Blocks of unknown types are never filtered
+    if (!isKnownContentBlock(block)) return true;
+
+    const kind = BLOCK_KINDS[block.type];
+    if (kind && exclude.blocks?.includes(kind)) return false;
+    if (kind && include.blocks && !include.blocks.includes(kind)) return false;
+
+    let toolName: string | undefined;
+    switch (block.type) {
+      case "tool_use":
+      case "server_tool_use":
+        toolName = block.name;
+        toolNames.set(block.id, toolName);
+        break;
+      case "tool_result":
+      case "web_search_tool_result":
+        toolName = block.tool_use_id ? toolNames.get(block.tool_use_id) : undefined;
+        break;
+      default:
+        return true;
+    }
+
+    if (exclude.tools && matchesTools(exclude.tools, toolName)) return false;
+    if (include.tools && !matchesTools(include.tools, toolName)) return false;
+    return true;
+  };
+
+  const keepText = (): boolean =>
+    !exclude.blocks?.includes("text") && (!include.blocks || include.blocks.includes("text"));
+
+  return {
+    apply(logline) {
+      const flagged = (flags: ContentFilter["flags"]) =>
+        flags?.some((flag) => Boolean(logline[flag])) ?? false;
+      if (flagged(exclude.flags)) return null;
+      if (include.flags && !flagged(include.flags)) return null;
+
+      const content = logline.message?.content ?? logline.content;
+      if (content === undefined) {
+        return logline;
+      }
+
+      let filtered: typeof content | null;
+      if (typeof content === "string") {
+        filtered = keepText() ? content : null;
+      } else {
+        const blocks = content.filter(keepBlock);
+        filtered =
+          blocks.length === content.length ? content : blocks.length > 0 ? blocks : null;
+      }
+
+      if (filtered === null) return null;
+      if (filtered === content) return logline;
+      return logline.message
+        ? { ...logline, message: { ...logline.message, content: filtered } }
+        : { ...logline, content: filtered };
+    },
+  };
+}
+
+/**
+ * Filter a list of loglines
+ */
+export function filterLoglines(
+  loglines: Logline[],
+  filter: LoglineFilter
+): Logline[] {
+  return loglines.flatMap((logline) => filter.apply(logline) ?? []);
+}
@@ -9,7 +9,91 @@ export * from "./schemas.js";
 export * from "./types.js";
 
 // Re-export parsing functions
-export { parseSessionFile } from "./parse.js";
+export {
+  parseSessionFile,
+  streamLoglines,
+  formatDiagnostic,
+  SessionParseError,
+} from "./parse.js";
+
+// Re-export conversation tree functions
+export {
+  selectBranch,
+  selectBranchFromFile,
+  applyBranchSelection,
+  filterToBranch,
+  type BranchSelection,
+  type BranchLoglines,
+} from "./tree.js";
+
+// Re-export sub-agent functions
+export {
+  isSubagentToolUse,
+  createSubagentCollector,
+  collectSubagentRuns,
+  loadAgentLoglines,
+  type SubagentCollector,
+} from "./subagents.js";
+
+// Re-export multi-file session functions
+export { mergeSessions, findSessionFiles, resolveSessionFiles } from "./sessions.js";
+
+// Re-export content filtering functions
+export { createLoglineFilter, filterLoglines, type LoglineFilter } from "./filter.js";
+
+// Re-export file reconstruction functions
+export {
+  createFileReconstructor,
+  reconstructFiles,
+  reconstructFilesFromFile,
+  writeReconstructedFiles,
+  type FileReconstructor,
+} from "./reconstruct.js";
+
+// Re-export session metadata functions
+export {
+  createMetadataCollector,
+  collectSessionMetadata,
+  type MetadataCollector,
+} from "./metadata.js";
+
+// Re-export tool renderer registry
+export {
+  createToolRendererRegistry,
+  matchToolName,
+  BUILTIN_TOOL_RENDERERS,
+  type ToolRendererRegistry,
+} from "./render/tool-registry.js";
+
+// Re-export token usage functions
+export {
+  DEFAULT_PRICING,
+  createUsageCounter,
+  findModelPricing,
+  addUsage,
+  emptyUsage,
+  getTotalTokens,
+  getCacheHitRatio,
+  type UsageCounter,
+} from "./usage.js";
+
+// Re-export session statistics functions
+export { analyzeSession, createStatsCollector, type StatsCollector } from "./render/stats.js";
 
 // Re-export main render function
-export { renderTranscript, renderTranscriptFromFile } from "./render/transcript.js";
+export {
+  renderTranscript,
+  renderTranscriptStream,
+  renderTranscriptFromFile,
+} from "./render/transcript.js";
+
+// Re-export terminal render functions
+export {
+  renderTerminal,
+  renderTerminalFromFile,
+  type TerminalRenderOptions,
+  type TerminalTranscript,
+} from "./render/terminal.js";
+
+// Re-export pager
+export { showInPager } from "./pager.js";
@@ -0,0 +1,82 @@
+/**
+ * Session metadata
+ *
+ * Collects the details shown in the index page header (title, working
+ * directory, branches, versions, models and time span) from loglines as
+ * they stream past.
+ */
+
+import type { Logline } from "./schemas.js";
+import type { SessionMetadata } from "./types.js";
+
+/**
+ * Accumulates session metadata one logline at a time
+ */
+export interface MetadataCollector {
+  add(logline: Logline): void;
+  finish(): SessionMetadata;
+}
+
+function addUnique(values: string[], value: string | undefined): void {
+  if (value && !values.includes(value)) {
+    values.push(value);
+  }
+}
+
+/**
+ * Create a collector for session metadata
+ *
+ * The title is taken from the last summary line, as later summaries describe
+ * more of the session.
+ */
+export function createMetadataCollector(): MetadataCollector {
+  const metadata: SessionMetadata = {
+    sessionIds: [],
+    gitBranches: [],
+    versions: [],
+    models: [],
+  };
+
+  return {
+    add(logline) {
+      if (logline.type === "summary" && logline.summary) {
+        metadata.title = logline.summary;
+      }
+
+      addUnique(metadata.sessionIds, logline.sessionId);
+      addUnique(metadata.gitBranches, logline.gitBranch);
+      addUnique(metadata.versions, logline.version);
+      if (logline.type === "assistant") {
+        // "<synthetic>" marks messages generated by Claude Code itself
+        const model = logline.message?.model;
+        addUnique(metadata.models, model === "<synthetic>" ? undefined : model);
+      }
+      metadata.cwd ??= logline.cwd;
+
+      const timestamp = logline.timestamp;
+      if (timestamp) {
+        if (!metadata.startTime || timestamp < metadata.startTime) {
+          metadata.startTime = timestamp;
+        }
+        if (!metadata.endTime || timestamp > metadata.endTime) {
+          metadata.endTime = timestamp;
+        }
+      }
+    },
+
+    finish() {
+      return { ...metadata };
+    },
+  };
+}
+
+/**
+ * Collect the metadata of a complete list of loglines
+ */
+export function collectSessionMetadata(loglines: Iterable<Logline>): SessionMetadata {
+  const collector = createMetadataCollector();
+  for (const logline of loglines) {
+    collector.add(logline);
+  }
+  return collector.finish();
+}
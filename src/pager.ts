@@ -0,0 +1,42 @@
+/**
+ * Pager
+ *
+ * Shows text through the user's pager (`$PAGER`, or `less`), the way git
+ * does. `less` is told to pass colours through and to open at a given
+ * line; other pagers are given the text from that line on.
+ */
+
+import { spawn } from "node:child_process";
+
+/**
+ * Show text in the user's pager, starting at a line (0-based)
+ *
+ * Writes the text straight to stdout when stdout is not a terminal, or
+ * when the pager cannot be started.
+ */
+export async function showInPager(text: string, startLine = 0): Promise<void> {
+  const fromStart = text.split("\n").slice(startLine).join("\n");
+  const command = process.env.PAGER?.trim() || "less";
+  if (!process.stdout.isTTY || command === "cat") {
+    process.stdout.write(fromStart);
+    return;
+  }
+
+  const isLess = /(^|\/)less$/.test(command.split(/\s+/)[0]!);
+  const jump = isLess && startLine > 0 ? ` +${startLine + 1}g` : "";
+  const env = { ...process.env, LESS: process.env.LESS ?? "FRX" };
+
+  const code = await new Promise<number | null>((resolve) => {
+    const pager = spawn(command + jump, { shell: true, env, stdio: ["pipe", "inherit", "inherit"] });
+    pager.on("error", () => resolve(127));
+    pager.on("close", resolve);
+    // Quitting the pager before reading all of it closes the pipe early
+    pager.stdin.on("error", () => {});
+    pager.stdin.end(isLess ? text : fromStart);
+  });
+
+  // The shell exits with 127 when the pager command is not found
+  if (code === 127) {
+    process.stdout.write(fromStart);
+  }
+}
@@ -2,8 +2,50 @@
  * Parse Claude Code session files (JSON and JSONL formats)
  */
 
+import { createReadStream } from "node:fs";
 import { readFile } from "node:fs/promises";
+import { createInterface } from "node:readline";
+import type { z } from "zod";
 import { SessionDataSchema, LoglineSchema, type SessionData, type Logline } from "./schemas.js";
+import type { ParseDiagnostic, ParseOptions, ParsedSession } from "./types.js";
+
+/** Logline types kept from JSONL files */
+const SESSION_LINE_TYPES: ReadonlySet<Logline["type"]> = new Set([
+  "user",
+  "assistant",
+  "summary",
+  "system",
+]);
+
+/** Maximum length of the raw line kept in a diagnostic */
+const SNIPPET_LENGTH = 120;
+
+/**
+ * Error thrown in strict mode when a session file contains invalid lines
+ */
+export class SessionParseError extends Error {
+  readonly filePath: string;
+  readonly diagnostics: ParseDiagnostic[];
+
+  constructor(filePath: string, diagnostics: ParseDiagnostic[]) {
+    const count = diagnostics.length;
+    super(
+      `${count} invalid line${count !== 1 ? "s" : ""} in ${filePath}:\n` +
+        diagnostics.map((d) => `  ${formatDiagnostic(d)}`).join("\n")
+    );
+    this.name = "SessionParseError";
+    this.filePath = filePath;
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Format a diagnostic as a single human readable line
+ */
+export function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  const path = diagnostic.path.map(String).join(".");
+  return `line ${diagnostic.line}: ${path ? `${path}: ` : ""}${diagnostic.reason}`;
+}
 
 /**
  * Parse a session file and return validated session data
@@ -11,16 +53,103 @@ import { SessionDataSchema, LoglineSchema, type SessionData, type Logline } from
  * Supports both JSON and JSONL formats.
  * - JSON files should have a `loglines` array at the root
  * - JSONL files have one JSON object per line
+ *
+ * JSONL lines that fail to parse or validate are skipped and reported in
+ * `diagnostics`; with `strict: true` they raise a `SessionParseError` instead.
  */
-export async function parseSessionFile(filePath: string): Promise<SessionData> {
-  const content = await readFile(filePath, "utf-8");
+export async function parseSessionFile(
+  filePath: string,
+  options: ParseOptions = {}
+): Promise<ParsedSession> {
+  const diagnostics: ParseDiagnostic[] = [];
 
   // Detect format based on file extension or content
-  if (filePath.endsWith(".jsonl") || isJsonl(content)) {
-    return parseJsonl(content);
-  } else {
-    return parseJson(content);
+  if (await isJsonlFile(filePath)) {
+    const loglines: Logline[] = [];
+    const stream = streamLoglines(filePath, {
+      ...options,
+      onDiagnostic: (diagnostic) => {
+        diagnostics.push(diagnostic);
+        options.onDiagnostic?.(diagnostic);
+      },
+    });
+    for await (const logline of stream) {
+      loglines.push(logline);
+    }
+    return { loglines, diagnostics };
+  }
+
+  const content = await readFile(filePath, "utf-8");
+  return { ...parseJson(content), diagnostics };
+}
+
+/**
+ * Stream validated loglines from a session file
+ *
+ * JSONL files are read line by line and each line is validated with
+ * `LoglineSchema` as it arrives, so the file is never held in memory as a
+ * whole. JSON files cannot be split this way and are parsed in one go.
+ *
+ * Rejected lines are passed to `onDiagnostic`. In strict mode the stream
+ * throws a `SessionParseError` listing all of them once the file is read.
+ */
+export async function* streamLoglines(
+  filePath: string,
+  options: ParseOptions = {}
+): AsyncGenerator<Logline> {
+  if (!(await isJsonlFile(filePath))) {
+    const content = await readFile(filePath, "utf-8");
+    yield* parseJson(content).loglines;
+    return;
+  }
+
+  const rejected: ParseDiagnostic[] = [];
+  const report = (diagnostic: ParseDiagnostic) => {
+    rejected.push(diagnostic);
+    options.onDiagnostic?.(diagnostic);
+  };
+
+  let lineNumber = 0;
+  for await (const line of readLines(filePath)) {
+    lineNumber++;
+    const logline = parseJsonlLine(line, filePath, lineNumber, report);
+    if (logline) {
+      yield logline;
+    }
+  }
+
+  if (options.strict && rejected.length > 0) {
+    throw new SessionParseError(filePath, rejected);
+  }
+}
+
+/**
+ * Read a file line by line without loading it into memory
+ */
+async function* readLines(filePath: string): AsyncGenerator<string> {
+  const input = createReadStream(filePath, { encoding: "utf-8" });
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    yield* lines;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+/**
+ * Check if a file appears to be JSONL format
+ */
+async function isJsonlFile(filePath: string): Promise<boolean> {
+  if (filePath.endsWith(".jsonl")) {
+    return true;
+  }
+
+  for await (const line of readLines(filePath)) {
+    return isJsonl(line);
   }
+  return false;
 }
 
 /**
@@ -49,33 +178,89 @@ function parseJson(content: string): SessionData {
 }
 
 /**
- * Parse JSONL format session file
+ * Parse a single JSONL line
+ *
+ * Returns null for blank or invalid lines and for tool loglines. Invalid
+ * lines are passed to `report`.
  */
-function parseJsonl(content: string): SessionData {
-  const lines = content.split("\n");
-  const loglines: Logline[] = [];
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-
-    try {
-      const obj = JSON.parse(trimmed);
-      const parsed = LoglineSchema.safeParse(obj);
-
-      if (parsed.success) {
-        // Only include user and assistant messages
-        if (parsed.data.type === "user" || parsed.data.type === "assistant") {
-          loglines.push(parsed.data);
+function parseJsonlLine(
+  line: string,
+  file: string,
+  lineNumber: number,
+  report: (diagnostic: ParseDiagnostic) => void
+): Logline | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  const snippet =
+    trimmed.length > SNIPPET_LENGTH ? trimmed.slice(0, SNIPPET_LENGTH) + "..." : trimmed;
+
+  let obj: unknown;
+  try {
+    obj = JSON.parse(trimmed);
+  } catch (error) {
+    report({
+      file,
+      line: lineNumber,
+      snippet,
+      path: [],
+      reason: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    });
+    return null;
+  }
+
+  const parsed = LoglineSchema.safeParse(obj);
+  if (!parsed.success) {
+    const issue = findMostSpecificIssue(parsed.error.issues, []);
+    report({
+      file,
+      line: lineNumber,
+      snippet,
+      path: issue?.path ?? [],
+      reason: issue?.message ?? parsed.error.message,
+    });
+    return null;
+  }
+
+  // Keep messages, plus the summary and system lines that carry session
+  // metadata and link the message tree together
+  if (SESSION_LINE_TYPES.has(parsed.data.type)) {
+    return parsed.data;
+  }
+  return null;
+}
+
+/**
+ * Find the issue with the deepest path
+ *
+ * Union failures are reported by zod at the union itself; descending into
+ * each branch gives a path that points at the field that actually failed.
+ */
+function findMostSpecificIssue(
+  issues: z.core.$ZodIssue[],
+  prefix: PropertyKey[]
+): { path: PropertyKey[]; message: string } | null {
+  let best: { path: PropertyKey[]; message: string } | null = null;
+
+  for (const issue of issues) {
+    const path = [...prefix, ...issue.path];
+    let candidate = { path, message: issue.message };
+
+    if (issue.code === "invalid_union") {
+      for (const branch of issue.errors) {
+        const nested = findMostSpecificIssue(branch, path);
+        if (nested && nested.path.length > candidate.path.length) {
+          candidate = nested;
         }
       }
-    } catch {
-      // Skip invalid lines
-      continue;
+    }
+
+    if (!best || candidate.path.length > best.path.length) {
+      best = candidate;
     }
   }
 
-  return { loglines };
+  return best;
 }
 
 /**
@@ -0,0 +1,258 @@
+/**
+ * File reconstruction
+ *
+ * Replays the Write, Edit and MultiEdit calls of a session per file, starting
+ * from what a full Read or a Write showed of it, to rebuild each changed
+ * file's contents before and after the session. Changes made any other way,
+ * such as through Bash, are only picked up by a later full Read.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, isAbsolute, join, normalize, relative } from "node:path";
+import type { SessionData, ToolResultBlock, ToolUseBlock } from "./schemas.js";
+import type {
+  FileEdit,
+  FileReconstruction,
+  ParseOptions,
+  ReconstructedFile,
+  RenderOptions,
+  SessionSourceOptions,
+} from "./types.js";
+import { parseSessionFile } from "./parse.js";
+import { applyBranchSelection, selectBranch } from "./tree.js";
+import { mergeSessions, resolveSessionFiles } from "./sessions.js";
+import { loadAgentLoglines } from "./subagents.js";
+import { collectSessionMetadata } from "./metadata.js";
+import { getFileEdits, getFilePath, getFileToolName } from "./render/file-tracker.js";
+import { getResultText } from "./render/tool-pairs.js";
+import { parseNumberedLines } from "./render/tool-renderers.js";
+
+/** Lines the Read tool returns when the call sets no limit */
+const DEFAULT_READ_LIMIT = 2000;
+
+/**
+ * Replays file tool calls in the order they were made
+ */
+export interface FileReconstructor {
+  /**
+   * Replay a tool call; calls to other tools, and calls whose result is an
+   * error, are ignored. A call without a result is taken to have succeeded.
+   */
+  record(use: ToolUseBlock, result: ToolResultBlock | undefined): void;
+  /** Files changed by the calls so far, in order of path */
+  finish(): ReconstructedFile[];
+}
+
+/**
+ * Get the whole file from a Read result
+ *
+ * @returns null if the output may leave out part of the file. The Read tool
+ *   does not show whether the file ends with a newline, so one is assumed.
+ */
+function readWholeFile(use: ToolUseBlock, output: string): string | null {
+  const lines = parseNumberedLines(output).filter((line) => line.number !== null);
+  if (!lines.every((line, i) => Number(line.number) === i + 1)) return null;
+  if (lines.length === 0 || lines.length >= (Number(use.input.limit) || DEFAULT_READ_LIMIT)) {
+    return null;
+  }
+
+  const text = lines.map((line) => line.text);
+  if (text[text.length - 1] === "") {
+    text.pop();
+  }
+  return text.join("\n") + "\n";
+}
+
+/**
+ * Apply one replacement the way the Edit tool does
+ *
+ * @returns The new content, or why the replacement cannot be made
+ */
+function replaceText(content: string, edit: FileEdit): { content: string } | { reason: string } {
+  if (!edit.oldString) {
+    return content ? { reason: "no text to replace" } : { content: edit.newString };
+  }
+
+  const parts = content.split(edit.oldString);
+  const occurrences = parts.length - 1;
+  if (occurrences === 0) {
+    return { reason: "text not found" };
+  }
+  if (edit.replaceAll) {
+    return { content: parts.join(edit.newString) };
+  }
+  if (occurrences > 1) {
+    return { reason: `text found ${occurrences} times` };
+  }
+  return { content: parts[0] + edit.newString + parts[1] };
+}
+
+/**
+ * Create a reconstructor with no files known
+ */
+export function createFileReconstructor(): FileReconstructor {
+  // Latest known content of every file read or changed; null once unknown
+  const contents = new Map<string, string | null>();
+  const changed = new Map<string, ReconstructedFile>();
+
+  const startChange = (path: string, content: string | null): ReconstructedFile => {
+    let file = changed.get(path);
+    if (!file) {
+      file = { path, before: content, after: null, complete: false, failures: [] };
+      changed.set(path, file);
+    }
+    return file;
+  };
+
+  return {
+    record(use, result) {
+      if (result?.is_error) return;
+      const path = getFilePath(use);
+      if (!path) return;
+      const current = contents.get(path) ?? null;
+
+      switch (getFileToolName(use)) {
+        case "read": {
+          const output = result ? getResultText(result) : null;
+          const whole = output !== null ? readWholeFile(use, output) : null;
+          // Keep the known content if it only differs in the assumed final newline
+          if (whole !== null && current?.replace(/\n$/, "") !== whole.replace(/\n$/, "")) {
+            contents.set(path, whole);
+          }
+          return;
+        }
+
+        case "write": {
+          startChange(path, current);
+          contents.set(path, String(use.input.content ?? ""));
+          return;
+        }
+
+        case "edit":
+        case "multiedit": {
+          const file = startChange(path, current);
+          if (current === null) {
+            file.failures.push({ toolUseId: use.id, tool: use.name, reason: "content not known" });
+            return;
+          }
+
+          const edits = getFileEdits(use);
+          let content = current;
+          for (const [index, edit] of edits.entries()) {
+            const replaced = replaceText(content, edit);
+            if ("reason" in replaced) {
+              const reason =
+                edits.length > 1
+                  ? `edit ${index + 1} of ${edits.length}: ${replaced.reason}`
+                  : replaced.reason;
+              file.failures.push({ toolUseId: use.id, tool: use.name, reason });
+              contents.set(path, null);
+              return;
+            }
+            content = replaced.content;
+          }
+          contents.set(path, content);
+          return;
+        }
+      }
+    },
+
+    finish() {
+      return [...changed.values()]
+        .map((file) => {
+          const after = contents.get(file.path) ?? null;
+          return { ...file, after, complete: after !== null, failures: [...file.failures] };
+        })
+        .sort((a, b) => a.path.localeCompare(b.path));
+    },
+  };
+}
+
+/**
+ * Rebuild the files a session changed
+ *
+ * Follows the active branch of the conversation, like `renderTranscript`.
+ * Sub-agent calls are replayed where they appear among the loglines.
+ */
+export function reconstructFiles(
+  session: SessionData,
+  options: Pick<RenderOptions, "leafUuid"> = {}
+): FileReconstruction {
+  const { loglines } = applyBranchSelection(
+    session.loglines,
+    selectBranch(session.loglines, options.leafUuid)
+  );
+
+  const blocks = loglines.flatMap((logline) => {
+    const content = logline.message?.content ?? logline.content;
+    return Array.isArray(content) ? content : [];
+  });
+  const results = new Map<string, ToolResultBlock>();
+  for (const block of blocks) {
+    if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
+      results.set(block.tool_use_id, block as ToolResultBlock);
+    }
+  }
+
+  const reconstructor = createFileReconstructor();
+  for (const block of blocks) {
+    if (block.type === "tool_use" && typeof block.id === "string") {
+      reconstructor.record(block as ToolUseBlock, results.get(block.id));
+    }
+  }
+
+  return { files: reconstructor.finish(), cwd: collectSessionMetadata(loglines).cwd };
+}
+
+/**
+ * Parse one or more session files and rebuild the files they changed
+ *
+ * Sub-agent files (`agent-*.jsonl`) of the same session are merged in by
+ * time, so their changes are replayed in order with the main session's.
+ */
+export async function reconstructFilesFromFile(
+  input: string | string[],
+  options: Pick<RenderOptions, "leafUuid"> & ParseOptions & SessionSourceOptions = {}
+): Promise<FileReconstruction> {
+  const filePaths = await resolveSessionFiles(Array.isArray(input) ? input : [input], options);
+  const sessions: SessionData[] = [];
+  for (const filePath of filePaths) {
+    sessions.push(await parseSessionFile(filePath, options));
+    sessions.push({ loglines: await loadAgentLoglines(filePath, options) });
+  }
+  return reconstructFiles(mergeSessions(sessions), options);
+}
+
+/**
+ * Write the files whose final content is known to a directory
+ *
+ * Files under the session's working directory keep their path relative to
+ * it; other files are placed by their absolute path inside the directory.
+ *
+ * @returns The paths written, relative to the directory
+ */
+export async function writeReconstructedFiles(
+  reconstruction: FileReconstruction,
+  dir: string
+): Promise<string[]> {
+  const written: string[] = [];
+
+  for (const file of reconstruction.files) {
+    if (file.after === null) continue;
+
+    const fromCwd = reconstruction.cwd ? relative(reconstruction.cwd, file.path) : "";
+    const path = normalize(
+      fromCwd && !fromCwd.startsWith("..") && !isAbsolute(fromCwd)
+        ? fromCwd
+        : file.path.replace(/^([A-Za-z]:)?[\\/]+/, "")
+    );
+    // Never write outside the directory
+    if (!path || path.startsWith("..") || isAbsolute(path)) continue;
+
+    await mkdir(dirname(join(dir, path)), { recursive: true });
+    await writeFile(join(dir, path), file.after, "utf-8");
+    written.push(path);
+  }
+
+  return written;
+}
@@ -0,0 +1,130 @@
+/**
+ * Element ids for messages and content blocks
+ *
+ * Messages are identified by their logline `uuid`, or by their position in
+ * the transcript when they have none. Tool calls and results take the id of
+ * the call, and thinking blocks the id of their message. Ids are unique across
+ * the whole transcript: a repeated id gets a "-2", "-3", ... suffix.
+ */
+
+import type { MessageContentBlock } from "../schemas.js";
+import type { ConversationMessage } from "./pagination.js";
+
+/**
+ * Make a string safe to use in an element id and URL fragment
+ */
+function sanitizeId(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "-");
+}
+
+/**
+ * Generate a message id from its uuid, or its sequence number without one
+ */
+export function makeMsgId(uuid: string | undefined, sequence: number): string {
+  return uuid ? `msg-${sanitizeId(uuid)}` : `msg-${sequence}`;
+}
+
+/**
+ * Generate a message id in the old timestamp-based scheme
+ *
+ * Messages sharing a timestamp got the same id, so these are kept only to
+ * redirect links made before the switch to `makeMsgId`.
+ */
+export function makeLegacyMsgId(timestamp: string): string {
+  return `msg-${timestamp.replace(/:/g, "-").replace(/\./g, "-")}`;
+}
+
+/**
+ * Hands out the ids of one transcript
+ */
+export interface AnchorRegistry {
+  /** Id of a message; the same message always gets the same id */
+  message(message: ConversationMessage): string;
+  /**
+   * Id of a tool call, tool result or thinking block of a message
+   *
+   * @returns undefined for blocks that are not linked to on their own
+   */
+  block(block: MessageContentBlock, messageId: string): string | undefined;
+  /** Id given to a tool call by `block`, if it has been rendered */
+  tool(toolUseId: string): string | undefined;
+  /**
+   * Old timestamp-based ids of the messages given ids since the last call,
+   * paired with the new ids
+   */
+  takeRedirects(): Array<[legacyId: string, id: string]>;
+}
+
+function getBlockAnchorBase(block: MessageContentBlock, messageId: string): string | undefined {
+  switch (block.type) {
+    case "thinking":
+    case "redacted_thinking":
+      return `${messageId}-thinking`;
+    case "tool_use":
+    case "server_tool_use":
+      return typeof block.id === "string" ? `tool-${sanitizeId(block.id)}` : `${messageId}-tool`;
+    case "tool_result":
+    case "web_search_tool_result":
+      return typeof block.tool_use_id === "string"
+        ? `result-${sanitizeId(block.tool_use_id)}`
+        : `${messageId}-result`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Create the id registry for a transcript
+ */
+export function createAnchorRegistry(): AnchorRegistry {
+  const used = new Set<string>();
+  const messageIds = new WeakMap<ConversationMessage, string>();
+  const toolIds = new Map<string, string>();
+  let redirects: Array<[string, string]> = [];
+  let sequence = 0;
+
+  const allocate = (base: string): string => {
+    let id = base;
+    for (let n = 2; used.has(id); n++) {
+      id = `${base}-${n}`;
+    }
+    used.add(id);
+    return id;
+  };
+
+  return {
+    message(message) {
+      let id = messageIds.get(message);
+      if (!id) {
+        id = allocate(makeMsgId(message.uuid, ++sequence));
+        messageIds.set(message, id);
+        if (message.timestamp) {
+          redirects.push([makeLegacyMsgId(message.timestamp), id]);
+        }
+      }
+      return id;
+    },
+
+    block(block, messageId) {
+      const base = getBlockAnchorBase(block, messageId);
+      if (!base) return undefined;
+
+      const id = allocate(base);
+      const isCall = block.type === "tool_use" || block.type === "server_tool_use";
+      if (isCall && typeof block.id === "string" && !toolIds.has(block.id)) {
+        toolIds.set(block.id, id);
+      }
+      return id;
+    },
+
+    tool(toolUseId) {
+      return toolIds.get(toolUseId);
+    },
+
+    takeRedirects() {
+      const taken = redirects;
+      redirects = [];
+      return taken;
+    },
+  };
+}
@@ -6,21 +6,24 @@ import {
   formatJson,
   escapeHtml,
   isJsonLike,
+  isWebUrl,
 } from "./markdown.js";
 import type {
   ContentBlock,
+  MessageContentBlock,
+  Message,
   ThinkingBlock,
   ToolUseBlock,
   ToolResultBlock,
   ImageBlock,
   TextBlock,
+  ServerToolUseBlock,
+  WebSearchToolResultBlock,
+  DocumentBlock,
 } from "../schemas.js";
-import {
-  WriteToolBlock,
-  EditToolBlock,
-  BashToolBlock,
-  TodoWriteBlock,
-} from "./tool-renderers.js";
+import { KNOWN_CONTENT_BLOCK_TYPES } from "../schemas.js";
+import { createToolRendererRegistry, type ToolRendererRegistry } from "./tool-registry.js";
+import type { ToolRenderContext } from "../types.js";
 
 // ============================================
 // Components
@@ -39,6 +42,17 @@ export function ThinkingBlock({ block }: { block: ThinkingBlock }) {
   );
 }
 
+/**
+ * Renders redacted thinking blocks, whose content is encrypted
+ */
+export function RedactedThinkingBlock() {
+  return (
+    <div class="thinking">
+      <div class="thinking-label">Thinking (redacted)</div>
+    </div>
+  );
+}
+
 /**
  * Renders assistant text with markdown
  */
@@ -55,7 +69,7 @@ export function AssistantText({ text }: { text: string }) {
 /**
  * Renders generic tool calls with JSON input
  */
-export function ToolUse({ block }: { block: ToolUseBlock }) {
+export function ToolUse({ block }: { block: ToolUseBlock | ServerToolUseBlock }) {
   const inputJson = JSON.stringify(block.input, null, 2);
   
   // Note: description is not currently in the schema, but included in requirements
@@ -195,12 +209,96 @@ export function ToolResult({
   );
 }
 
+/**
+ * Renders server-side web search results as a list of links
+ */
+export function WebSearchToolResult({ block }: { block: WebSearchToolResultBlock }) {
+  const content = block.content;
+
+  if (!Array.isArray(content)) {
+    return (
+      <div class="tool-result tool-error">
+        Web search failed: {content.error_code}
+      </div>
+    );
+  }
+
+  return (
+    <div class="tool-result">
+      <Truncatable>
+        <ul>
+          {content.map((result) => (
+            <li>
+              {isWebUrl(result.url) ? (
+                <a href={result.url}>{result.title || result.url}</a>
+              ) : (
+                <code>{result.url}</code>
+              )}
+            </li>
+          ))}
+        </ul>
+      </Truncatable>
+    </div>
+  );
+}
+
+/**
+ * Renders attached documents
+ */
+export function DocumentBlock({ block }: { block: DocumentBlock }) {
+  const { source } = block;
+  const label = block.title || source.url || source.media_type || "Document";
+
+  return (
+    <div class="tool-result">
+      <div class="tool-header">
+        <span class="tool-icon">📄</span> {label}
+      </div>
+      {source.type === "text" && source.data ? (
+        <Truncatable>
+          <pre>{source.data}</pre>
+        </Truncatable>
+      ) : source.url ? (
+        isWebUrl(source.url) ? (
+          <a href={source.url}>{source.url}</a>
+        ) : (
+          <code>{source.url}</code>
+        )
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Renders content blocks of unknown type as raw JSON
+ */
+export function UnknownBlock({ block }: { block: MessageContentBlock }) {
+  return (
+    <div class="unknown-block">
+      <pre>{JSON.stringify(block, null, 2)}</pre>
+    </div>
+  );
+}
+
+/**
+ * Check if a content block is one of the modelled block types
+ */
+export function isKnownContentBlock(block: MessageContentBlock): block is ContentBlock {
+  return KNOWN_CONTENT_BLOCK_TYPES.has(block.type);
+}
+
 /**
  * Renders user message content
  */
-export function UserContent({ content }: { content: string | ContentBlock[] }) {
+export function UserContent({
+  content,
+  renderBlock = (block) => renderContentBlock(block),
+}: {
+  content: Message["content"];
+  renderBlock?: (block: MessageContentBlock) => string;
+}) {
   if (Array.isArray(content)) {
-    const html = content.map((block) => renderContentBlock(block)).join("");
+    const html = content.map((block) => renderBlock(block)).join("");
     return (
       <div 
         class="user-content"
@@ -231,86 +329,77 @@ export function UserContent({ content }: { content: string | ContentBlock[] }) {
 // Main Render Function
 // ============================================
 
+/**
+ * What a content block may need from the rest of the transcript
+ */
+export interface BlockRenderContext {
+  /** GitHub repository (owner/name) for commit links */
+  githubRepo?: string;
+  /** Tool renderers; defaults to the built-in ones */
+  toolRenderers?: ToolRendererRegistry;
+  /** Find the call a tool result answers */
+  getToolUse?: (toolUseId: string) => ToolUseBlock | undefined;
+  /** Find the result of a tool call */
+  getToolResult?: (toolUseId: string) => ToolResultBlock | undefined;
+  /** What earlier calls showed of the files the session works on */
+  toolContext?: ToolRenderContext;
+}
+
+const builtinToolRenderers = createToolRendererRegistry();
+
 /**
  * Main function to render any content block
  */
 export function renderContentBlock(
-  block: ContentBlock,
-  githubRepo?: string
+  block: MessageContentBlock,
+  context: BlockRenderContext = {}
 ): string {
+  if (!isKnownContentBlock(block)) {
+    // Fallback for unknown block types
+    return renderToHtml(<UnknownBlock block={block} />);
+  }
+
+  const toolRenderers = context.toolRenderers ?? builtinToolRenderers;
+
   switch (block.type) {
     case "thinking":
       return renderToHtml(<ThinkingBlock block={block} />);
+
+    case "redacted_thinking":
+      return renderToHtml(<RedactedThinkingBlock />);
     
     case "text":
       return renderToHtml(<AssistantText text={block.text} />);
     
     case "tool_use": {
-      const toolName = block.name.toLowerCase();
-      const input = block.input as Record<string, unknown>;
-      
-      // Use specialized renderers for known tools
-      if (toolName === "write" || toolName === "mcp_write") {
-        return renderToHtml(
-          <WriteToolBlock
-            filePath={String(input.file_path || input.filePath || "")}
-            content={String(input.content || "")}
-            toolId={block.id}
-          />
-        );
-      }
-      
-      if (toolName === "edit" || toolName === "mcp_edit") {
-        return renderToHtml(
-          <EditToolBlock
-            filePath={String(input.file_path || input.filePath || "")}
-            oldString={String(input.old_string || input.oldString || "")}
-            newString={String(input.new_string || input.newString || "")}
-            replaceAll={Boolean(input.replace_all || input.replaceAll)}
-            toolId={block.id}
-          />
-        );
-      }
-      
-      if (toolName === "bash" || toolName === "mcp_bash") {
-        return renderToHtml(
-          <BashToolBlock
-            command={String(input.command || "")}
-            description={input.description ? String(input.description) : undefined}
-            toolId={block.id}
-          />
-        );
-      }
-      
-      if (toolName === "todowrite" || toolName === "mcp_todowrite") {
-        const todos = Array.isArray(input.todos) ? input.todos.map((t: any) => ({
-          content: String(t.content || ""),
-          status: (t.status as "pending" | "in_progress" | "completed") || "pending",
-        })) : [];
-        return renderToHtml(
-          <TodoWriteBlock
-            todos={todos}
-            toolId={block.id}
-          />
-        );
-      }
-      
+      const html = toolRenderers.renderUse(
+        block,
+        context.getToolResult?.(block.id),
+        context.toolContext
+      );
+
       // Default: generic tool use display
-      return renderToHtml(<ToolUse block={block} />);
+      return html ?? renderToHtml(<ToolUse block={block} />);
     }
     
-    case "tool_result":
-      return renderToHtml(<ToolResult block={block} githubRepo={githubRepo} />);
-    
+    case "tool_result": {
+      const use = block.tool_use_id ? context.getToolUse?.(block.tool_use_id) : undefined;
+      const html = use ? toolRenderers.renderResult(block, use) : null;
+      return html ?? renderToHtml(<ToolResult block={block} githubRepo={context.githubRepo} />);
+    }
+    case "server_tool_use":
+      return renderToHtml(<ToolUse block={block} />);
+
+    case "web_search_tool_result":
+      return renderToHtml(<WebSearchToolResult block={block} />);
+
+    case "document":
+      return renderToHtml(<DocumentBlock block={block} />);
+
     case "image":
       return renderToHtml(<ImageBlock block={block} />);
       
     default:
-      // Fallback for unknown block types
-      return renderToHtml(
-        <div class="unknown-block">
-          <pre>{JSON.stringify(block, null, 2)}</pre>
-        </div>
-      );
+      return renderToHtml(<UnknownBlock block={block} />);
   }
 }
@@ -0,0 +1,258 @@
+/**
+ * Group loglines into conversations
+ *
+ * A conversation starts with a user prompt (a user message that is not a
+ * tool result) and holds every message up to the next prompt.
+ */
+
+import type { Logline, Message } from "../schemas.js";
+import { isToolResultMessage } from "./message.js";
+import type { Conversation, ConversationMessage } from "./pagination.js";
+import { isSubagentToolUse, type SubagentCollector } from "../subagents.js";
+
+function getUserTextPreview(message: Message): string {
+  const content = message.content;
+  let preview = "";
+
+  if (typeof content === "string") {
+    preview = content;
+  } else if (Array.isArray(content)) {
+    for (const block of content) {
+      if (
+        block &&
+        typeof block === "object" &&
+        "type" in block &&
+        block.type === "text" &&
+        "text" in block &&
+        typeof block.text === "string"
+      ) {
+        preview = block.text;
+        break;
+      }
+    }
+
+    if (!preview && content.length > 0) {
+      const firstBlock = content[0] as { type?: string } | undefined;
+      if (firstBlock?.type) {
+        preview = `[${firstBlock.type}]`;
+      }
+    }
+  }
+
+  const normalized = preview.replace(/\s+/g, " ").trim();
+  if (normalized.length > 100) {
+    return normalized.slice(0, 100) + "...";
+  }
+  return normalized;
+}
+
+export function getMessageFromLogline(logline: Logline): Message | null {
+  if (logline.message) {
+    return logline.message;
+  }
+  if (logline.content !== undefined) {
+    return { content: logline.content };
+  }
+  return null;
+}
+
+export function toConversationMessage(logline: Logline): ConversationMessage | null {
+  if (logline.type !== "user" && logline.type !== "assistant") {
+    return null;
+  }
+
+  const message = getMessageFromLogline(logline);
+  if (!message) {
+    return null;
+  }
+
+  return {
+    type: logline.type,
+    messageJson: JSON.stringify(message),
+    timestamp: logline.timestamp ?? "",
+    uuid: logline.uuid,
+  };
+}
+
+/**
+ * Options for grouping loglines into conversations
+ */
+export interface GroupingOptions {
+  /** Abandoned branches keyed by the uuid of the message they fork from */
+  alternates?: Map<string, Logline[][]>;
+  /** Collector that takes sidechain loglines and nests them under Task calls */
+  subagents?: SubagentCollector;
+}
+
+/**
+ * Add a logline to the conversation in progress
+ *
+ * A non-tool-result user message starts a new conversation; every other
+ * message is appended to `current`. Abandoned branches forking from the
+ * logline are attached to its message, and a change of session id since
+ * `previousSessionId` is marked as a resumed session.
+ *
+ * @returns The new conversation if the logline starts one, otherwise null
+ */
+function addLoglineToConversation(
+  current: Conversation | null,
+  logline: Logline,
+  alternates?: Map<string, Logline[][]>,
+  previousSessionId?: string
+): Conversation | null {
+  const conversationMessage = toConversationMessage(logline);
+  if (!conversationMessage) {
+    return null;
+  }
+
+  if (previousSessionId && logline.sessionId && logline.sessionId !== previousSessionId) {
+    conversationMessage.resumed = { sessionId: logline.sessionId, cwd: logline.cwd };
+  }
+
+  const branches = logline.uuid ? alternates?.get(logline.uuid) : undefined;
+  if (branches) {
+    conversationMessage.alternates = branches
+      .map(toConversationMessages)
+      .filter((branch) => branch.length > 0);
+  }
+
+  const message = getMessageFromLogline(logline)!;
+  if (logline.type === "user" && !isToolResultMessage(message)) {
+    return {
+      userText: getUserTextPreview(message),
+      timestamp: conversationMessage.timestamp,
+      messages: [conversationMessage],
+      isContinuation: Boolean(logline.isCompactSummary),
+    };
+  }
+
+  current?.messages.push(conversationMessage);
+  return null;
+}
+
+function toConversationMessages(loglines: Logline[]): ConversationMessage[] {
+  return loglines
+    .map(toConversationMessage)
+    .filter((m): m is ConversationMessage => m !== null);
+}
+
+/**
+ * Nest sub-agent runs under the Task calls that started them
+ */
+function attachSubagents(messages: ConversationMessage[], collector: SubagentCollector): void {
+  for (const message of messages) {
+    if (message.type !== "assistant") continue;
+
+    const content = (JSON.parse(message.messageJson) as Message).content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (!isSubagentToolUse(block)) continue;
+
+      const run = collector.take(block);
+      if (!run) continue;
+
+      const runMessages = toConversationMessages(run);
+      attachSubagents(runMessages, collector);
+      message.subagents = { ...message.subagents, [block.id]: runMessages };
+    }
+  }
+}
+
+/**
+ * Incremental conversation grouping
+ */
+export interface ConversationGrouper {
+  /**
+   * Add the next logline
+   *
+   * @returns The previous conversation once the logline starts a new one
+   */
+  add(logline: Logline): Conversation | null;
+
+  /**
+   * Finish grouping
+   *
+   * @returns The conversation in progress, if any
+   */
+  flush(): Conversation | null;
+}
+
+/**
+ * Create a grouper that builds conversations one logline at a time
+ *
+ * Conversations are only handed out once complete, by which point the
+ * sub-agent runs of their Task calls have been seen and can be attached.
+ */
+export function createConversationGrouper(options: GroupingOptions = {}): ConversationGrouper {
+  let current: Conversation | null = null;
+  let sessionId: string | undefined;
+
+  const complete = (conversation: Conversation): Conversation => {
+    if (options.subagents) {
+      attachSubagents(conversation.messages, options.subagents);
+    }
+    return conversation;
+  };
+
+  return {
+    add(logline) {
+      if (options.subagents?.add(logline)) {
+        return null;
+      }
+
+      const started = addLoglineToConversation(current, logline, options.alternates, sessionId);
+      if (logline.type === "user" || logline.type === "assistant") {
+        sessionId = logline.sessionId ?? sessionId;
+      }
+      if (!started) {
+        return null;
+      }
+
+      const finished = current;
+      current = started;
+      return finished ? complete(finished) : null;
+    },
+
+    flush() {
+      const finished = current;
+      current = null;
+      return finished ? complete(finished) : null;
+    },
+  };
+}
+
+/**
+ * Group a complete list of loglines into conversations
+ */
+export function groupLoglinesToConversations(
+  loglines: Logline[],
+  options: GroupingOptions = {}
+): Conversation[] {
+  // Sidechain loglines may come after the Task call's conversation (e.g.
+  // when agent files are appended), so hand them to the collector first
+  if (options.subagents) {
+    for (const logline of loglines) {
+      if (logline.isSidechain) {
+        options.subagents.add(logline);
+      }
+    }
+  }
+
+  const grouper = createConversationGrouper(options);
+  const conversations: Conversation[] = [];
+
+  for (const logline of loglines) {
+    const finished = grouper.add(logline);
+    if (finished) {
+      conversations.push(finished);
+    }
+  }
+
+  const last = grouper.flush();
+  if (last) {
+    conversations.push(last);
+  }
+
+  return conversations;
+}
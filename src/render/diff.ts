@@ -0,0 +1,285 @@
+/**
+ * Line and word diffs for Edit blocks
+ *
+ * Diffs are computed at render time from the old and new strings of an edit:
+ * a longest common subsequence over lines, then over words within each pair
+ * of changed lines.
+ */
+
+type DiffOp = "equal" | "delete" | "insert";
+
+/**
+ * Past this many table cells the texts are treated as replaced wholesale
+ * rather than building the LCS table
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Edit script turning `a` into `b`
+ */
+function diffSequences(a: string[], b: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const ops: DiffOp[] = new Array(prefix).fill("equal");
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    for (let i = 0; i < n; i++) ops.push("delete");
+    for (let j = 0; j < m; j++) ops.push("insert");
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of a[prefix + i..] and b[prefix + j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] =
+          a[prefix + i] === b[prefix + j]
+            ? lengths[(i + 1) * width + j + 1]! + 1
+            : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (a[prefix + i] === b[prefix + j]) {
+        ops.push("equal");
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+        ops.push("delete");
+        i++;
+      } else {
+        ops.push("insert");
+        j++;
+      }
+    }
+    for (; i < n; i++) ops.push("delete");
+    for (; j < m; j++) ops.push("insert");
+  }
+
+  for (let k = 0; k < suffix; k++) ops.push("equal");
+  return ops;
+}
+
+/**
+ * Part of a changed line, marked if it differs from the paired line
+ */
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+/**
+ * One line of a diff
+ */
+export interface DiffLine {
+  type: "context" | "removed" | "added";
+  text: string;
+  /** Line number in the old text; absent for added lines */
+  oldNumber?: number;
+  /** Line number in the new text; absent for removed lines */
+  newNumber?: number;
+  /** Word-level changes against the line it replaces or is replaced by */
+  segments?: DiffSegment[];
+}
+
+function splitWords(line: string): string[] {
+  return line.match(/\s+|\w+|[^\w\s]/g) ?? [];
+}
+
+/**
+ * Split two versions of a line into unchanged and changed segments
+ */
+export function diffWords(
+  oldLine: string,
+  newLine: string
+): { old: DiffSegment[]; new: DiffSegment[] } {
+  const oldWords = splitWords(oldLine);
+  const newWords = splitWords(newLine);
+  const result = { old: [] as DiffSegment[], new: [] as DiffSegment[] };
+
+  const push = (segments: DiffSegment[], text: string, changed: boolean) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === changed) {
+      last.text += text;
+    } else {
+      segments.push({ text, changed });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  for (const op of diffSequences(oldWords, newWords)) {
+    if (op === "equal") {
+      push(result.old, oldWords[i++]!, false);
+      push(result.new, newWords[j++]!, false);
+    } else if (op === "delete") {
+      push(result.old, oldWords[i++]!, true);
+    } else {
+      push(result.new, newWords[j++]!, true);
+    }
+  }
+  return result;
+}
+
+/**
+ * Pair the removed and added lines of each change and mark the words that
+ * differ. Lines with nothing in common are left unmarked.
+ */
+function addWordSegments(lines: DiffLine[]): void {
+  let start = 0;
+  while (start < lines.length) {
+    if (lines[start]!.type === "context") {
+      start++;
+      continue;
+    }
+
+    let end = start;
+    while (end < lines.length && lines[end]!.type !== "context") end++;
+    const removed = lines.slice(start, end).filter((line) => line.type === "removed");
+    const added = lines.slice(start, end).filter((line) => line.type === "added");
+
+    for (let k = 0; k < Math.min(removed.length, added.length); k++) {
+      const words = diffWords(removed[k]!.text, added[k]!.text);
+      if (words.old.some((segment) => !segment.changed && segment.text.trim())) {
+        removed[k]!.segments = words.old;
+        added[k]!.segments = words.new;
+      }
+    }
+    start = end;
+  }
+}
+
+/**
+ * Diff two texts line by line
+ *
+ * @param startLine - Number of the first line of both texts in the file
+ */
+export function diffLines(oldText: string, newText: string, startLine = 1): DiffLine[] {
+  const oldLines = oldText.split("\n");
+  const newLines = newText.split("\n");
+  const lines: DiffLine[] = [];
+
+  let i = 0;
+  let j = 0;
+  for (const op of diffSequences(oldLines, newLines)) {
+    if (op === "equal") {
+      lines.push({
+        type: "context",
+        text: oldLines[i]!,
+        oldNumber: startLine + i++,
+        newNumber: startLine + j++,
+      });
+    } else if (op === "delete") {
+      lines.push({ type: "removed", text: oldLines[i]!, oldNumber: startLine + i++ });
+    } else {
+      lines.push({ type: "added", text: newLines[j]!, newNumber: startLine + j++ });
+    }
+  }
+
+  addWordSegments(lines);
+  return lines;
+}
+
+/**
+ * A run of changed lines with the unchanged lines around them
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Group diff lines into hunks, dropping unchanged lines further than
+ * `context` lines from any change
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === "context") return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] | null = null;
+  lines.forEach((line, index) => {
+    if (!keep[index]) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = [];
+      hunks.push({ oldStart: 0, oldCount: 0, newStart: 0, newCount: 0, lines: current });
+    }
+    current.push(line);
+  });
+
+  for (const hunk of hunks) {
+    const oldNumbers = hunk.lines.flatMap((line) => line.oldNumber ?? []);
+    const newNumbers = hunk.lines.flatMap((line) => line.newNumber ?? []);
+    hunk.oldCount = oldNumbers.length;
+    hunk.newCount = newNumbers.length;
+    // An empty side starts after the line preceding the hunk, as in `diff -u`
+    hunk.oldStart = oldNumbers[0] ?? (hunk.lines[0]!.newNumber ?? 1) - 1;
+    hunk.newStart = newNumbers[0] ?? (hunk.lines[0]!.oldNumber ?? 1) - 1;
+  }
+  return hunks;
+}
+
+/**
+ * A row of a side-by-side diff
+ */
+export interface SplitRow {
+  /** Context or removed line; absent when only a line was added */
+  left?: DiffLine;
+  /** Context or added line; absent when only a line was removed */
+  right?: DiffLine;
+}
+
+/**
+ * Line up removed lines with the added lines that replace them
+ */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === "removed") {
+      removed.push(line);
+    } else if (line.type === "added") {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+}
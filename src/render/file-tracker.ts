@@ -0,0 +1,217 @@
+/**
+ * Follow what the session shows of each file
+ *
+ * Read results reveal numbered lines of a file, and later Write and Edit
+ * calls change them. Following both lets an edit be shown at its real line
+ * numbers instead of relative to the edited snippet.
+ */
+
+import type { ToolResultBlock, ToolUseBlock } from "../schemas.js";
+import type { FileEdit, ToolRenderContext } from "../types.js";
+import { getResultText } from "./tool-pairs.js";
+import { parseNumberedLines } from "./tool-renderers.js";
+
+/** Known lines of a file, keyed by line number */
+type KnownLines = Map<number, string>;
+
+/**
+ * Tracks known file contents while a transcript is rendered in order
+ */
+export interface FileTracker extends ToolRenderContext {
+  /** Follow a tool call once it has been rendered */
+  record(use: ToolUseBlock, result: ToolResultBlock | undefined): void;
+}
+
+/**
+ * Get the path a file or notebook tool call works on
+ */
+export function getFilePath(use: ToolUseBlock): string {
+  const { input } = use;
+  return String(input.file_path || input.filePath || input.notebook_path || input.notebookPath || "");
+}
+
+/**
+ * Get a file tool's name in lower case, with the `mcp_` prefix of its MCP
+ * twin removed, e.g. "edit" for both "Edit" and "mcp_edit"
+ */
+export function getFileToolName(use: ToolUseBlock): string {
+  return use.name.toLowerCase().replace(/^mcp_/, "");
+}
+
+function toFileEdit(input: unknown): FileEdit {
+  const edit = typeof input === "object" && input !== null ? (input as Record<string, unknown>) : {};
+  return {
+    oldString: String(edit.old_string || edit.oldString || ""),
+    newString: String(edit.new_string || edit.newString || ""),
+    replaceAll: Boolean(edit.replace_all || edit.replaceAll),
+  };
+}
+
+/**
+ * Get the replacements made by an Edit or MultiEdit call
+ */
+export function getFileEdits(use: ToolUseBlock): FileEdit[] {
+  if (Array.isArray(use.input.edits)) {
+    return use.input.edits.map(toFileEdit);
+  }
+  return [toFileEdit(use.input)];
+}
+
+function matchesAt(lines: KnownLines, lineNumber: number, textLines: string[]): boolean {
+  if (textLines.length === 1) {
+    return lines.get(lineNumber)!.includes(textLines[0]!);
+  }
+
+  // The text may start and end part way through a line
+  const last = textLines.length - 1;
+  return textLines.every((text, i) => {
+    const line = lines.get(lineNumber + i);
+    if (line === undefined) return false;
+    if (i === 0) return line.endsWith(text);
+    if (i === last) return line.startsWith(text);
+    return line === text;
+  });
+}
+
+/**
+ * Find the line a text starts on
+ *
+ * @returns undefined if the text is not among the known lines, or is found
+ *   more than once and the edit does not replace every occurrence
+ */
+function findText(lines: KnownLines, edit: FileEdit): number | undefined {
+  if (!edit.oldString) return undefined;
+
+  const textLines = edit.oldString.split("\n");
+  const matches: number[] = [];
+  for (const lineNumber of lines.keys()) {
+    if (matchesAt(lines, lineNumber, textLines)) {
+      matches.push(lineNumber);
+    }
+  }
+  matches.sort((a, b) => a - b);
+  return matches.length === 1 || (edit.replaceAll && matches.length > 0) ? matches[0] : undefined;
+}
+
+/**
+ * Apply an edit to the known lines of a file
+ *
+ * @returns The start line of the edit and the updated lines, or null lines
+ *   when the edit changes the file in a way the known lines cannot follow
+ */
+function applyEdit(
+  lines: KnownLines,
+  edit: FileEdit
+): { startLine: number | undefined; lines: KnownLines | null } {
+  const oldCount = edit.oldString.split("\n").length;
+  const newCount = edit.newString.split("\n").length;
+  const startLine = findText(lines, edit);
+
+  if (edit.replaceAll && oldCount === 1 && newCount === 1) {
+    const updated: KnownLines = new Map();
+    for (const [lineNumber, line] of lines) {
+      updated.set(lineNumber, line.split(edit.oldString).join(edit.newString));
+    }
+    return { startLine, lines: updated };
+  }
+
+  if (edit.replaceAll) {
+    return { startLine, lines: null };
+  }
+  if (startLine === undefined) {
+    return { startLine, lines: oldCount === newCount ? lines : null };
+  }
+
+  const block = Array.from({ length: oldCount }, (_, i) => lines.get(startLine + i)!).join("\n");
+  const index = block.indexOf(edit.oldString);
+  const replaced = (
+    block.slice(0, index) +
+    edit.newString +
+    block.slice(index + edit.oldString.length)
+  ).split("\n");
+
+  const shift = replaced.length - oldCount;
+  const updated: KnownLines = new Map();
+  for (const [lineNumber, line] of lines) {
+    if (lineNumber < startLine) {
+      updated.set(lineNumber, line);
+    } else if (lineNumber >= startLine + oldCount) {
+      updated.set(lineNumber + shift, line);
+    }
+  }
+  replaced.forEach((line, i) => updated.set(startLine + i, line));
+  return { startLine, lines: updated };
+}
+
+/**
+ * Apply a sequence of edits in turn
+ */
+function applyEdits(
+  lines: KnownLines | undefined,
+  edits: FileEdit[]
+): { startLines: Array<number | undefined>; lines: KnownLines | null } {
+  const startLines: Array<number | undefined> = [];
+  let current: KnownLines | null = lines ?? null;
+  for (const edit of edits) {
+    if (!current) {
+      startLines.push(undefined);
+      continue;
+    }
+    const applied = applyEdit(current, edit);
+    startLines.push(applied.startLine);
+    current = applied.lines;
+  }
+  return { startLines, lines: current };
+}
+
+/**
+ * Create a tracker with no files known
+ */
+export function createFileTracker(): FileTracker {
+  const files = new Map<string, KnownLines>();
+
+  return {
+    locateEdits(filePath, edits) {
+      return applyEdits(files.get(filePath), edits).startLines;
+    },
+
+    record(use, result) {
+      if (!result || result.is_error) return;
+
+      const filePath = getFilePath(use);
+      switch (getFileToolName(use)) {
+        case "read": {
+          const output = getResultText(result);
+          if (output === null) return;
+          const lines = files.get(filePath) ?? new Map();
+          for (const line of parseNumberedLines(output)) {
+            if (line.number !== null) {
+              lines.set(Number(line.number), line.text);
+            }
+          }
+          if (lines.size > 0) {
+            files.set(filePath, lines);
+          }
+          return;
+        }
+
+        case "write": {
+          const content = String(use.input.content ?? "").split("\n");
+          files.set(filePath, new Map(content.map((line, i) => [i + 1, line])));
+          return;
+        }
+
+        case "edit":
+        case "multiedit": {
+          const { lines } = applyEdits(files.get(filePath), getFileEdits(use));
+          if (lines) {
+            files.set(filePath, lines);
+          } else {
+            files.delete(filePath);
+          }
+          return;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,450 @@
+/**
+ * "Files touched" report page
+ *
+ * Aggregates the Read, Write, Edit, MultiEdit and NotebookEdit calls of a
+ * session, including those made by sub-agents, by the file they work on.
+ * Files are shown as a directory tree relative to the session's working
+ * directory, each with its operation counts and a list of its edits linking
+ * back to the calls. Changed files can also show a diff of their contents
+ * before and after the session, from the replayed calls.
+ */
+
+import type { VNode } from "preact";
+import type { Message, ToolUseBlock } from "../schemas.js";
+import type { ReconstructedFile } from "../types.js";
+import { createFileReconstructor } from "../reconstruct.js";
+import type { AnchorRegistry } from "./anchors.js";
+import { diffLines } from "./diff.js";
+import { getFileEdits, getFilePath, getFileToolName } from "./file-tracker.js";
+import { ReportPagination, type Conversation, type ConversationMessage, type PageLink } from "./pagination.js";
+import { pairToolResults } from "./tool-pairs.js";
+import { renderDocument } from "./jsx.js";
+import { DiffView } from "./tool-renderers.js";
+import { languageFromPath } from "./highlight.js";
+
+/** Filename of the files report page */
+export const FILES_FILENAME = "files.html";
+
+/**
+ * Tools the report follows, keyed by `getFileToolName`: the name counts are
+ * shown under, and whether the tool changes the file
+ */
+const FILE_TOOLS: Record<string, { name: string; kind: "read" | "change" }> = {
+  read: { name: "Read", kind: "read" },
+  write: { name: "Write", kind: "change" },
+  edit: { name: "Edit", kind: "change" },
+  multiedit: { name: "MultiEdit", kind: "change" },
+  notebookedit: { name: "NotebookEdit", kind: "change" },
+};
+
+/**
+ * One call that read or changed a file
+ */
+export interface FileOperation {
+  tool: string;
+  toolUseId: string;
+  /** ISO timestamp of the call */
+  timestamp: string;
+  /** Link to the call, e.g. "page-001.html#tool-toolu_01" */
+  href: string;
+  /** Short description, e.g. "−2 +3 lines" */
+  summary: string;
+  isError: boolean;
+}
+
+/**
+ * Everything the session did to one file
+ */
+export interface FileActivity {
+  path: string;
+  /** Number of calls by tool name */
+  counts: Record<string, number>;
+  firstTouched?: string;
+  lastTouched?: string;
+  /** Calls that change the file, in order */
+  edits: FileOperation[];
+  /** Set if any change succeeded */
+  changed: boolean;
+  /** Contents before and after the session, for changed files */
+  reconstruction?: ReconstructedFile;
+}
+
+/**
+ * Collects file activity as conversations are rendered
+ */
+export interface FilesCollector {
+  /** Add a conversation after rendering it, so its anchors are known */
+  add(conversation: Conversation, pageFile: string, anchors: AnchorRegistry): void;
+  /** Files in order of path */
+  finish(): FileActivity[];
+}
+
+function countChangedLines(oldText: string, newText: string): { removed: number; added: number } {
+  const lines = diffLines(oldText, newText);
+  return {
+    removed: lines.filter((line) => line.type === "removed").length,
+    added: lines.filter((line) => line.type === "added").length,
+  };
+}
+
+function summarizeOperation(use: ToolUseBlock): string {
+  switch (getFileToolName(use)) {
+    case "write": {
+      const lines = String(use.input.content ?? "").split("\n").length;
+      return `${lines} line${lines !== 1 ? "s" : ""} written`;
+    }
+    case "edit":
+    case "multiedit": {
+      const edits = getFileEdits(use);
+      let removed = 0;
+      let added = 0;
+      for (const edit of edits) {
+        const counts = countChangedLines(edit.oldString, edit.newString);
+        removed += counts.removed;
+        added += counts.added;
+      }
+      const lines = `−${removed} +${added} lines`;
+      return edits.length > 1 ? `${edits.length} edits, ${lines}` : lines;
+    }
+    case "notebookedit": {
+      const mode = String(use.input.edit_mode || "replace");
+      return use.input.cell_id ? `${mode} cell ${use.input.cell_id}` : `${mode} cell`;
+    }
+    default:
+      return "";
+  }
+}
+
+/**
+ * Create a collector for the files report
+ */
+export function createFilesCollector(): FilesCollector {
+  const files = new Map<string, FileActivity>();
+  const reconstructor = createFileReconstructor();
+
+  const addMessages = (messages: ConversationMessage[], pageFile: string, anchors: AnchorRegistry) => {
+    const pairing = pairToolResults(messages);
+
+    for (const message of messages) {
+      if (message.type === "assistant") {
+        const content = (JSON.parse(message.messageJson) as Message).content;
+        for (const block of Array.isArray(content) ? content : []) {
+          if (block.type !== "tool_use") continue;
+          const use = block as ToolUseBlock;
+          const path = getFilePath(use);
+          const tool = FILE_TOOLS[getFileToolName(use)];
+          if (!tool || !path) continue;
+
+          let file = files.get(path);
+          if (!file) {
+            file = { path, counts: {}, edits: [], changed: false };
+            files.set(path, file);
+          }
+          file.counts[tool.name] = (file.counts[tool.name] ?? 0) + 1;
+          if (message.timestamp) {
+            file.firstTouched ??= message.timestamp;
+            file.lastTouched = message.timestamp;
+          }
+
+          const result = pairing.results.get(use.id)?.block;
+          reconstructor.record(use, result);
+          if (tool.kind === "change") {
+            const isError = Boolean(result?.is_error);
+            file.changed ||= !isError;
+            file.edits.push({
+              tool: use.name,
+              toolUseId: use.id,
+              timestamp: message.timestamp,
+              href: `${pageFile}#${anchors.tool(use.id) ?? anchors.message(message)}`,
+              summary: summarizeOperation(use),
+              isError,
+            });
+          }
+        }
+      }
+
+      // Sub-agent runs start after the Task call that started them
+      for (const run of Object.values(message.subagents ?? {})) {
+        addMessages(run, pageFile, anchors);
+      }
+    }
+  };
+
+  return {
+    add(conversation, pageFile, anchors) {
+      addMessages(conversation.messages, pageFile, anchors);
+    },
+
+    finish() {
+      for (const reconstruction of reconstructor.finish()) {
+        const file = files.get(reconstruction.path);
+        if (file) {
+          file.reconstruction = reconstruction;
+        }
+      }
+      return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+    },
+  };
+}
+
+/**
+ * Count the files with at least one successful change
+ */
+export function countChangedFiles(files: FileActivity[]): number {
+  return files.filter((file) => file.changed).length;
+}
+
+// ============================================
+// Directory tree
+// ============================================
+
+/**
+ * A directory of the files tree; single-child directories are merged, so a
+ * name may span several path segments, e.g. "src/render"
+ */
+export interface FilesReportDirectory {
+  name: string;
+  directories: FilesReportDirectory[];
+  files: Array<{ name: string; activity: FileActivity }>;
+}
+
+/**
+ * Arrange files as a directory tree
+ *
+ * @param cwd - Working directory; files under it are shown relative to it
+ * @returns The root directory, with an empty name
+ */
+export function buildFilesReportTree(files: FileActivity[], cwd?: string): FilesReportDirectory {
+  const root: FilesReportDirectory = { name: "", directories: [], files: [] };
+  const prefix = cwd ? cwd.replace(/\/+$/, "") + "/" : undefined;
+
+  for (const activity of files) {
+    const relative = prefix && activity.path.startsWith(prefix);
+    const path = relative ? activity.path.slice(prefix.length) : activity.path;
+    const segments = path.split("/").filter(Boolean);
+    // Paths outside the working directory stay absolute
+    if (path.startsWith("/") && segments.length > 0) {
+      segments[0] = `/${segments[0]}`;
+    }
+    const name = segments.pop();
+    if (!name) continue;
+
+    let directory = root;
+    for (const segment of segments) {
+      let child = directory.directories.find((entry) => entry.name === segment);
+      if (!child) {
+        child = { name: segment, directories: [], files: [] };
+        directory.directories.push(child);
+      }
+      directory = child;
+    }
+    directory.files.push({ name, activity });
+  }
+
+  const compact = (directory: FilesReportDirectory): FilesReportDirectory => {
+    directory.directories = directory.directories
+      .map(compact)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    directory.files.sort((a, b) => a.name.localeCompare(b.name));
+
+    const [only] = directory.directories;
+    if (directory.name && directory.files.length === 0 && directory.directories.length === 1 && only) {
+      return { ...only, name: `${directory.name}/${only.name}` };
+    }
+    return directory;
+  };
+  return compact(root);
+}
+
+// ============================================
+// Components
+// ============================================
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.values(FILE_TOOLS)
+    .map((tool) => tool.name)
+    .filter((tool) => counts[tool])
+    .map((tool) => `${counts[tool]} ${tool}`)
+    .join(" · ");
+}
+
+/**
+ * Diff of a changed file's contents before and after the session, with the
+ * changes that could not be replayed
+ */
+function FileDiff({ activity, file }: { activity: FileActivity; file: ReconstructedFile }): VNode {
+  const hrefs = new Map(activity.edits.map((edit) => [edit.toolUseId, edit.href]));
+
+  return (
+    <div class="file-diff">
+      {file.after !== null ? (
+        <>
+          {file.before === null && (
+            <p class="file-diff-note">Not read in full before its first change; shown as new</p>
+          )}
+          <DiffView
+            oldString={file.before ?? ""}
+            newString={file.after}
+            startLine={1}
+            language={languageFromPath(file.path)}
+          />
+        </>
+      ) : (
+        <p class="file-diff-note">Final content not known</p>
+      )}
+      {file.failures.length > 0 && (
+        <ul class="file-diff-failures">
+          {file.failures.map((failure) => (
+            <li>
+              <a href={hrefs.get(failure.toolUseId)}>{failure.tool}</a> could not be replayed:{" "}
+              {failure.reason}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One file of the tree, with its edit history
+ */
+function FileEntry({
+  name,
+  activity,
+  showDiffs,
+}: {
+  name: string;
+  activity: FileActivity;
+  showDiffs: boolean;
+}): VNode {
+  return (
+    <li class={`file-entry${activity.changed ? " file-changed" : ""}`}>
+      <details>
+        <summary>
+          <span class="file-entry-name" title={activity.path}>
+            {name}
+          </span>
+          <span class="file-entry-counts">{formatCounts(activity.counts)}</span>
+          {activity.firstTouched && (
+            <span class="file-entry-times">
+              <time datetime={activity.firstTouched} data-timestamp={activity.firstTouched}>
+                {activity.firstTouched}
+              </time>
+              {activity.lastTouched !== activity.firstTouched && activity.lastTouched && (
+                <>
+                  {" – "}
+                  <time datetime={activity.lastTouched} data-timestamp={activity.lastTouched}>
+                    {activity.lastTouched}
+                  </time>
+                </>
+              )}
+            </span>
+          )}
+        </summary>
+        {activity.edits.length > 0 ? (
+          <ol class="file-edits">
+            {activity.edits.map((edit) => (
+              <li class={edit.isError ? "file-edit-error" : undefined}>
+                <a href={edit.href}>
+                  <time datetime={edit.timestamp} data-timestamp={edit.timestamp}>
+                    {edit.timestamp}
+                  </time>
+                </a>{" "}
+                <span class="file-edit-tool">{edit.tool}</span> {edit.summary}
+                {edit.isError && <span class="file-edit-failed">failed</span>}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p class="file-edits-none">Read only</p>
+        )}
+        {showDiffs && activity.reconstruction && (
+          <FileDiff activity={activity} file={activity.reconstruction} />
+        )}
+      </details>
+    </li>
+  );
+}
+
+function FilesReportTree({
+  directory,
+  showDiffs,
+}: {
+  directory: FilesReportDirectory;
+  showDiffs: boolean;
+}): VNode {
+  return (
+    <ul class="files-report-tree">
+      {directory.directories.map((child) => (
+        <li class="files-report-dir">
+          <span class="files-report-dir-name">{child.name}/</span>
+          <FilesReportTree directory={child} showDiffs={showDiffs} />
+        </li>
+      ))}
+      {directory.files.map((file) => (
+        <FileEntry name={file.name} activity={file.activity} showDiffs={showDiffs} />
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Files report page body: title, summary line and directory tree
+ */
+export function FilesPage({
+  title,
+  files,
+  cwd,
+  reports,
+  showDiffs = false,
+}: {
+  title: string;
+  files: FileActivity[];
+  cwd?: string;
+  /** Report pages linked from the navigation bar */
+  reports: PageLink[];
+  /** Show each changed file's diff from before to after the session */
+  showDiffs?: boolean;
+}): VNode {
+  const changed = countChangedFiles(files);
+
+  return (
+    <>
+      <h1>{title}</h1>
+      <ReportPagination current={FILES_FILENAME} reports={reports} />
+      <p class="files-summary">
+        {files.length} file{files.length !== 1 ? "s" : ""} touched · {changed} changed
+        {cwd && (
+          <>
+            {" · relative to "}
+            <code>{cwd}</code>
+          </>
+        )}
+      </p>
+      {files.length > 0 ? (
+        <FilesReportTree directory={buildFilesReportTree(files, cwd)} showDiffs={showDiffs} />
+      ) : (
+        <p class="files-summary">No files were read or changed.</p>
+      )}
+    </>
+  );
+}
+
+/**
+ * Render the files report page
+ */
+export function renderFilesPage(
+  files: FileActivity[],
+  title: string,
+  cwd: string | undefined,
+  reports: PageLink[],
+  showDiffs = false
+): string {
+  return renderDocument({
+    title: `${title} - Files`,
+    children: (
+      <FilesPage title={title} files={files} cwd={cwd} reports={reports} showDiffs={showDiffs} />
+    ),
+  });
+}
@@ -0,0 +1,97 @@
+/**
+ * Syntax highlighting with highlight.js
+ *
+ * Code is highlighted at render time into `hljs-*` classed spans, which the
+ * stylesheet colours. Only languages named by a fence info string or implied
+ * by a file extension are highlighted; there is no auto-detection.
+ */
+
+import hljs from "highlight.js/lib/common";
+
+/** Files whose name, not extension, tells their language */
+const FILENAME_LANGUAGES: Record<string, string> = {
+  dockerfile: "dockerfile",
+  makefile: "makefile",
+  gnumakefile: "makefile",
+  ".bashrc": "bash",
+  ".zshrc": "bash",
+  ".profile": "bash",
+};
+
+/** Extensions highlight.js does not know as aliases */
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  mjs: "javascript",
+  cjs: "javascript",
+  mts: "typescript",
+  cts: "typescript",
+  jsonl: "json",
+  yml: "yaml",
+  htm: "xml",
+  svg: "xml",
+  vue: "xml",
+  zsh: "bash",
+  toml: "ini",
+};
+
+/**
+ * Get the highlight.js language for a fence info string or alias
+ *
+ * @returns undefined if highlight.js does not know the language
+ */
+export function getLanguage(name: string | null | undefined): string | undefined {
+  const alias = name?.trim().split(/\s+/)[0]?.toLowerCase();
+  if (!alias) return undefined;
+  const language = EXTENSION_LANGUAGES[alias] ?? alias;
+  return hljs.getLanguage(language) ? language : undefined;
+}
+
+/**
+ * Guess the language of a file from its name
+ */
+export function languageFromPath(filePath: string | null | undefined): string | undefined {
+  const filename = filePath?.split("/").pop()?.toLowerCase();
+  if (!filename) return undefined;
+  if (FILENAME_LANGUAGES[filename]) return FILENAME_LANGUAGES[filename];
+
+  const dot = filename.lastIndexOf(".");
+  return dot > 0 ? getLanguage(filename.slice(dot + 1)) : undefined;
+}
+
+/**
+ * Highlight code as HTML
+ *
+ * @param language - A language known to highlight.js, e.g. from `getLanguage`
+ */
+export function highlightCode(code: string, language: string): string {
+  return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+}
+
+/**
+ * Highlight code and split the HTML into lines
+ *
+ * Spans that run across a line break, such as those of block comments and
+ * multi-line strings, are closed at the end of each line and reopened on the
+ * next, so every line is well-formed HTML on its own.
+ */
+export function highlightLines(code: string, language: string): string[] {
+  const html = highlightCode(code, language);
+  const lines: string[] = [];
+  const open: string[] = [];
+  let line = "";
+
+  for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+    if (part === "\n") {
+      lines.push(line + "</span>".repeat(open.length));
+      line = open.join("");
+    } else {
+      if (part.startsWith("<span")) {
+        open.push(part);
+      } else if (part === "</span>") {
+        open.pop();
+      }
+      line += part;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
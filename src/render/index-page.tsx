@@ -1,6 +1,8 @@
 import { h } from "preact";
 import { escapeHtml } from "./markdown.js";
 import type { Logline, ContentBlock, ToolUseBlock, ToolResultBlock } from "../schemas.js";
+import type { SessionMetadata, TokenUsage } from "../types.js";
+import { getCacheHitRatio, getTotalTokens } from "../usage.js";
 
 // ============================================
 // Components
@@ -8,24 +10,28 @@ import type { Logline, ContentBlock, ToolUseBlock, ToolResultBlock } from "../sc
 
 interface IndexItemProps {
   promptNum: number;
-  pageNum: number;
+  /** Filename of the page the conversation is on */
+  pageFile: string;
+  /** Element id of the conversation's first message */
+  msgId: string;
   timestamp: string;
   contentPreview: string;
   toolStats?: string;
+  /** Tokens and cost, e.g. "12.3k tokens · $0.42" */
+  usageStats?: string;
   assistantPreviewHtml?: string | null;
 }
 
 export function IndexItem({
   promptNum,
-  pageNum,
+  pageFile,
+  msgId,
   timestamp,
   contentPreview,
   toolStats,
+  usageStats,
   assistantPreviewHtml,
 }: IndexItemProps) {
-  const pageFile = `page-${String(pageNum).padStart(3, "0")}.html`;
-  const msgId = `msg-${timestamp.replace(/[:.]/g, "-")}`;
-  
   return (
     <div class="index-item">
       <a href={`${pageFile}#${msgId}`}>
@@ -39,9 +45,10 @@ export function IndexItem({
           <p>{contentPreview}</p>
         </div>
       </a>
-      {(toolStats || assistantPreviewHtml) && (
+      {(toolStats || usageStats || assistantPreviewHtml) && (
         <div class="index-item-stats">
           {toolStats && <span>{toolStats}</span>}
+          {usageStats && <span class="index-item-usage">{usageStats}</span>}
           {assistantPreviewHtml && (
             <IndexItemLongText htmlContent={assistantPreviewHtml} />
           )}
@@ -51,6 +58,167 @@ export function IndexItem({
   );
 }
 
+/**
+ * Format a token count, e.g. "950", "12.3k" or "1.2M"
+ */
+export function formatTokenCount(count: number): string {
+  if (count < 1000) return String(count);
+  if (count < 1_000_000) return `${(count / 1000).toFixed(1).replace(/\.0$/, "")}k`;
+  return `${(count / 1_000_000).toFixed(1).replace(/\.0$/, "")}M`;
+}
+
+/**
+ * Format the cost of a usage in US dollars, e.g. "$0.42"; a cost that leaves
+ * out unpriced models is a lower bound, e.g. "≥ $0.42"
+ */
+export function formatCost(usage: TokenUsage): string {
+  if (usage.unpricedModels.length > 0 && usage.cost === 0) {
+    return "cost unknown";
+  }
+  const amount = usage.cost > 0 && usage.cost < 0.01 ? "<$0.01" : `$${usage.cost.toFixed(2)}`;
+  return usage.unpricedModels.length > 0 ? `≥ ${amount}` : amount;
+}
+
+/**
+ * Format the tokens and cost of a usage, e.g. "12.3k tokens · $0.42"
+ *
+ * @returns undefined if no tokens were used
+ */
+export function formatUsage(usage: TokenUsage): string | undefined {
+  const total = getTotalTokens(usage);
+  return total > 0 ? `${formatTokenCount(total)} tokens · ${formatCost(usage)}` : undefined;
+}
+
+/**
+ * Format a duration as its two largest units, e.g. "2h 5m" or "42s"
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  const parts: [number, string][] = [
+    [days, "d"],
+    [hours, "h"],
+    [minutes, "m"],
+    [seconds, "s"],
+  ];
+  const first = parts.findIndex(([value]) => value > 0);
+  if (first === -1) {
+    return "0s";
+  }
+  return parts
+    .slice(first, first + 2)
+    .filter(([value]) => value > 0)
+    .map(([value, unit]) => `${value}${unit}`)
+    .join(" ");
+}
+
+interface SessionHeaderProps {
+  title: string;
+  metadata: SessionMetadata;
+}
+
+/**
+ * Index page header with the session title and details
+ */
+export function SessionHeader({ title, metadata }: SessionHeaderProps) {
+  const { cwd, gitBranches, versions, models, startTime, endTime } = metadata;
+  const duration =
+    startTime && endTime ? Date.parse(endTime) - Date.parse(startTime) : NaN;
+
+  return (
+    <div class="session-header">
+      <h1>{title}</h1>
+      <dl class="session-meta">
+        {cwd && (
+          <>
+            <dt>Directory</dt>
+            <dd><code>{cwd}</code></dd>
+          </>
+        )}
+        {gitBranches.length > 0 && (
+          <>
+            <dt>{gitBranches.length > 1 ? "Branches" : "Branch"}</dt>
+            <dd>{gitBranches.join(", ")}</dd>
+          </>
+        )}
+        {versions.length > 0 && (
+          <>
+            <dt>Version</dt>
+            <dd>{versions.join(", ")}</dd>
+          </>
+        )}
+        {models.length > 0 && (
+          <>
+            <dt>{models.length > 1 ? "Models" : "Model"}</dt>
+            <dd>{models.join(", ")}</dd>
+          </>
+        )}
+        {startTime && (
+          <>
+            <dt>Started</dt>
+            <dd><time datetime={startTime} data-timestamp={startTime}>{startTime}</time></dd>
+          </>
+        )}
+        {endTime && (
+          <>
+            <dt>Ended</dt>
+            <dd><time datetime={endTime} data-timestamp={endTime}>{endTime}</time></dd>
+          </>
+        )}
+        {!Number.isNaN(duration) && (
+          <>
+            <dt>Duration</dt>
+            <dd>{formatDuration(duration)}</dd>
+          </>
+        )}
+      </dl>
+    </div>
+  );
+}
+
+interface IndexContinuationProps {
+  /** Filename of the page the conversation is on */
+  pageFile: string;
+  /** Element id of the conversation's first message */
+  msgId: string;
+  timestamp: string;
+  toolStats?: string;
+  /** Tokens and cost, e.g. "12.3k tokens · $0.42" */
+  usageStats?: string;
+}
+
+/**
+ * Index marker for a conversation continued after the context was compacted
+ */
+export function IndexContinuation({
+  pageFile,
+  msgId,
+  timestamp,
+  toolStats,
+  usageStats,
+}: IndexContinuationProps) {
+  return (
+    <div class="index-continuation">
+      <a href={`${pageFile}#${msgId}`}>
+        <span class="index-continuation-label">Context compacted</span>
+        <time datetime={timestamp} data-timestamp={timestamp}>
+          {timestamp}
+        </time>
+      </a>
+      {(toolStats || usageStats) && (
+        <div class="index-item-stats">
+          {toolStats && <span>{toolStats}</span>}
+          {usageStats && <span class="index-item-usage">{usageStats}</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
 interface IndexCommitProps {
   hash: string;           // Short commit hash (7 chars)
   message: string;        // Commit message (first line)
@@ -94,26 +262,51 @@ interface IndexSummaryProps {
   messageCount: number;
   toolCallCount: number;
   commitCount: number;
-  pageCount: number;
+  /** Files with at least one successful Write or edit */
+  changedFileCount: number;
+  /** Left out of the summary when undefined */
+  pageCount?: number;
+  /** Tokens used by the session */
+  usage?: TokenUsage;
 }
 
-export function IndexSummary({
+/**
+ * Format the session totals shown on the index, e.g. "3 prompts · 40 messages · ..."
+ */
+export function formatIndexSummary({
   promptCount,
   messageCount,
   toolCallCount,
   commitCount,
+  changedFileCount,
   pageCount,
-}: IndexSummaryProps) {
+  usage,
+}: IndexSummaryProps): string {
   const parts = [
     `${promptCount} prompt${promptCount !== 1 ? 's' : ''}`,
     `${messageCount} message${messageCount !== 1 ? 's' : ''}`,
     `${toolCallCount} tool call${toolCallCount !== 1 ? 's' : ''}`,
     `${commitCount} commit${commitCount !== 1 ? 's' : ''}`,
-    `${pageCount} page${pageCount !== 1 ? 's' : ''}`,
+    `${changedFileCount} file${changedFileCount !== 1 ? 's' : ''} changed`,
   ];
+  if (pageCount !== undefined) {
+    parts.push(`${pageCount} page${pageCount !== 1 ? 's' : ''}`);
+  }
+  const usageText = usage && formatUsage(usage);
+  if (usage && usageText) {
+    parts.push(usageText);
+    const cacheHitRatio = getCacheHitRatio(usage);
+    if (cacheHitRatio !== undefined) {
+      parts.push(`${Math.round(cacheHitRatio * 100)}% cache hits`);
+    }
+  }
+  return parts.join(' · ');
+}
+
+export function IndexSummary(props: IndexSummaryProps) {
   return (
     <p style="color: var(--text-muted); margin-bottom: 24px;">
-      {parts.join(' · ')}
+      {formatIndexSummary(props)}
     </p>
   );
 }
@@ -192,6 +385,8 @@ export function analyzeConversation(loglines: Logline[]): ConversationAnalysis {
           textToCheck = input.content;
         } else if (typeof input.newString === "string") {
           textToCheck = input.newString;
+        } else if (typeof input.new_string === "string") {
+          textToCheck = input.new_string;
         } else if (typeof input.replacement === "string") {
           textToCheck = input.replacement;
         }
@@ -5,7 +5,7 @@
 import { render } from "preact-render-to-string";
 import type { VNode, ComponentChildren } from "preact";
 import { CSS } from "../assets/styles.js";
-import { JS, getSearchJS } from "../assets/scripts.js";
+import { JS, getAnchorJS, getSearchJS, getSingleFileJS } from "../assets/scripts.js";
 
 /**
  * Render a Preact VNode to an HTML string
@@ -22,8 +22,12 @@ interface BaseDocumentProps {
   children: ComponentChildren;
   /** Include search JS (for index page) */
   includeSearchJS?: boolean;
-  /** Total pages (required if includeSearchJS is true) */
-  totalPages?: number;
+  /** Page filenames to search (required if includeSearchJS is true) */
+  pageFiles?: string[];
+  /** Old message ids mapped to their current ids; include anchor JS (for transcript pages) */
+  anchorRedirects?: Record<string, string>;
+  /** Include section switching and in-page search JS (for the single-file transcript) */
+  includeSingleFileJS?: boolean;
 }
 
 /**
@@ -35,9 +39,11 @@ export function BaseDocument({
   title,
   children,
   includeSearchJS = false,
-  totalPages = 0,
+  pageFiles = [],
+  anchorRedirects,
+  includeSingleFileJS = false,
 }: BaseDocumentProps): VNode {
-  const searchJS = includeSearchJS ? getSearchJS(totalPages) : "";
+  const searchJS = includeSearchJS ? getSearchJS(pageFiles) : "";
 
   return (
     <html lang="en">
@@ -53,6 +59,12 @@ export function BaseDocument({
         {includeSearchJS && (
           <script dangerouslySetInnerHTML={{ __html: searchJS }} />
         )}
+        {includeSingleFileJS && (
+          <script dangerouslySetInnerHTML={{ __html: getSingleFileJS() }} />
+        )}
+        {anchorRedirects && (
+          <script dangerouslySetInnerHTML={{ __html: getAnchorJS(anchorRedirects) }} />
+        )}
       </body>
     </html>
   );
@@ -0,0 +1,373 @@
+/**
+ * Markdown export
+ *
+ * Renders conversations as GitHub-flavoured Markdown for pasting into pull
+ * requests, wikis and issue trackers: a heading per prompt, fenced code for
+ * commands and written files, diff fences for edits, and `<details>` for
+ * thinking, sub-agents and long tool output. Tool results follow the call
+ * they answer. Custom tool renderers produce HTML, so they are not used here.
+ */
+
+import type {
+  Message,
+  MessageContentBlock,
+  ToolResultBlock,
+  ToolUseBlock,
+} from "../schemas.js";
+import type { CommitInfo, SessionMetadata } from "../types.js";
+import type { Conversation, ConversationMessage, PageLink } from "./pagination.js";
+import { isSubagentToolUse } from "../subagents.js";
+import { diffLines } from "./diff.js";
+import { getFileEdits, getFilePath } from "./file-tracker.js";
+import { languageFromPath } from "./highlight.js";
+import { escapeHtml } from "./markdown.js";
+import { isToolResultMessage } from "./message.js";
+import { isPairedResult, pairToolResults, type ToolPairing } from "./tool-pairs.js";
+import { formatDuration } from "./index-page.js";
+
+/** Filename of the transcript when it is not split into pages */
+export const MARKDOWN_FILENAME = "transcript.md";
+
+/** Filename of the list of pages when the transcript is split into pages */
+export const MARKDOWN_INDEX_FILENAME = "index.md";
+
+/** Tool output longer than this many lines is collapsed */
+const MAX_OPEN_LINES = 20;
+/** Tool output longer than this many characters is collapsed */
+const MAX_OPEN_CHARS = 2000;
+/** Longest prompt shown in a heading */
+const MAX_HEADING_LENGTH = 80;
+
+/**
+ * Name of the Markdown file for a page, e.g. "page-001.md" for "page-001.html"
+ */
+export function getMarkdownPageFilename(htmlFilename: string): string {
+  return htmlFilename.replace(/\.html$/, ".md");
+}
+
+/**
+ * Wrap text in a code fence longer than any run of backticks in it
+ */
+function fence(text: string, language = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return `${marker}${language}\n${text.replace(/\n$/, "")}\n${marker}`;
+}
+
+/**
+ * Collapsible section; the blank lines let Markdown render inside it
+ */
+function details(summary: string, body: string): string {
+  return `<details>\n<summary>${escapeHtml(summary)}</summary>\n\n${body}\n\n</details>`;
+}
+
+function inlineCode(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const marker = "`".repeat(longest + 1);
+  return longest > 0 ? `${marker} ${text} ${marker}` : `${marker}${text}${marker}`;
+}
+
+function quote(text: string): string {
+  return text
+    .trim()
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function formatTime(timestamp: string): string {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})/.exec(timestamp);
+  return match ? `${match[1]} ${match[2]} UTC` : timestamp;
+}
+
+// First line of a prompt, short enough for a heading
+function headingText(text: string): string {
+  const line = text.trim().split("\n")[0] ?? "";
+  const short = line.length > MAX_HEADING_LENGTH ? `${line.slice(0, MAX_HEADING_LENGTH - 1)}…` : line;
+  return short.replace(/[\\`*_[\]<>#]/g, "\\$&") || "(empty prompt)";
+}
+
+/**
+ * Text of a tool result, with non-text parts named in brackets
+ */
+function getResultMarkdownText(result: ToolResultBlock): string {
+  if (typeof result.content === "string") {
+    return result.content;
+  }
+  return result.content
+    .map((item) => {
+      const part =
+        typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+      return part.type === "text" && typeof part.text === "string"
+        ? part.text
+        : `[${String(part.type ?? "content")}]`;
+    })
+    .join("\n");
+}
+
+/**
+ * Tool output, collapsed when long
+ */
+function renderToolResult(result: ToolResultBlock): string {
+  const text = getResultMarkdownText(result);
+  const label = result.is_error ? "Error" : "Output";
+  if (!text.trim()) {
+    return `*${label}: (empty)*`;
+  }
+
+  const lineCount = text.replace(/\n$/, "").split("\n").length;
+  if (lineCount > MAX_OPEN_LINES || text.length > MAX_OPEN_CHARS) {
+    return details(`${label} (${lineCount} line${lineCount !== 1 ? "s" : ""})`, fence(text));
+  }
+  return `*${label}:*\n\n${fence(text)}`;
+}
+
+/**
+ * Unified diff lines of an edit, without a hunk header
+ */
+function renderEditDiff(oldString: string, newString: string): string {
+  const prefixes = { context: " ", removed: "-", added: "+" };
+  return diffLines(oldString, newString)
+    .map((line) => `${prefixes[line.type]}${line.text}`)
+    .join("\n");
+}
+
+/**
+ * A tool call: what it did, as a command, file or diff where the tool is known
+ */
+function renderToolUse(use: ToolUseBlock): string {
+  const { input } = use;
+  const filePath = getFilePath(use);
+
+  switch (use.name) {
+    case "Bash": {
+      const description = input.description ? ` — ${String(input.description)}` : "";
+      return `**Bash**${description}\n\n${fence(String(input.command ?? ""), "bash")}`;
+    }
+    case "Write":
+      return `**Write** ${inlineCode(filePath)}\n\n${fence(
+        String(input.content ?? ""),
+        languageFromPath(filePath)
+      )}`;
+    case "Edit":
+    case "MultiEdit":
+      return `**${use.name}** ${inlineCode(filePath)}\n\n${fence(
+        getFileEdits(use)
+          .map((edit) => renderEditDiff(edit.oldString, edit.newString))
+          .join("\n@@\n"),
+        "diff"
+      )}`;
+    case "Read": {
+      const from = input.offset ? ` from line ${Number(input.offset)}` : "";
+      return `**Read** ${inlineCode(filePath)}${from}`;
+    }
+    case "TodoWrite": {
+      const todos = Array.isArray(input.todos) ? input.todos : [];
+      const items = todos.map((item: unknown) => {
+        const todo =
+          typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+        return `- [${todo.status === "completed" ? "x" : " "}] ${String(todo.content ?? "")}`;
+      });
+      return ["**TodoWrite**", "", ...items].join("\n");
+    }
+    default:
+      return `**${use.name}**\n\n${fence(JSON.stringify(input, null, 2), "json")}`;
+  }
+}
+
+function renderBlock(
+  block: MessageContentBlock,
+  message: ConversationMessage,
+  pairing: ToolPairing
+): string {
+  switch (block.type) {
+    case "text":
+      return (block as { text: string }).text.trim();
+    case "thinking":
+      return details("Thinking", (block as { thinking: string }).thinking.trim());
+    case "redacted_thinking":
+      return "*[redacted thinking]*";
+    case "image":
+      return "*[image]*";
+    case "document":
+      return "*[document]*";
+    case "tool_use": {
+      const use = block as ToolUseBlock;
+      const parts = [renderToolUse(use)];
+      const run = isSubagentToolUse(block) ? message.subagents?.[use.id] : undefined;
+      if (run) {
+        const description = String(use.input.description || use.input.subagent_type || "Sub-agent");
+        parts.push(
+          details(
+            `Sub-agent: ${description} (${run.length} message${run.length !== 1 ? "s" : ""})`,
+            renderMessagesMarkdown(run)
+          )
+        );
+      }
+      const result = pairing.results.get(use.id);
+      if (result) {
+        parts.push(renderToolResult(result.block));
+      }
+      return parts.join("\n\n");
+    }
+    case "tool_result": {
+      // Results are shown under their call; only orphans are left here
+      const result = block as ToolResultBlock;
+      return isPairedResult(result, pairing) ? "" : renderToolResult(result);
+    }
+    default:
+      return `**${block.type}**\n\n${fence(JSON.stringify(block, null, 2), "json")}`;
+  }
+}
+
+/**
+ * Render messages in order, with tool results under their calls
+ */
+function renderMessagesMarkdown(messages: ConversationMessage[]): string {
+  const pairing = pairToolResults(messages);
+  const parts: string[] = [];
+
+  for (const message of messages) {
+    if (message.resumed) {
+      parts.push(`*Session resumed: ${inlineCode(message.resumed.sessionId)}*`);
+    }
+
+    let parsed: Message | undefined;
+    try {
+      parsed = message.messageJson ? (JSON.parse(message.messageJson) as Message) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+    if (parsed) {
+      const blocks =
+        typeof parsed.content === "string"
+          ? [parsed.content.trim()]
+          : parsed.content.map((block) => renderBlock(block, message, pairing));
+      const body = blocks.filter(Boolean).join("\n\n");
+
+      // Text the user typed is quoted, to tell it apart from the assistant's
+      if (body && message.type === "user" && !isToolResultMessage(parsed)) {
+        parts.push(`**User** · ${formatTime(message.timestamp)}\n\n${quote(body)}`);
+      } else if (body) {
+        parts.push(body);
+      }
+    }
+
+    for (const branch of message.alternates ?? []) {
+      parts.push(
+        details(
+          `Alternate path (${branch.length} message${branch.length !== 1 ? "s" : ""})`,
+          renderMessagesMarkdown(branch)
+        )
+      );
+    }
+  }
+
+  return parts.join("\n\n");
+}
+
+/**
+ * Render one conversation as a Markdown section
+ *
+ * @param promptNum - Number of the prompt the conversation starts; unused
+ *   for a continuation after a compaction, whose summary is collapsed
+ */
+export function renderConversationMarkdown(conversation: Conversation, promptNum: number): string {
+  if (conversation.isContinuation) {
+    return [
+      `### Context compacted · ${formatTime(conversation.timestamp)}`,
+      details("Summary", conversation.userText.trim()),
+      renderMessagesMarkdown(conversation.messages.slice(1)),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  return [
+    `## ${promptNum}. ${headingText(conversation.userText)}`,
+    renderMessagesMarkdown(conversation.messages),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Render the commits made in the session as a list, linked to GitHub when
+ * the repository is known
+ */
+export function renderCommitsMarkdown(commits: CommitInfo[], githubRepo?: string): string {
+  if (commits.length === 0) {
+    return "";
+  }
+  const items = commits.map((commit) => {
+    const hash = inlineCode(commit.hash.slice(0, 7));
+    const link = githubRepo ? `[${hash}](https://github.com/${githubRepo}/commit/${commit.hash})` : hash;
+    return `- ${link} ${commit.message} · ${formatTime(commit.timestamp)}`;
+  });
+  return ["## Commits", "", ...items].join("\n");
+}
+
+/**
+ * Render the title, session details and summary line of a transcript
+ */
+export function renderMarkdownHeader(
+  title: string,
+  metadata: SessionMetadata,
+  summary: string
+): string {
+  const { cwd, gitBranches, versions, models, startTime, endTime } = metadata;
+  const duration = startTime && endTime ? Date.parse(endTime) - Date.parse(startTime) : NaN;
+  const fields: Array<[string, string]> = [];
+  if (cwd) fields.push(["Directory", inlineCode(cwd)]);
+  if (gitBranches.length > 0) {
+    fields.push([gitBranches.length > 1 ? "Branches" : "Branch", gitBranches.join(", ")]);
+  }
+  if (versions.length > 0) fields.push(["Version", versions.join(", ")]);
+  if (models.length > 0) fields.push([models.length > 1 ? "Models" : "Model", models.join(", ")]);
+  if (startTime) fields.push(["Started", formatTime(startTime)]);
+  if (!Number.isNaN(duration)) fields.push(["Duration", formatDuration(duration)]);
+
+  return [
+    `# ${title}`,
+    fields.map(([label, value]) => `- **${label}:** ${value}`).join("\n"),
+    `*${summary}*`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Render the list of prompts of a transcript split into pages, each linked
+ * to the page it is on
+ */
+export function renderPromptListMarkdown(
+  entries: Array<Pick<Conversation, "userText" | "timestamp" | "isContinuation"> & { pageFile: string }>
+): string {
+  let promptNum = 0;
+  const items = entries.map((entry) => {
+    const time = formatTime(entry.timestamp);
+    if (entry.isContinuation) {
+      // Nested under the prompt it continues
+      const indent = " ".repeat(String(promptNum).length + 2);
+      return `${indent}- [Context compacted](${entry.pageFile}) · ${time}`;
+    }
+    return `${++promptNum}. [${headingText(entry.userText)}](${entry.pageFile}) · ${time}`;
+  });
+  return ["## Prompts", "", ...items].join("\n");
+}
+
+/**
+ * Links from a page to the index and the pages either side of it
+ *
+ * @param pageIndex - Index of the current page in `pages`
+ */
+export function renderPageNavMarkdown(pages: PageLink[], pageIndex: number): string {
+  const previous = pages[pageIndex - 1];
+  const next = pages[pageIndex + 1];
+  return [
+    `[Index](${MARKDOWN_INDEX_FILENAME})`,
+    ...(previous ? [`[← Page ${previous.label}](${previous.filename})`] : []),
+    `Page ${pages[pageIndex]!.label} of ${pages.length}`,
+    ...(next ? [`[Page ${next.label} →](${next.filename})`] : []),
+  ].join(" · ");
+}
@@ -2,7 +2,8 @@
  * Markdown rendering with marked
  */
 
-import { marked } from "marked";
+import { Marked, marked, type MarkedExtension } from "marked";
+import { getLanguage, highlightCode } from "./highlight.js";
 
 // Configure marked with GFM (fenced code, tables)
 marked.setOptions({
@@ -10,6 +11,46 @@ marked.setOptions({
   breaks: false, // Don't convert \n to <br>
 });
 
+// Highlight fenced code in a known language; other code keeps marked's rendering
+const highlightExtension: MarkedExtension = {
+  renderer: {
+    code({ text, lang }) {
+      const language = getLanguage(lang);
+      if (!language) {
+        return false;
+      }
+      const code = highlightCode(text.replace(/\n$/, ""), language);
+      return `<pre><code class="hljs language-${language}">${code}\n</code></pre>\n`;
+    },
+  },
+};
+
+marked.use(highlightExtension);
+
+/**
+ * Check if a URL is a web page, and so safe to link to; javascript: and
+ * data: URLs are not
+ */
+export function isWebUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+// For text from outside the session, such as fetched web pages: raw HTML is
+// shown as text, and links and images are kept only for web URLs
+const untrustedMarked = new Marked({ gfm: true, breaks: false }, highlightExtension, {
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text);
+    },
+    link({ href, tokens }) {
+      return isWebUrl(href) ? false : this.parser.parseInline(tokens);
+    },
+    image({ href, text }) {
+      return isWebUrl(href) ? false : escapeHtml(text);
+    },
+  },
+});
+
 /**
  * Render markdown text to HTML
  *
@@ -25,6 +66,20 @@ export function renderMarkdown(text: string | null | undefined): string {
   return marked.parse(text) as string;
 }
 
+/**
+ * Render markdown from an untrusted source to HTML, escaping any raw HTML
+ *
+ * @param text - Markdown text to render
+ * @returns HTML string
+ */
+export function renderUntrustedMarkdown(text: string | null | undefined): string {
+  if (!text) {
+    return "";
+  }
+
+  return untrustedMarked.parse(text) as string;
+}
+
 /**
  * Check if a string looks like JSON
  *
@@ -3,7 +3,7 @@
  */
 
 import type { VNode } from "preact";
-import type { Message, ContentBlock } from "../schemas.js";
+import type { Message, MessageContentBlock } from "../schemas.js";
 import { renderToHtml } from "./jsx.js";
 
 /**
@@ -33,11 +33,14 @@ export function MessageComponent({
     <div class={`message ${roleClass}`} id={msgId}>
       <div class="message-header">
         <span class="role-label">{roleLabel}</span>
-        <a href={`#${msgId}`} class="timestamp-link">
-          <time datetime={timestamp} data-timestamp={timestamp}>
-            {timestamp}
-          </time>
-        </a>
+        <span class="message-links">
+          <AnchorLink id={msgId} />
+          <a href={`#${msgId}`} class="timestamp-link">
+            <time datetime={timestamp} data-timestamp={timestamp}>
+              {timestamp}
+            </time>
+          </a>
+        </span>
       </div>
       <div
         class="message-content"
@@ -47,6 +50,148 @@ export function MessageComponent({
   );
 }
 
+/**
+ * Link to an element, copied to the clipboard when clicked
+ */
+export function AnchorLink({ id }: { id: string }): VNode {
+  return (
+    <a href={`#${id}`} class="anchor-link" title="Copy link" aria-label="Copy link">
+      #
+    </a>
+  );
+}
+
+/**
+ * A content block with its own id and copy-link button
+ */
+export function AnchoredBlock({ id, contentHtml }: { id: string; contentHtml: string }): VNode {
+  return (
+    <div class="block-anchor" id={id}>
+      <AnchorLink id={id} />
+      <div dangerouslySetInnerHTML={{ __html: contentHtml }} />
+    </div>
+  );
+}
+
+/**
+ * Collapsible section holding an abandoned branch of the conversation
+ */
+export function AlternatePath({
+  messageCount,
+  contentHtml,
+}: {
+  messageCount: number;
+  contentHtml: string;
+}): VNode {
+  return (
+    <details class="alternate-path">
+      <summary>
+        Alternate path ({messageCount} message{messageCount !== 1 ? "s" : ""})
+      </summary>
+      <div dangerouslySetInnerHTML={{ __html: contentHtml }} />
+    </details>
+  );
+}
+
+/**
+ * Collapsed compaction summary that opens a continued conversation
+ */
+export function ContinuationSummary({ contentHtml }: { contentHtml: string }): VNode {
+  return (
+    <details class="continuation">
+      <summary>Session continuation summary</summary>
+      <div dangerouslySetInnerHTML={{ __html: contentHtml }} />
+    </details>
+  );
+}
+
+/**
+ * Marker shown where the transcript continues in a resumed session
+ */
+export function SessionBoundary({ sessionId, cwd }: { sessionId: string; cwd?: string }): VNode {
+  return (
+    <div class="session-boundary">
+      <span class="session-boundary-label">Session resumed</span>
+      <code>{sessionId}</code>
+      {cwd && (
+        <>
+          {" in "}
+          <code>{cwd}</code>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible mini-transcript of a sub-agent run, shown under its Task call
+ */
+export function SubagentTranscript({
+  description,
+  messageCount,
+  contentHtml,
+}: {
+  description: string;
+  messageCount: number;
+  contentHtml: string;
+}): VNode {
+  return (
+    <details class="subagent">
+      <summary>
+        Sub-agent: {description} ({messageCount} message{messageCount !== 1 ? "s" : ""})
+      </summary>
+      <div class="subagent-messages" dangerouslySetInnerHTML={{ __html: contentHtml }} />
+    </details>
+  );
+}
+
+/** Badge text for each tool card status */
+const TOOL_STATUS_LABELS = {
+  ok: "ok",
+  error: "error",
+  missing: "no result",
+} as const;
+
+/**
+ * A tool call and its result rendered as one collapsible card
+ */
+export function ToolCard({
+  name,
+  status,
+  elapsed,
+  callHtml,
+  resultHtml,
+}: {
+  name: string;
+  status: keyof typeof TOOL_STATUS_LABELS;
+  elapsed?: string;
+  callHtml: string;
+  resultHtml: string;
+}): VNode {
+  return (
+    <details class={`tool-card tool-card-${status}`} open>
+      <summary>
+        <span class="tool-card-name">{name}</span>
+        <span class={`tool-status tool-status-${status}`}>{TOOL_STATUS_LABELS[status]}</span>
+        {elapsed && <span class="tool-elapsed">{elapsed}</span>}
+      </summary>
+      <div dangerouslySetInnerHTML={{ __html: callHtml + resultHtml }} />
+    </details>
+  );
+}
+
+/**
+ * A tool result whose call is not part of the transcript
+ */
+export function OrphanToolResult({ contentHtml }: { contentHtml: string }): VNode {
+  return (
+    <div class="tool-orphan">
+      <div class="tool-orphan-label">Result without a matching call</div>
+      <div dangerouslySetInnerHTML={{ __html: contentHtml }} />
+    </div>
+  );
+}
+
 /**
  * Check if a message contains only tool_result blocks
  */
@@ -70,19 +215,13 @@ export function isToolResultMessage(message: Message): boolean {
   );
 }
 
-/**
- * Generate a message ID from a timestamp
- */
-export function makeMsgId(timestamp: string): string {
-  return `msg-${timestamp.replace(/:/g, "-").replace(/\./g, "-")}`;
-}
-
 /**
  * Render a message to HTML string
  *
  * @param logType - "user" or "assistant"
  * @param messageJson - JSON string of the message
  * @param timestamp - ISO timestamp
+ * @param msgId - Element id of the message, e.g. from `makeMsgId`
  * @param renderContentBlock - Function to render content blocks
  * @returns HTML string or empty string if message should be skipped
  */
@@ -90,7 +229,8 @@ export function renderMessage(
   logType: "user" | "assistant",
   messageJson: string,
   timestamp: string,
-  renderContentBlock: (block: ContentBlock) => string,
+  msgId: string,
+  renderContentBlock: (block: MessageContentBlock) => string,
   renderUserContent: (message: Message) => string
 ): string {
   if (!messageJson) {
@@ -130,8 +270,6 @@ export function renderMessage(
     return "";
   }
 
-  const msgId = makeMsgId(timestamp);
-
   return renderToHtml(
     <MessageComponent
       roleClass={roleClass}
@@ -148,7 +286,7 @@ export function renderMessage(
  */
 function renderAssistantMessage(
   message: Message,
-  renderContentBlock: (block: ContentBlock) => string
+  renderContentBlock: (block: MessageContentBlock) => string
 ): string {
   const content = message.content;
 
@@ -157,5 +295,5 @@ function renderAssistantMessage(
     return `<p>${String(content)}</p>`;
   }
 
-  return content.map((block) => renderContentBlock(block as ContentBlock)).join("");
+  return content.map((block) => renderContentBlock(block)).join("");
 }
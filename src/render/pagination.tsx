@@ -4,7 +4,9 @@
 
 import type { VNode } from "preact";
 import { renderToHtml } from "./jsx.js";
-import { PROMPTS_PER_PAGE } from "../types.js";
+import { PROMPTS_PER_PAGE, type Conversation, type PaginationStrategy } from "../types.js";
+
+export type { Conversation, ConversationMessage } from "../types.js";
 
 /**
  * Format page number as 3-digit string
@@ -20,19 +22,36 @@ export function getPageFilename(pageNum: number): string {
   return `page-${formatPageNum(pageNum)}.html`;
 }
 
+/**
+ * Get the filename of the page for a calendar day, e.g. "page-2025-12-24.html"
+ */
+export function getDayPageFilename(day: string): string {
+  return `page-${day}.html`;
+}
+
+/**
+ * A page of the transcript, as linked from the pagination bars
+ */
+export interface PageLink {
+  filename: string;
+  /** Link text: the page number, or the day for day pages */
+  label: string;
+}
+
 /**
  * Props for Pagination component
  */
 interface PaginationProps {
+  /** 1-based number of the page being rendered */
   currentPage: number;
-  totalPages: number;
+  pages: PageLink[];
 }
 
 /**
  * Pagination component for regular pages
  */
-export function Pagination({ currentPage, totalPages }: PaginationProps): VNode {
-  if (totalPages <= 1) {
+export function Pagination({ currentPage, pages }: PaginationProps): VNode {
+  if (pages.length <= 1) {
     return (
       <div class="pagination">
         <a href="index.html" class="index-link">
@@ -42,28 +61,29 @@ export function Pagination({ currentPage, totalPages }: PaginationProps): VNode
     );
   }
 
-  const pageLinks: VNode[] = [];
-  for (let page = 1; page <= totalPages; page++) {
-    if (page === currentPage) {
-      pageLinks.push(<span class="current">{page}</span>);
-    } else {
-      pageLinks.push(<a href={getPageFilename(page)}>{page}</a>);
-    }
-  }
+  const pageLinks: VNode[] = pages.map((page, index) =>
+    index + 1 === currentPage ? (
+      <span class="current">{page.label}</span>
+    ) : (
+      <a href={page.filename}>{page.label}</a>
+    )
+  );
+  const prev = pages[currentPage - 2];
+  const next = pages[currentPage];
 
   return (
     <div class="pagination">
       <a href="index.html" class="index-link">
         Index
       </a>
-      {currentPage > 1 ? (
-        <a href={getPageFilename(currentPage - 1)}>&larr; Prev</a>
+      {prev ? (
+        <a href={prev.filename}>&larr; Prev</a>
       ) : (
         <span class="disabled">&larr; Prev</span>
       )}
       {pageLinks}
-      {currentPage < totalPages ? (
-        <a href={getPageFilename(currentPage + 1)}>Next &rarr;</a>
+      {next ? (
+        <a href={next.filename}>Next &rarr;</a>
       ) : (
         <span class="disabled">Next &rarr;</span>
       )}
@@ -75,71 +95,84 @@ export function Pagination({ currentPage, totalPages }: PaginationProps): VNode
  * Props for IndexPagination component
  */
 interface IndexPaginationProps {
-  totalPages: number;
+  pages: PageLink[];
+  /** Pages about the whole session, such as the timeline, linked after the transcript pages */
+  reports?: PageLink[];
 }
 
 /**
  * Pagination component for index page
  */
-export function IndexPagination({ totalPages }: IndexPaginationProps): VNode {
-  if (totalPages < 1) {
+export function IndexPagination({ pages, reports = [] }: IndexPaginationProps): VNode {
+  const reportLinks = reports.map((report) => (
+    <a href={report.filename} class="report-link">
+      {report.label}
+    </a>
+  ));
+
+  if (pages.length < 1) {
     return (
       <div class="pagination">
         <span class="current">Index</span>
+        {reportLinks}
       </div>
     );
   }
 
-  const pageLinks: VNode[] = [];
-  for (let page = 1; page <= totalPages; page++) {
-    pageLinks.push(<a href={getPageFilename(page)}>{page}</a>);
-  }
-
   return (
     <div class="pagination">
       <span class="current">Index</span>
       <span class="disabled">&larr; Prev</span>
-      {pageLinks}
-      {totalPages >= 1 ? (
-        <a href={getPageFilename(1)}>Next &rarr;</a>
-      ) : (
-        <span class="disabled">Next &rarr;</span>
-      )}
+      {pages.map((page) => (
+        <a href={page.filename}>{page.label}</a>
+      ))}
+      <a href={pages[0]!.filename}>Next &rarr;</a>
+      {reportLinks}
     </div>
   );
 }
 
 /**
- * Render pagination to HTML string
+ * Pagination component for report pages, such as the timeline
  */
-export function renderPagination(currentPage: number, totalPages: number): string {
-  return renderToHtml(<Pagination currentPage={currentPage} totalPages={totalPages} />);
+export function ReportPagination({
+  current,
+  reports,
+}: {
+  /** Filename of the report being rendered */
+  current: string;
+  reports: PageLink[];
+}): VNode {
+  return (
+    <div class="pagination">
+      <a href="index.html" class="index-link">
+        Index
+      </a>
+      {reports.map((report) =>
+        report.filename === current ? (
+          <span class="current">{report.label}</span>
+        ) : (
+          <a href={report.filename} class="report-link">
+            {report.label}
+          </a>
+        )
+      )}
+    </div>
+  );
 }
 
 /**
- * Render index pagination to HTML string
+ * Render pagination to HTML string
  */
-export function renderIndexPagination(totalPages: number): string {
-  return renderToHtml(<IndexPagination totalPages={totalPages} />);
+export function renderPagination(currentPage: number, pages: PageLink[]): string {
+  return renderToHtml(<Pagination currentPage={currentPage} pages={pages} />);
 }
 
 /**
- * Group loglines into conversations
- *
- * A conversation starts with a non-empty user message (that is not a tool result)
- * and includes all subsequent messages until the next user prompt.
+ * Render index pagination to HTML string
  */
-export interface ConversationMessage {
-  type: "user" | "assistant";
-  messageJson: string;
-  timestamp: string;
-}
-
-export interface Conversation {
-  userText: string;
-  timestamp: string;
-  messages: ConversationMessage[];
-  isContinuation: boolean;
+export function renderIndexPagination(pages: PageLink[], reports?: PageLink[]): string {
+  return renderToHtml(<IndexPagination pages={pages} reports={reports} />);
 }
 
 /**
@@ -185,3 +218,79 @@ export function calculateTotalPages(
   }
   return Math.ceil(totalConversations / promptsPerPage);
 }
+
+/**
+ * Decides where pages break as conversations arrive in order
+ */
+export interface PageBreaker {
+  /**
+   * Place the next conversation
+   *
+   * @param htmlBytes - Size of the conversation's rendered HTML
+   * @returns The page the conversation starts, or null if it goes on the
+   *   current page
+   */
+  next(conversation: Conversation, htmlBytes: number): PageLink | null;
+}
+
+// UTC day of an ISO timestamp, e.g. "2025-12-24"
+function getDay(timestamp: string): string | undefined {
+  return /^\d{4}-\d{2}-\d{2}/.exec(timestamp)?.[0];
+}
+
+/**
+ * Create a page breaker for a pagination strategy
+ */
+export function createPageBreaker(
+  strategy: PaginationStrategy = { promptsPerPage: PROMPTS_PER_PAGE }
+): PageBreaker {
+  let pageCount = 0;
+  let conversationCount = 0;
+  let byteCount = 0;
+
+  const newPage = (): PageLink => {
+    pageCount++;
+    conversationCount = 0;
+    byteCount = 0;
+    return { filename: getPageFilename(pageCount), label: String(pageCount) };
+  };
+
+  if ("byDay" in strategy) {
+    let currentDay: string | undefined;
+    const usedFilenames = new Set<string>();
+
+    return {
+      next(conversation) {
+        // Undated conversations stay on the page before them
+        const day = getDay(conversation.timestamp) ?? currentDay ?? "undated";
+        if (pageCount > 0 && day === currentDay) {
+          return null;
+        }
+        pageCount++;
+        currentDay = day;
+
+        // A day seen again after a later one, e.g. in merged sessions, gets a second page
+        let filename = getDayPageFilename(day);
+        for (let n = 2; usedFilenames.has(filename); n++) {
+          filename = getDayPageFilename(`${day}-${n}`);
+        }
+        usedFilenames.add(filename);
+        return { filename, label: day };
+      },
+    };
+  }
+
+  return {
+    next(_conversation, htmlBytes) {
+      const full =
+        pageCount === 0 ||
+        ("maxBytesPerPage" in strategy
+          ? byteCount > 0 && byteCount + htmlBytes > strategy.maxBytesPerPage
+          : conversationCount >= Math.max(1, strategy.promptsPerPage));
+      const page = full ? newPage() : null;
+      conversationCount++;
+      byteCount += htmlBytes;
+      return page;
+    },
+  };
+}
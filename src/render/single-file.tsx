@@ -0,0 +1,91 @@
+/**
+ * Single-file output
+ *
+ * The index, the transcript pages and the report pages rendered into one
+ * HTML document, for sending as an attachment or opening from disk. Each
+ * page is a section named after its filename; a script turns links between
+ * pages into links between sections, shows one section at a time and
+ * searches the messages of all of them without fetching anything. Without
+ * scripts every section is shown, one after the other.
+ */
+
+import type { VNode } from "preact";
+import { renderDocument } from "./jsx.js";
+
+/** Filename of the single-file transcript */
+export const SINGLE_FILE_FILENAME = "transcript.html";
+
+/**
+ * One page of the transcript as a section of the single file
+ */
+export interface SingleFileSection {
+  /** Filename the page has when written as its own file, e.g. "page-001.html" */
+  filename: string;
+  /** Shown with search results, e.g. "Page 1" */
+  label: string;
+  /** Body of the page, without the document around it */
+  html: string;
+}
+
+/**
+ * Search box and the dialog its results are shown in
+ */
+export function SearchBox(): VNode {
+  return (
+    <>
+      <div id="search-box">
+        <input type="search" id="search-input" placeholder="Search..." aria-label="Search" />
+        <button id="search-btn" type="button" aria-label="Search">
+          Search
+        </button>
+      </div>
+      <dialog id="search-modal">
+        <div class="search-modal-header">
+          <input type="search" id="modal-search-input" placeholder="Search..." aria-label="Search" />
+          <button id="modal-search-btn" type="button">
+            Search
+          </button>
+          <button id="modal-close-btn" type="button" aria-label="Close">
+            ×
+          </button>
+        </div>
+        <div id="search-status"></div>
+        <div id="search-results"></div>
+      </dialog>
+    </>
+  );
+}
+
+/**
+ * Render the pages of a transcript as one HTML document
+ *
+ * @param sections - Pages in order; the first is shown first
+ * @param anchorRedirects - Old message ids of every page mapped to their
+ *   current ids
+ */
+export function renderSingleFile(
+  sections: SingleFileSection[],
+  title: string,
+  anchorRedirects: Record<string, string>
+): string {
+  return renderDocument({
+    title,
+    anchorRedirects,
+    includeSingleFileJS: true,
+    children: (
+      <>
+        <div class="single-file-bar">
+          <SearchBox />
+        </div>
+        {sections.map((section) => (
+          <section
+            class="single-file-section"
+            id={section.filename}
+            data-label={section.label}
+            dangerouslySetInnerHTML={{ __html: section.html }}
+          />
+        ))}
+      </>
+    ),
+  });
+}
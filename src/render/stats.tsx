@@ -0,0 +1,733 @@
+/**
+ * Session statistics page
+ *
+ * Tool calls by name and over time, tool error rates, assistant turns per
+ * prompt, context growth, the busiest prompts and the longest thinking blocks
+ * and file writes, drawn as static HTML bars and SVG charts. `analyzeSession` returns
+ * the same figures as data.
+ */
+
+import type { VNode } from "preact";
+import type { Logline, Message, SessionData, ToolUseBlock } from "../schemas.js";
+import type {
+  ContextSample,
+  LongTextStats,
+  PricingTable,
+  PromptStats,
+  RenderOptions,
+  SessionStats,
+  ToolCallBucket,
+  ToolUsage,
+} from "../types.js";
+import type { AnchorRegistry } from "./anchors.js";
+import { applyBranchSelection, selectBranch } from "../tree.js";
+import { createLoglineFilter, filterLoglines } from "../filter.js";
+import { createSubagentCollector } from "../subagents.js";
+import { addUsage, createUsageCounter, emptyUsage, getTotalTokens } from "../usage.js";
+import { groupLoglinesToConversations } from "./conversations.js";
+import { analyzeConversation, formatCost, formatTokenCount, formatUsage } from "./index-page.js";
+import {
+  ReportPagination,
+  type Conversation,
+  type ConversationMessage,
+  type PageLink,
+} from "./pagination.js";
+import { pairToolResults } from "./tool-pairs.js";
+import { formatTick, roundPixels } from "./timeline.js";
+import { renderDocument } from "./jsx.js";
+
+/** Filename of the statistics page */
+export const STATS_FILENAME = "stats.html";
+
+/** Bucket sizes tried for the tool calls over time, smallest first */
+const BUCKET_SIZES_MS = [
+  60_000, 5 * 60_000, 15 * 60_000, 3_600_000, 6 * 3_600_000, 24 * 3_600_000,
+];
+/** Most buckets wanted before trying a larger bucket size */
+const MAX_BUCKETS = 60;
+/** Rows of the busiest prompts and longest texts tables */
+const TOP_COUNT = 10;
+
+/**
+ * Collects statistics as conversations are rendered
+ */
+export interface StatsCollector {
+  /**
+   * Add a conversation; given the page it is on and its anchors, prompts and
+   * long texts link to it
+   */
+  add(conversation: Conversation, pageFile?: string, anchors?: AnchorRegistry): void;
+  finish(): SessionStats;
+}
+
+/**
+ * Count tool calls in buckets of the smallest size that keeps their number
+ * under `MAX_BUCKETS`
+ */
+function bucketToolCalls(
+  calls: Array<{ time: number; name: string }>
+): SessionStats["toolCallsOverTime"] {
+  if (calls.length === 0) {
+    return { bucketMs: BUCKET_SIZES_MS[0]!, buckets: [] };
+  }
+
+  const first = calls.reduce((min, call) => Math.min(min, call.time), Infinity);
+  const last = calls.reduce((max, call) => Math.max(max, call.time), -Infinity);
+  const bucketMs =
+    BUCKET_SIZES_MS.find(
+      (size) => Math.floor(last / size) - Math.floor(first / size) < MAX_BUCKETS
+    ) ?? BUCKET_SIZES_MS[BUCKET_SIZES_MS.length - 1]!;
+
+  const startIndex = Math.floor(first / bucketMs);
+  const buckets: ToolCallBucket[] = Array.from(
+    { length: Math.floor(last / bucketMs) - startIndex + 1 },
+    (_, i) => ({ start: new Date((startIndex + i) * bucketMs).toISOString(), counts: {} })
+  );
+  for (const call of calls) {
+    const bucket = buckets[Math.floor(call.time / bucketMs) - startIndex]!;
+    bucket.counts[call.name] = (bucket.counts[call.name] ?? 0) + 1;
+  }
+  return { bucketMs, buckets };
+}
+
+/**
+ * Create a collector for the statistics of a transcript
+ *
+ * Tool calls, tokens and long texts of sub-agents count towards the prompt
+ * that started them; assistant turns are counted as on the timeline, without
+ * sub-agents.
+ *
+ * @param pricing - Model prices used over the built-in ones
+ */
+export function createStatsCollector(pricing?: PricingTable): StatsCollector {
+  const usageCounter = createUsageCounter(pricing);
+  const tools = new Map<string, ToolUsage>();
+  const calls: Array<{ time: number; name: string }> = [];
+  const prompts: PromptStats[] = [];
+  const longTexts: LongTextStats[] = [];
+  const contextGrowth: ContextSample[] = [];
+  let compacted = false;
+
+  return {
+    add(conversation, pageFile, anchors) {
+      const link = (message: ConversationMessage) =>
+        pageFile !== undefined && anchors ? `${pageFile}#${anchors.message(message)}` : undefined;
+
+      // Work after a compaction continues the prompt before it
+      let continued = conversation.isContinuation ? prompts[prompts.length - 1] : undefined;
+      if (!continued) {
+        const first = conversation.messages[0];
+        continued = {
+          text: conversation.userText,
+          timestamp: conversation.timestamp,
+          assistantTurns: 0,
+          toolCalls: 0,
+          toolErrors: 0,
+          usage: emptyUsage(),
+        };
+        const href = first && link(first);
+        if (href) {
+          continued.href = href;
+        }
+        prompts.push(continued);
+      }
+      const prompt = continued;
+      if (conversation.isContinuation) {
+        compacted = true;
+      }
+
+      let inTurn = false;
+      for (const message of conversation.messages) {
+        if (message.type === "assistant" && !inTurn) {
+          prompt.assistantTurns++;
+        }
+        inTurn = message.type === "assistant";
+      }
+
+      const addMessages = (messages: ConversationMessage[], isSubagent: boolean) => {
+        const pairing = pairToolResults(messages);
+
+        for (const message of messages) {
+          if (message.type === "assistant") {
+            const parsed = JSON.parse(message.messageJson) as Message;
+            const added = usageCounter.add(parsed);
+            prompt.usage = addUsage(prompt.usage, added);
+            const contextTokens =
+              added.inputTokens + added.cacheCreationTokens + added.cacheReadTokens;
+            if (!isSubagent && contextTokens > 0) {
+              const sample: ContextSample = {
+                timestamp: message.timestamp,
+                tokens: contextTokens,
+                model: parsed.model ?? "unknown",
+              };
+              if (compacted) {
+                sample.afterCompaction = true;
+                compacted = false;
+              }
+              const href = link(message);
+              if (href) {
+                sample.href = href;
+              }
+              contextGrowth.push(sample);
+            }
+            const logline: Logline = {
+              type: "assistant",
+              timestamp: message.timestamp,
+              message: parsed,
+            };
+            for (const text of analyzeConversation([logline]).longTexts) {
+              const longText: LongTextStats = {
+                type: text.type,
+                length: text.full.length,
+                preview: text.preview,
+                timestamp: text.timestamp,
+              };
+              const href = link(message);
+              if (href) {
+                longText.href = href;
+              }
+              longTexts.push(longText);
+            }
+
+            for (const block of Array.isArray(parsed.content) ? parsed.content : []) {
+              if (block.type !== "tool_use") continue;
+              const use = block as ToolUseBlock;
+              const isError = Boolean(pairing.results.get(use.id)?.block.is_error);
+
+              let usage = tools.get(use.name);
+              if (!usage) {
+                usage = { name: use.name, calls: 0, errors: 0 };
+                tools.set(use.name, usage);
+              }
+              usage.calls++;
+              prompt.toolCalls++;
+              if (isError) {
+                usage.errors++;
+                prompt.toolErrors++;
+              }
+
+              const time = Date.parse(message.timestamp);
+              if (!Number.isNaN(time)) {
+                calls.push({ time, name: use.name });
+              }
+            }
+          }
+
+          for (const run of Object.values(message.subagents ?? {})) {
+            addMessages(run, true);
+          }
+        }
+      };
+      addMessages(conversation.messages, false);
+    },
+
+    finish() {
+      return {
+        tools: [...tools.values()].sort((a, b) => b.calls - a.calls || a.name.localeCompare(b.name)),
+        toolCallsOverTime: bucketToolCalls(calls),
+        prompts: [...prompts],
+        longTexts: [...longTexts].sort((a, b) => b.length - a.length),
+        usage: usageCounter.finish(),
+        usageByModel: [...usageCounter.byModel()]
+          .map(([model, usage]) => ({ model, ...usage }))
+          .sort((a, b) => b.cost - a.cost || getTotalTokens(b) - getTotalTokens(a)),
+        contextGrowth: [...contextGrowth],
+      };
+    },
+  };
+}
+
+/**
+ * Compute the statistics of a session without rendering it
+ *
+ * Follows the active branch and applies the `include` and `exclude`
+ * filters, as `renderTranscript` does. Nothing links to a page, so `href`
+ * is left unset.
+ */
+export function analyzeSession(
+  session: SessionData,
+  options: Pick<RenderOptions, "leafUuid" | "include" | "exclude" | "pricing"> = {}
+): SessionStats {
+  const { loglines } = applyBranchSelection(
+    session.loglines,
+    selectBranch(session.loglines, options.leafUuid)
+  );
+  const conversations = groupLoglinesToConversations(
+    filterLoglines(loglines, createLoglineFilter(options)),
+    { subagents: createSubagentCollector() }
+  );
+
+  const collector = createStatsCollector(options.pricing);
+  for (const conversation of conversations) {
+    collector.add(conversation);
+  }
+  return collector.finish();
+}
+
+// ============================================
+// Components
+// ============================================
+
+/** Tools drawn as their own series on the chart over time; the rest are "Other" */
+const MAX_SERIES = 5;
+const CHART_HEIGHT = 160;
+const AXIS_HEIGHT = 20;
+const MIN_CHART_WIDTH = 640;
+const MIN_COLUMN_WIDTH = 3;
+const MAX_COLUMN_WIDTH = 24;
+/** Closest axis labels may be */
+const MIN_LABEL_SPACING = 90;
+/** Room above the context growth chart for model names */
+const MARKER_HEIGHT = 14;
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count !== 1 ? "s" : ""}`;
+}
+
+function formatRate(errors: number, calls: number): string {
+  return calls > 0 ? `${Math.round((errors / calls) * 100)}%` : "0%";
+}
+
+/**
+ * Horizontal HTML bar chart with a label and value per row
+ */
+function BarList({
+  rows,
+}: {
+  rows: Array<{ label: string; value: string; fraction: number; className?: string }>;
+}): VNode {
+  return (
+    <table class="stats-bars">
+      {rows.map((row) => (
+        <tr>
+          <th>{row.label}</th>
+          <td class="stats-bar-cell">
+            <div
+              class={`stats-bar${row.className ? ` ${row.className}` : ""}`}
+              style={`width: ${roundPixels(row.fraction * 100)}%`}
+            />
+          </td>
+          <td class="stats-bar-value">{row.value}</td>
+        </tr>
+      ))}
+    </table>
+  );
+}
+
+/**
+ * Column positions for `count` columns
+ */
+function layoutColumns(count: number) {
+  const columnWidth = Math.max(
+    MIN_COLUMN_WIDTH,
+    Math.min(MAX_COLUMN_WIDTH, MIN_CHART_WIDTH / count)
+  );
+  // Leave room for the first axis label however few columns there are
+  const width = Math.max(MIN_LABEL_SPACING, Math.ceil(columnWidth * count));
+  const labelEvery = Math.max(1, Math.ceil(MIN_LABEL_SPACING / columnWidth));
+  return { columnWidth, width, height: CHART_HEIGHT + AXIS_HEIGHT, labelEvery };
+}
+
+/**
+ * SVG stacked columns of tool calls per time bucket
+ */
+export function ToolCallsOverTimeChart({
+  stats,
+}: {
+  stats: Pick<SessionStats, "tools" | "toolCallsOverTime">;
+}): VNode {
+  const { bucketMs, buckets } = stats.toolCallsOverTime;
+  const series = stats.tools.slice(0, MAX_SERIES).map((tool) => tool.name);
+  const { columnWidth, width, height, labelEvery } = layoutColumns(buckets.length);
+  const totals = buckets.map((bucket) => Object.values(bucket.counts).reduce((a, b) => a + b, 0));
+  const max = Math.max(1, ...totals);
+  const scale = CHART_HEIGHT / max;
+
+  let previousDay: string | undefined;
+  return (
+    <>
+      <svg
+        class="stats-chart"
+        xmlns="http://www.w3.org/2000/svg"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+      >
+        {buckets.map((bucket, index) => {
+          const x = roundPixels(index * columnWidth);
+          const other =
+            totals[index]! - series.reduce((sum, name) => sum + (bucket.counts[name] ?? 0), 0);
+          const parts = [
+            ...series.map((name, i) => ({
+              name,
+              count: bucket.counts[name] ?? 0,
+              className: `stats-series-${i}`,
+            })),
+            { name: "Other", count: other, className: "stats-series-other" },
+          ].filter((part) => part.count > 0);
+
+          let y = CHART_HEIGHT;
+          const time = Date.parse(bucket.start);
+          const tick = index % labelEvery === 0 ? formatTick(time, bucketMs, previousDay) : undefined;
+          if (tick) {
+            previousDay = tick.day;
+          }
+          return (
+            <g>
+              <title>
+                {`${bucket.start}: ${plural(totals[index]!, "call")}`}
+                {parts.map((part) => `\n${part.name}: ${part.count}`).join("")}
+              </title>
+              {parts.map((part) => {
+                const partHeight = roundPixels(part.count * scale);
+                y = roundPixels(y - partHeight);
+                return (
+                  <rect
+                    class={part.className}
+                    x={x}
+                    y={y}
+                    width={roundPixels(Math.max(1, columnWidth - 1))}
+                    height={partHeight}
+                  />
+                );
+              })}
+              {tick && (
+                <text x={x} y={height - 6}>
+                  {tick.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <p class="stats-legend">
+        {[...series, ...(stats.tools.length > series.length ? ["Other"] : [])].map((name, i) => (
+          <span class="stats-legend-item">
+            <span class={`stats-swatch stats-series-${i < series.length ? i : "other"}`} />
+            {name}
+          </span>
+        ))}
+      </p>
+    </>
+  );
+}
+
+/**
+ * SVG columns of assistant turns per prompt, each linked to its prompt
+ */
+export function TurnsPerPromptChart({ prompts }: { prompts: PromptStats[] }): VNode {
+  const { columnWidth, width, height, labelEvery } = layoutColumns(prompts.length);
+  const max = Math.max(1, ...prompts.map((prompt) => prompt.assistantTurns));
+  const scale = CHART_HEIGHT / max;
+
+  return (
+    <svg
+      class="stats-chart"
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      {prompts.map((prompt, index) => {
+        const x = roundPixels(index * columnWidth);
+        const columnHeight = roundPixels(prompt.assistantTurns * scale);
+        const column = (
+          <rect
+            class="stats-turns"
+            x={x}
+            y={roundPixels(CHART_HEIGHT - columnHeight)}
+            width={roundPixels(Math.max(1, columnWidth - 1))}
+            height={columnHeight}
+          >
+            <title>
+              {`#${index + 1} ${prompt.text.slice(0, 80)} · ${plural(prompt.assistantTurns, "turn")}`}
+            </title>
+          </rect>
+        );
+        return (
+          <g>
+            {prompt.href ? <a href={prompt.href}>{column}</a> : column}
+            {index % labelEvery === 0 && (
+              <text x={x} y={height - 6}>
+                #{index + 1}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * SVG columns of the context each request took up, each linked to its
+ * message, with markers where the context was compacted and the model changed
+ */
+export function ContextGrowthChart({ samples }: { samples: ContextSample[] }): VNode {
+  const { columnWidth, width, labelEvery } = layoutColumns(samples.length);
+  const height = MARKER_HEIGHT + CHART_HEIGHT + AXIS_HEIGHT;
+  const bottom = MARKER_HEIGHT + CHART_HEIGHT;
+  const peak = Math.max(1, ...samples.map((sample) => sample.tokens));
+  const scale = CHART_HEIGHT / peak;
+
+  let previousDay: string | undefined;
+  return (
+    <>
+      <svg
+        class="stats-chart"
+        xmlns="http://www.w3.org/2000/svg"
+        width={width}
+        height={height}
+        viewBox={`0 0 ${width} ${height}`}
+      >
+        {samples.map((sample, index) => {
+          const x = roundPixels(index * columnWidth);
+          const columnHeight = roundPixels(sample.tokens * scale);
+          const previousModel = samples[index - 1]?.model;
+          const modelChanged = previousModel !== undefined && previousModel !== sample.model;
+          const time = Date.parse(sample.timestamp);
+          const tick =
+            index % labelEvery === 0 && !Number.isNaN(time)
+              ? formatTick(time, 60_000, previousDay)
+              : undefined;
+          if (tick) {
+            previousDay = tick.day;
+          }
+          const column = (
+            <rect
+              class="stats-context"
+              x={x}
+              y={roundPixels(bottom - columnHeight)}
+              width={roundPixels(Math.max(1, columnWidth - 1))}
+              height={columnHeight}
+            >
+              <title>
+                {`${sample.timestamp}: ${formatTokenCount(sample.tokens)} tokens · ${sample.model}`}
+              </title>
+            </rect>
+          );
+          return (
+            <g>
+              {sample.afterCompaction && (
+                <line class="stats-marker-compaction" x1={x} y1={0} x2={x} y2={bottom}>
+                  <title>Context compacted</title>
+                </line>
+              )}
+              {modelChanged && (
+                <g>
+                  <title>{`Model changed from ${previousModel} to ${sample.model}`}</title>
+                  <line class="stats-marker-model" x1={x} y1={0} x2={x} y2={bottom} />
+                  <text x={x + 2} y={MARKER_HEIGHT - 4}>
+                    {sample.model}
+                  </text>
+                </g>
+              )}
+              {sample.href ? <a href={sample.href}>{column}</a> : column}
+              {tick && (
+                <text x={x} y={height - 6}>
+                  {tick.label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <p class="stats-legend">
+        <span class="stats-legend-item">Peak {formatTokenCount(peak)} tokens</span>
+        <span class="stats-legend-item">
+          <span class="stats-swatch stats-swatch-compaction" />
+          Compaction
+        </span>
+        <span class="stats-legend-item">
+          <span class="stats-swatch stats-swatch-model" />
+          Model change
+        </span>
+      </p>
+    </>
+  );
+}
+
+function MaybeLink({ href, children }: { href?: string; children: string }): VNode {
+  return href ? <a href={href}>{children}</a> : <>{children}</>;
+}
+
+/**
+ * Statistics page body: title, summary line, charts and tables
+ */
+export function StatsPage({
+  title,
+  stats,
+  reports,
+}: {
+  title: string;
+  stats: SessionStats;
+  /** Report pages linked from the navigation bar */
+  reports: PageLink[];
+}): VNode {
+  const { tools, prompts, longTexts, usage, usageByModel } = stats;
+  const usageText = formatUsage(usage);
+  const totalCalls = tools.reduce((sum, tool) => sum + tool.calls, 0);
+  const totalErrors = tools.reduce((sum, tool) => sum + tool.errors, 0);
+  const totalTurns = prompts.reduce((sum, prompt) => sum + prompt.assistantTurns, 0);
+  const mostCalls = tools[0]?.calls ?? 1;
+  const busiest = [...prompts]
+    .sort((a, b) => b.toolCalls - a.toolCalls || b.assistantTurns - a.assistantTurns)
+    .slice(0, TOP_COUNT)
+    .filter((prompt) => prompt.toolCalls > 0 || prompt.assistantTurns > 0);
+
+  return (
+    <>
+      <h1>{title}</h1>
+      <ReportPagination current={STATS_FILENAME} reports={reports} />
+      <p class="stats-summary">
+        {[
+          plural(prompts.length, "prompt"),
+          plural(totalTurns, "assistant turn"),
+          plural(totalCalls, "tool call"),
+          `${plural(totalErrors, "error")} (${formatRate(totalErrors, totalCalls)})`,
+          ...(usageText ? [usageText] : []),
+        ].join(" · ")}
+      </p>
+
+      <section class="stats-section">
+        <h2>Tool calls by name</h2>
+        {tools.length > 0 ? (
+          <BarList
+            rows={tools.map((tool) => ({
+              label: tool.name,
+              value: String(tool.calls),
+              fraction: tool.calls / mostCalls,
+            }))}
+          />
+        ) : (
+          <p class="stats-summary">No tool calls.</p>
+        )}
+      </section>
+
+      {stats.toolCallsOverTime.buckets.length > 0 && (
+        <section class="stats-section">
+          <h2>Tool calls over time</h2>
+          <div class="stats-scroll">
+            <ToolCallsOverTimeChart stats={stats} />
+          </div>
+        </section>
+      )}
+
+      {tools.length > 0 && (
+        <section class="stats-section">
+          <h2>Tool error rate</h2>
+          <BarList
+            rows={tools.map((tool) => ({
+              label: tool.name,
+              value: `${tool.errors} of ${tool.calls} (${formatRate(tool.errors, tool.calls)})`,
+              fraction: tool.errors / tool.calls,
+              className: "stats-bar-error",
+            }))}
+          />
+        </section>
+      )}
+
+      {prompts.length > 0 && (
+        <section class="stats-section">
+          <h2>Assistant turns per prompt</h2>
+          <div class="stats-scroll">
+            <TurnsPerPromptChart prompts={prompts} />
+          </div>
+        </section>
+      )}
+
+      {stats.contextGrowth.length > 0 && (
+        <section class="stats-section">
+          <h2>Context growth</h2>
+          <div class="stats-scroll">
+            <ContextGrowthChart samples={stats.contextGrowth} />
+          </div>
+        </section>
+      )}
+
+      {busiest.length > 0 && (
+        <section class="stats-section">
+          <h2>Busiest prompts</h2>
+          <table class="stats-table">
+            <tr>
+              <th>Prompt</th>
+              <th>Turns</th>
+              <th>Tool calls</th>
+              <th>Errors</th>
+              <th>Tokens</th>
+            </tr>
+            {busiest.map((prompt) => (
+              <tr>
+                <td class="stats-prompt">
+                  <MaybeLink href={prompt.href}>{prompt.text || "(empty prompt)"}</MaybeLink>
+                </td>
+                <td>{prompt.assistantTurns}</td>
+                <td>{prompt.toolCalls}</td>
+                <td>{prompt.toolErrors}</td>
+                <td>{formatUsage(prompt.usage) ?? ""}</td>
+              </tr>
+            ))}
+          </table>
+        </section>
+      )}
+
+      {usageByModel.length > 0 && (
+        <section class="stats-section">
+          <h2>Tokens by model</h2>
+          <table class="stats-table">
+            <tr>
+              <th>Model</th>
+              <th>Input</th>
+              <th>Output</th>
+              <th>Cache write</th>
+              <th>Cache read</th>
+              <th>Cost</th>
+            </tr>
+            {usageByModel.map((model) => (
+              <tr>
+                <td>{model.model}</td>
+                <td>{formatTokenCount(model.inputTokens)}</td>
+                <td>{formatTokenCount(model.outputTokens)}</td>
+                <td>{formatTokenCount(model.cacheCreationTokens)}</td>
+                <td>{formatTokenCount(model.cacheReadTokens)}</td>
+                <td>{formatCost(model)}</td>
+              </tr>
+            ))}
+          </table>
+        </section>
+      )}
+
+      {longTexts.length > 0 && (
+        <section class="stats-section">
+          <h2>Longest thinking and writes</h2>
+          <table class="stats-table">
+            <tr>
+              <th>Kind</th>
+              <th>Characters</th>
+              <th>Preview</th>
+            </tr>
+            {longTexts.slice(0, TOP_COUNT).map((text) => (
+              <tr>
+                <td>
+                  <MaybeLink href={text.href}>{text.type}</MaybeLink>
+                </td>
+                <td>{text.length.toLocaleString("en-US")}</td>
+                <td class="stats-preview">{text.preview}</td>
+              </tr>
+            ))}
+          </table>
+        </section>
+      )}
+    </>
+  );
+}
+
+/**
+ * Render the statistics page
+ */
+export function renderStatsPage(stats: SessionStats, title: string, reports: PageLink[]): string {
+  return renderDocument({
+    title: `${title} - Stats`,
+    children: <StatsPage title={title} stats={stats} reports={reports} />,
+  });
+}
@@ -0,0 +1,614 @@
+/**
+ * Terminal transcript
+ *
+ * Renders a session as text with ANSI colours, for reading without a
+ * browser: a header per prompt and per assistant turn, Markdown turned into
+ * bold, italic and coloured text, highlighted commands and code, red and
+ * green diffs, and tool output cut to its first lines. Uses the same branch
+ * selection, filters and conversation grouping as the HTML transcript.
+ */
+
+import { marked, type Token, type Tokens } from "marked";
+import type {
+  Message,
+  MessageContentBlock,
+  SessionData,
+  ToolResultBlock,
+  ToolUseBlock,
+} from "../schemas.js";
+import type { ParseOptions, RenderOptions, SessionSourceOptions } from "../types.js";
+import { parseSessionFile } from "../parse.js";
+import { applyBranchSelection, selectBranch } from "../tree.js";
+import { createLoglineFilter, filterLoglines } from "../filter.js";
+import { createSubagentCollector, isSubagentToolUse, loadAgentLoglines } from "../subagents.js";
+import { mergeSessions, resolveSessionFiles } from "../sessions.js";
+import { collectSessionMetadata } from "../metadata.js";
+import { groupLoglinesToConversations } from "./conversations.js";
+import { diffLines } from "./diff.js";
+import { getFileEdits, getFilePath } from "./file-tracker.js";
+import { getLanguage, highlightCode, languageFromPath } from "./highlight.js";
+import { isToolResultMessage } from "./message.js";
+import { isPairedResult, pairToolResults, type ToolPairing } from "./tool-pairs.js";
+import type { Conversation, ConversationMessage } from "./pagination.js";
+
+/**
+ * Options for rendering a session to the terminal
+ */
+export interface TerminalRenderOptions extends Pick<RenderOptions, "leafUuid" | "include" | "exclude" | "title"> {
+  /** Use ANSI colours and styles (default: true) */
+  color?: boolean;
+  /** Width of the rules between prompts (default: 80) */
+  width?: number;
+}
+
+/**
+ * A session rendered for the terminal
+ */
+export interface TerminalTranscript {
+  text: string;
+  /** Line each prompt starts on, 0-based, in prompt order */
+  promptLines: number[];
+}
+
+/** Lines of tool output shown before the rest is cut */
+const MAX_OUTPUT_LINES = 10;
+/** Lines of a written file or a tool's input shown before the rest is cut */
+const MAX_CODE_LINES = 20;
+/** Lines of a compaction summary shown */
+const MAX_SUMMARY_LINES = 3;
+const DEFAULT_WIDTH = 80;
+
+const ANSI_CODES = {
+  bold: "1",
+  dim: "2",
+  italic: "3",
+  underline: "4",
+  red: "31",
+  green: "32",
+  yellow: "33",
+  blue: "34",
+  magenta: "35",
+  cyan: "36",
+  gray: "90",
+} as const;
+
+type Style = keyof typeof ANSI_CODES;
+
+/** Style text, or leave it plain when colours are off */
+type Paint = (text: string, ...styles: Style[]) => string;
+
+function createPaint(color: boolean): Paint {
+  return (text, ...styles) => {
+    if (!color || styles.length === 0) return text;
+    const open = `\x1b[${styles.map((style) => ANSI_CODES[style]).join(";")}m`;
+    // Each line is styled on its own, so a pager showing part of a block keeps its colour
+    return text
+      .split("\n")
+      .map((line) => (line ? `${open}${line}\x1b[0m` : line))
+      .join("\n");
+  };
+}
+
+/** Styles for highlight.js scopes; unlisted scopes keep the style around them */
+const HLJS_STYLES: Record<string, Style[]> = {
+  keyword: ["magenta"],
+  literal: ["magenta"],
+  built_in: ["cyan"],
+  variable: ["cyan"],
+  attr: ["cyan"],
+  "template-variable": ["cyan"],
+  string: ["green"],
+  regexp: ["red"],
+  number: ["yellow"],
+  type: ["yellow"],
+  symbol: ["yellow"],
+  title: ["blue"],
+  comment: ["gray"],
+  meta: ["gray"],
+  addition: ["green"],
+  deletion: ["red"],
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  "#x27": "'",
+  "#39": "'",
+};
+
+/**
+ * Highlight code with ANSI colours, from highlight.js's HTML
+ */
+function highlightAnsi(code: string, language: string | undefined, paint: Paint): string {
+  if (!language) return code;
+
+  const stack: Style[][] = [];
+  let output = "";
+  for (const part of highlightCode(code, language).split(/(<span class="[^"]*">|<\/span>)/)) {
+    if (part.startsWith("<span")) {
+      const scopes = /class="([^"]*)"/.exec(part)![1]!.split(" ");
+      const styles = scopes.map((scope) => HLJS_STYLES[scope.replace(/^hljs-/, "")]).find(Boolean);
+      stack.push(styles ?? stack[stack.length - 1] ?? []);
+    } else if (part === "</span>") {
+      stack.pop();
+    } else if (part) {
+      const text = part.replace(/&(amp|lt|gt|quot|#x27|#39);/g, (_, name: string) => HTML_ENTITIES[name]!);
+      output += paint(text, ...(stack[stack.length - 1] ?? []));
+    }
+  }
+  return output;
+}
+
+// Length of text as shown, without its escape codes
+function visibleLength(text: string): number {
+  return text.replace(/\x1b\[[0-9;]*m/g, "").length;
+}
+
+/**
+ * Prefix every line of text, with a different prefix for the first
+ */
+function indent(text: string, first: string, rest = " ".repeat(visibleLength(first))): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 ? first : rest) + line)
+    .join("\n");
+}
+
+/**
+ * Mark every line of text as quoted or as code
+ */
+function gutter(text: string, paint: Paint, before = ""): string {
+  const bar = before + paint("│ ", "dim");
+  return indent(text, bar, bar);
+}
+
+/**
+ * Keep the first lines of text, saying how many were cut
+ */
+function truncateLines(text: string, max: number, paint: Paint): string {
+  const lines = text.replace(/\n+$/, "").split("\n");
+  if (lines.length <= max) return lines.join("\n");
+  const hidden = lines.length - max;
+  return [...lines.slice(0, max), paint(`… ${hidden} more line${hidden !== 1 ? "s" : ""}`, "dim")].join(
+    "\n"
+  );
+}
+
+/**
+ * Show control characters from the session the way `cat -v` does, so its
+ * content cannot clear the screen, retitle the window or write the clipboard
+ */
+function escapeControls(text: string): string {
+  return text.replace(/\r\n/g, "\n").replace(/[\x00-\x08\x0b-\x1f\x7f-\x9f]/g, (char) => {
+    const code = char.charCodeAt(0);
+    if (code < 0x20) return `^${String.fromCharCode(code + 64)}`;
+    return code === 0x7f ? "^?" : `<${code.toString(16).toUpperCase()}>`;
+  });
+}
+
+// Parse a message with the control characters of every string escaped
+function parseMessage(messageJson: string): Message {
+  return JSON.parse(messageJson, (_key, value: unknown) =>
+    typeof value === "string" ? escapeControls(value) : value
+  ) as Message;
+}
+
+function formatTime(timestamp: string): string {
+  const match = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2}:\d{2})/.exec(timestamp);
+  return match ? `${match[1]} ${match[2]} UTC` : escapeControls(timestamp);
+}
+
+// ============================================
+// Markdown
+// ============================================
+
+function renderInline(tokens: Token[] | undefined, paint: Paint): string {
+  return (tokens ?? [])
+    .map((token) => {
+      switch (token.type) {
+        case "strong":
+          return paint(renderInline(token.tokens, paint), "bold");
+        case "em":
+          return paint(renderInline(token.tokens, paint), "italic");
+        case "del":
+          return paint(renderInline(token.tokens, paint), "dim");
+        case "codespan":
+          return paint(token.text, "cyan");
+        case "link": {
+          const text = renderInline(token.tokens, paint);
+          return token.text === token.href
+            ? paint(token.href, "underline", "blue")
+            : `${paint(text, "underline")} ${paint(`(${token.href})`, "dim")}`;
+        }
+        case "image":
+          return paint(`[image: ${token.text || token.href}]`, "dim");
+        case "br":
+          return "\n";
+        case "checkbox":
+          return token.checked ? "[x] " : "[ ] ";
+        case "text":
+          return token.tokens ? renderInline(token.tokens, paint) : token.text;
+        default:
+          return "text" in token && typeof token.text === "string" ? token.text : token.raw;
+      }
+    })
+    .join("");
+}
+
+function renderTable(table: Tokens.Table, paint: Paint): string {
+  const rows = [table.header, ...table.rows].map((row) =>
+    row.map((cell) => renderInline(cell.tokens, paint))
+  );
+  const widths = table.header.map((_, column) =>
+    Math.max(...rows.map((row) => visibleLength(row[column] ?? "")))
+  );
+  const separator = paint(" │ ", "dim");
+  return rows
+    .map((row, index) => {
+      return row
+        .map((cell, column) => {
+          const padded = cell + " ".repeat(widths[column]! - visibleLength(cell));
+          return index === 0 ? paint(padded, "bold") : padded;
+        })
+        .join(separator)
+        .trimEnd();
+    })
+    .join("\n");
+}
+
+function renderBlocks(tokens: Token[], paint: Paint): string {
+  return tokens
+    .map((token) => {
+      switch (token.type) {
+        case "space":
+          return "";
+        case "heading":
+          return paint(renderInline(token.tokens, paint), ...(token.depth === 1 ? (["bold", "underline"] as const) : (["bold"] as const)));
+        case "paragraph":
+          return renderInline(token.tokens, paint);
+        case "text":
+          return token.tokens ? renderInline(token.tokens, paint) : token.text;
+        case "code":
+          return gutter(highlightAnsi(token.text, getLanguage(token.lang), paint), paint);
+        case "blockquote":
+          return gutter(renderBlocks(token.tokens ?? [], paint), paint);
+        case "list":
+          return (token as Tokens.List).items
+            .map((item, index) => {
+              const bullet = token.ordered ? `${Number(token.start || 1) + index}. ` : "• ";
+              return indent(renderBlocks(item.tokens, paint), bullet);
+            })
+            .join("\n");
+        case "table":
+          return renderTable(token as Tokens.Table, paint);
+        case "hr":
+          return paint("─".repeat(20), "dim");
+        default:
+          return "text" in token && typeof token.text === "string" ? token.text : token.raw;
+      }
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Turn Markdown into terminal text
+ */
+function renderMarkdownAnsi(text: string, paint: Paint): string {
+  return renderBlocks(marked.lexer(text), paint).trimEnd();
+}
+
+// ============================================
+// Messages
+// ============================================
+
+function getResultText(result: ToolResultBlock): string {
+  if (typeof result.content === "string") {
+    return result.content;
+  }
+  return result.content
+    .map((item) => {
+      const part =
+        typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+      return part.type === "text" && typeof part.text === "string"
+        ? part.text
+        : `[${String(part.type ?? "content")}]`;
+    })
+    .join("\n");
+}
+
+function renderToolResult(result: ToolResultBlock, paint: Paint): string {
+  // Paired results are parsed by pairToolResults, without escaping
+  const text = escapeControls(getResultText(result)).trim();
+  const output = text ? truncateLines(text, MAX_OUTPUT_LINES, paint) : paint("(no output)", "dim");
+  return indent(result.is_error ? paint(output, "red") : output, paint("  ⎿ ", "dim"), "    ");
+}
+
+function renderDiff(oldString: string, newString: string, paint: Paint): string {
+  return diffLines(oldString, newString)
+    .map((line) =>
+      line.type === "removed"
+        ? paint(`-${line.text}`, "red")
+        : line.type === "added"
+          ? paint(`+${line.text}`, "green")
+          : paint(` ${line.text}`, "dim")
+    )
+    .join("\n");
+}
+
+/**
+ * A tool call: a header with the tool and what it works on, then its
+ * command, content or diff where the tool is known
+ */
+function renderToolUse(use: ToolUseBlock, paint: Paint): string {
+  const { input } = use;
+  const header = (detail = "") =>
+    `${paint("⏺", "yellow")} ${paint(use.name, "bold", "yellow")}${detail ? ` ${detail}` : ""}`;
+  const filePath = getFilePath(use);
+
+  switch (use.name) {
+    case "Bash":
+      return [
+        header(input.description ? paint(String(input.description), "dim") : ""),
+        indent(highlightAnsi(String(input.command ?? ""), "bash", paint), paint("  $ ", "dim"), "    "),
+      ].join("\n");
+    case "Write":
+      return [
+        header(filePath),
+        gutter(
+          truncateLines(
+            highlightAnsi(String(input.content ?? ""), languageFromPath(filePath), paint),
+            MAX_CODE_LINES,
+            paint
+          ),
+          paint,
+          "  "
+        ),
+      ].join("\n");
+    case "Edit":
+    case "MultiEdit":
+      return [
+        header(filePath),
+        indent(
+          getFileEdits(use)
+            .map((edit) => renderDiff(edit.oldString, edit.newString, paint))
+            .join(`\n${paint("⋯", "dim")}\n`),
+          "  "
+        ),
+      ].join("\n");
+    case "Read":
+      return header(`${filePath}${input.offset ? paint(` from line ${Number(input.offset)}`, "dim") : ""}`);
+    case "Glob":
+    case "Grep":
+      return header(
+        `${paint(String(input.pattern ?? ""), "cyan")}${input.path ? paint(` in ${String(input.path)}`, "dim") : ""}`
+      );
+    case "TodoWrite": {
+      const todos = Array.isArray(input.todos) ? input.todos : [];
+      return [
+        header(),
+        ...todos.map((item: unknown) => {
+          const todo =
+            typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+          return todo.status === "completed"
+            ? paint(`  ☑ ${String(todo.content ?? "")}`, "dim")
+            : `  ☐ ${String(todo.content ?? "")}`;
+        }),
+      ].join("\n");
+    }
+    default:
+      return [
+        header(),
+        indent(paint(truncateLines(JSON.stringify(input, null, 2), MAX_CODE_LINES, paint), "dim"), "  "),
+      ].join("\n");
+  }
+}
+
+function renderBlock(
+  block: MessageContentBlock,
+  message: ConversationMessage,
+  pairing: ToolPairing,
+  paint: Paint
+): string {
+  switch (block.type) {
+    case "text":
+      return renderMarkdownAnsi((block as { text: string }).text, paint);
+    case "thinking":
+      return indent(
+        paint((block as { thinking: string }).thinking.trim(), "dim", "italic"),
+        paint("✻ ", "dim")
+      );
+    case "redacted_thinking":
+      return paint("✻ [redacted thinking]", "dim");
+    case "image":
+      return paint("[image]", "dim");
+    case "document":
+      return paint("[document]", "dim");
+    case "tool_use": {
+      const use = block as ToolUseBlock;
+      const parts = [renderToolUse(use, paint)];
+      const run = isSubagentToolUse(block) ? message.subagents?.[use.id] : undefined;
+      if (run) {
+        parts.push(indent(renderMessages(run, paint), paint("  ┃ ", "dim")));
+      }
+      const result = pairing.results.get(use.id);
+      if (result) {
+        parts.push(renderToolResult(result.block, paint));
+      }
+      return parts.join("\n");
+    }
+    case "tool_result": {
+      // Results are shown under their call; only orphans are left here
+      const result = block as ToolResultBlock;
+      return isPairedResult(result, pairing) ? "" : renderToolResult(result, paint);
+    }
+    default:
+      return paint(`[${block.type}]`, "dim");
+  }
+}
+
+/**
+ * Render messages in order, with a header at the start of each assistant
+ * turn and tool results under their calls
+ */
+function renderMessages(messages: ConversationMessage[], paint: Paint, skipFirstUser = false): string {
+  const pairing = pairToolResults(messages);
+  const parts: string[] = [];
+  let inTurn = false;
+
+  messages.forEach((message, index) => {
+    if (message.resumed) {
+      parts.push(paint(`── Session resumed: ${escapeControls(message.resumed.sessionId)} ──`, "dim"));
+    }
+
+    let parsed: Message;
+    try {
+      parsed = parseMessage(message.messageJson);
+    } catch {
+      return;
+    }
+    const isPrompt = message.type === "user" && !isToolResultMessage(parsed);
+    if (isPrompt && skipFirstUser && index === 0) {
+      return;
+    }
+
+    const body =
+      typeof parsed.content === "string"
+        ? renderMarkdownAnsi(parsed.content, paint)
+        : parsed.content
+            .map((block) => renderBlock(block, message, pairing, paint))
+            .filter(Boolean)
+            .join("\n\n");
+    if (!body) return;
+
+    if (message.type === "assistant" && !inTurn) {
+      parts.push(paint(`Assistant · ${formatTime(message.timestamp)}`, "bold", "magenta"));
+    } else if (isPrompt) {
+      parts.push(paint(`User · ${formatTime(message.timestamp)}`, "bold", "blue"));
+    }
+    inTurn = message.type === "assistant";
+    parts.push(body);
+  });
+
+  return parts.join("\n\n");
+}
+
+function renderConversation(
+  conversation: Conversation,
+  promptNum: number,
+  paint: Paint,
+  width: number
+): string {
+  const time = formatTime(conversation.timestamp);
+  if (conversation.isContinuation) {
+    return [
+      paint(`${"─".repeat(width)}`, "dim"),
+      paint(`Context compacted · ${time}`, "bold", "yellow"),
+      paint(truncateLines(escapeControls(conversation.userText.trim()), MAX_SUMMARY_LINES, paint), "dim"),
+      renderMessages(conversation.messages.slice(1), paint),
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  const [first] = conversation.messages;
+  let prompt = renderMarkdownAnsi(escapeControls(conversation.userText), paint);
+  if (first?.type === "user") {
+    try {
+      const content = parseMessage(first.messageJson).content;
+      if (typeof content === "string") {
+        prompt = renderMarkdownAnsi(content, paint);
+      }
+    } catch {
+      // Keep the prompt text of the conversation
+    }
+  }
+
+  return [
+    paint("━".repeat(width), "cyan"),
+    `${paint(`#${promptNum} User`, "bold", "blue")} ${paint(`· ${time}`, "dim")}`,
+    prompt,
+    renderMessages(conversation.messages, paint, true),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// ============================================
+// Sessions
+// ============================================
+
+/**
+ * Render a session for reading in a terminal
+ *
+ * Follows the active branch and applies the `include` and `exclude`
+ * filters, as `renderTranscript` does.
+ */
+export function renderTerminal(
+  session: SessionData,
+  options: TerminalRenderOptions = {}
+): TerminalTranscript {
+  const paint = createPaint(options.color ?? true);
+  const width = options.width ?? DEFAULT_WIDTH;
+  const { loglines } = applyBranchSelection(
+    session.loglines,
+    selectBranch(session.loglines, options.leafUuid)
+  );
+  const conversations = groupLoglinesToConversations(
+    filterLoglines(loglines, createLoglineFilter(options)),
+    { subagents: createSubagentCollector() }
+  );
+
+  const metadata = collectSessionMetadata(loglines);
+  const details = [
+    metadata.cwd,
+    metadata.gitBranches.join(", "),
+    metadata.models.join(", "),
+    metadata.startTime && formatTime(metadata.startTime),
+  ].filter(Boolean);
+
+  const lines = [paint(escapeControls(options.title ?? metadata.title ?? "Transcript"), "bold")];
+  if (details.length > 0) {
+    lines.push(paint(escapeControls(details.join(" · ")), "dim"));
+  }
+  const promptLines: number[] = [];
+  let promptNum = 0;
+
+  let lineCount = lines.length;
+
+  for (const conversation of conversations) {
+    lines.push("");
+    lineCount++;
+    if (!conversation.isContinuation) {
+      promptNum++;
+      promptLines.push(lineCount);
+    }
+    // Kept whole: a long conversation has too many lines to spread into push
+    const text = renderConversation(conversation, promptNum, paint, width);
+    lines.push(text);
+    lineCount += text.split("\n").length;
+  }
+
+  return { text: lines.join("\n") + "\n", promptLines };
+}
+
+/**
+ * Parse one or more session files and render them for a terminal
+ *
+ * Sub-agent files (`agent-*.jsonl`) of the same session are picked up from
+ * the session's directory.
+ */
+export async function renderTerminalFromFile(
+  input: string | string[],
+  options: TerminalRenderOptions & ParseOptions & SessionSourceOptions = {}
+): Promise<TerminalTranscript> {
+  const filePaths = await resolveSessionFiles(Array.isArray(input) ? input : [input], options);
+  const sessions: SessionData[] = [];
+  for (const filePath of filePaths) {
+    sessions.push(await parseSessionFile(filePath, options));
+    sessions.push({ loglines: await loadAgentLoglines(filePath, options) });
+  }
+  return renderTerminal(mergeSessions(sessions), options);
+}
@@ -0,0 +1,425 @@
+/**
+ * Session timeline page
+ *
+ * Plots every prompt, assistant turn and tool call on a time axis as static
+ * SVG, each linked to its anchor on its page. Pauses of `IDLE_GAP_MS` or
+ * more are cut out of the axis and drawn as narrow bands, so sessions spread
+ * over hours or days stay readable.
+ */
+
+import type { VNode } from "preact";
+import type { Message, ToolUseBlock } from "../schemas.js";
+import type { AnchorRegistry } from "./anchors.js";
+import { ReportPagination, type Conversation, type PageLink } from "./pagination.js";
+import { pairToolResults, formatElapsed } from "./tool-pairs.js";
+import { formatDuration } from "./index-page.js";
+import { renderDocument } from "./jsx.js";
+
+/** Filename of the timeline page */
+export const TIMELINE_FILENAME = "timeline.html";
+
+/** Pauses at least this long are shown as idle gaps */
+export const IDLE_GAP_MS = 5 * 60_000;
+
+/**
+ * Something that happened in the session, with its time span in epoch ms
+ */
+export interface TimelineEvent {
+  kind: "prompt" | "compaction" | "assistant" | "tool";
+  start: number;
+  /** Same as `start` for prompts and for tool calls without a result */
+  end: number;
+  /** Prompt preview or tool name */
+  label: string;
+  /** Link to the message or block, e.g. "page-001.html#tool-toolu_01" */
+  href: string;
+  /** Set on tool calls whose result is an error */
+  isError?: boolean;
+}
+
+/**
+ * A pause in which nothing happened
+ */
+export interface TimelineGap {
+  start: number;
+  end: number;
+}
+
+/**
+ * Events of a session in order of start time, and the idle gaps between them
+ */
+export interface Timeline {
+  events: TimelineEvent[];
+  gaps: TimelineGap[];
+}
+
+/**
+ * Collects timeline events as conversations are rendered
+ */
+export interface TimelineCollector {
+  /** Add a conversation after rendering it, so its anchors are known */
+  add(conversation: Conversation, pageFile: string, anchors: AnchorRegistry): void;
+  finish(): Timeline;
+}
+
+/**
+ * Create a collector for the timeline of a transcript
+ *
+ * An assistant turn is a run of assistant messages up to the next tool reply
+ * or prompt, timed from the message it answers. Sub-agent runs and abandoned
+ * branches are left out.
+ */
+export function createTimelineCollector(): TimelineCollector {
+  const events: TimelineEvent[] = [];
+
+  return {
+    add(conversation, pageFile, anchors) {
+      const first = conversation.messages[0];
+      const promptTime = Date.parse(conversation.timestamp);
+      if (first && !Number.isNaN(promptTime)) {
+        events.push({
+          kind: conversation.isContinuation ? "compaction" : "prompt",
+          start: promptTime,
+          end: promptTime,
+          label: conversation.isContinuation ? "Context compacted" : conversation.userText,
+          href: `${pageFile}#${anchors.message(first)}`,
+        });
+      }
+
+      const pairing = pairToolResults(conversation.messages);
+      let turn: TimelineEvent | null = null;
+      let answeredTime = NaN;
+
+      for (const message of conversation.messages) {
+        const time = Date.parse(message.timestamp);
+        if (message.type !== "assistant") {
+          turn = null;
+          answeredTime = time;
+          continue;
+        }
+        if (Number.isNaN(time)) continue;
+
+        const msgId = anchors.message(message);
+        if (turn) {
+          turn.end = Math.max(turn.end, time);
+        } else {
+          const start = answeredTime <= time ? answeredTime : time;
+          turn = {
+            kind: "assistant",
+            start,
+            end: time,
+            label: "Assistant",
+            href: `${pageFile}#${msgId}`,
+          };
+          events.push(turn);
+        }
+
+        const content = (JSON.parse(message.messageJson) as Message).content;
+        if (!Array.isArray(content)) continue;
+
+        for (const block of content) {
+          if (block.type !== "tool_use") continue;
+          const use = block as ToolUseBlock;
+          const result = pairing.results.get(use.id);
+          const resultTime = result ? Date.parse(result.timestamp) : NaN;
+          events.push({
+            kind: "tool",
+            start: time,
+            end: Number.isNaN(resultTime) ? time : Math.max(time, resultTime),
+            label: use.name,
+            href: `${pageFile}#${anchors.tool(use.id) ?? msgId}`,
+            isError: result?.block.is_error || undefined,
+          });
+        }
+      }
+    },
+
+    finish() {
+      const sorted = [...events].sort((a, b) => a.start - b.start);
+      const gaps: TimelineGap[] = [];
+      let lastEnd = sorted[0]?.start ?? 0;
+
+      for (const event of sorted) {
+        if (event.start - lastEnd >= IDLE_GAP_MS) {
+          gaps.push({ start: lastEnd, end: event.start });
+        }
+        lastEnd = Math.max(lastEnd, event.end);
+      }
+
+      return { events: sorted, gaps };
+    },
+  };
+}
+
+// ============================================
+// Layout
+// ============================================
+
+/** Horizontal scale of the chart */
+const PIXELS_PER_MS = 0.25 / 1000;
+/** Narrowest chart, for short sessions */
+const MIN_CHART_WIDTH = 640;
+/** Width an idle gap is drawn at, whatever its length */
+const GAP_WIDTH = 48;
+/** Width of the lane labels on the left */
+const LABEL_WIDTH = 80;
+const AXIS_HEIGHT = 28;
+const ROW_HEIGHT = 18;
+const ROW_GAP = 4;
+const LANE_GAP = 10;
+/** Shortest segment, so instant events stay visible */
+const MIN_SEGMENT_WIDTH = 3;
+/** Closest tick labels may be */
+const MIN_TICK_SPACING = 100;
+const TICK_INTERVALS_MS = [
+  10_000, 30_000, 60_000, 5 * 60_000, 15 * 60_000, 30 * 60_000, 3_600_000, 3 * 3_600_000,
+  6 * 3_600_000, 24 * 3_600_000,
+];
+
+/**
+ * Map times to x positions, with every idle gap squeezed to `GAP_WIDTH`
+ */
+function createTimeScale(start: number, gaps: TimelineGap[], pixelsPerMs: number) {
+  const toX = (time: number): number => {
+    let removed = 0;
+    let passed = 0;
+    for (const gap of gaps) {
+      if (time <= gap.start) break;
+      if (time < gap.end) {
+        const gapX = LABEL_WIDTH + (gap.start - start - removed) * pixelsPerMs + passed * GAP_WIDTH;
+        return gapX + ((time - gap.start) / (gap.end - gap.start)) * GAP_WIDTH;
+      }
+      removed += gap.end - gap.start;
+      passed++;
+    }
+    return LABEL_WIDTH + (time - start - removed) * pixelsPerMs + passed * GAP_WIDTH;
+  };
+  return (time: number): number => roundPixels(toX(time));
+}
+
+/**
+ * Round a length to tenths of a pixel, which are plenty and keep the SVG small
+ */
+export function roundPixels(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Format an axis label, "10:42" in UTC, with the day in front on the first
+ * label of each day
+ */
+export function formatTick(time: number, interval: number, previousDay: string | undefined) {
+  const iso = new Date(time).toISOString();
+  const day = iso.slice(5, 10);
+  const clock = iso.slice(11, interval < 60_000 ? 19 : 16);
+  return { day, label: day !== previousDay ? `${day} ${clock}` : clock };
+}
+
+/**
+ * Spread overlapping segments over rows
+ *
+ * @returns The row of each segment, and the number of rows
+ */
+function assignRows(segments: Array<{ x: number; width: number }>): { rows: number[]; count: number } {
+  const rowEnds: number[] = [];
+  const rows = segments.map(({ x, width }) => {
+    let row = rowEnds.findIndex((end) => end < x);
+    if (row === -1) {
+      row = rowEnds.length;
+    }
+    rowEnds[row] = x + width;
+    return row;
+  });
+  return { rows, count: Math.max(1, rowEnds.length) };
+}
+
+// ============================================
+// Components
+// ============================================
+
+/** Lane labels and the event kinds drawn in each lane */
+const LANES = [
+  { label: "Prompts", kinds: ["prompt", "compaction"] },
+  { label: "Assistant", kinds: ["assistant"] },
+  { label: "Tools", kinds: ["tool"] },
+] as const;
+
+// Latest end time of a list of events
+function getEnd(events: TimelineEvent[]): number {
+  return events.reduce((end, event) => Math.max(end, event.end), events[0]?.start ?? 0);
+}
+
+function describeEvent(event: TimelineEvent): string {
+  const duration = event.end - event.start;
+  const parts = [event.label];
+  if (event.kind === "tool" || event.kind === "assistant") {
+    parts.push(formatElapsed(duration));
+  }
+  if (event.isError) {
+    parts.push("error");
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * SVG chart of a session timeline
+ */
+export function TimelineChart({ timeline }: { timeline: Timeline }): VNode {
+  const { events, gaps } = timeline;
+  const start = events[0]?.start ?? 0;
+  const end = getEnd(events);
+  const idleMs = gaps.reduce((sum, gap) => sum + gap.end - gap.start, 0);
+  const activeMs = Math.max(1, end - start - idleMs);
+  const pixelsPerMs = Math.max(PIXELS_PER_MS, MIN_CHART_WIDTH / activeMs);
+  const x = createTimeScale(start, gaps, pixelsPerMs);
+  const width = Math.ceil(x(end) + MIN_SEGMENT_WIDTH + 16);
+
+  // Lay the lanes out from the top, each as tall as its rows need
+  let laneTop = AXIS_HEIGHT;
+  const lanes = LANES.map((lane) => {
+    const laneEvents = events.filter((event) =>
+      (lane.kinds as readonly string[]).includes(event.kind)
+    );
+    const segments = laneEvents.map((event) => ({
+      event,
+      x: x(event.start),
+      width: Math.max(MIN_SEGMENT_WIDTH, roundPixels(x(event.end) - x(event.start))),
+    }));
+    const { rows, count } = assignRows(segments);
+    const top = laneTop;
+    laneTop += count * (ROW_HEIGHT + ROW_GAP) + LANE_GAP;
+    return { ...lane, top, segments, rows };
+  });
+  const height = laneTop;
+
+  const interval =
+    TICK_INTERVALS_MS.find((ms) => ms * pixelsPerMs >= MIN_TICK_SPACING) ??
+    TICK_INTERVALS_MS[TICK_INTERVALS_MS.length - 1]!;
+  const spans = [start, ...gaps.map((gap) => gap.end)].map((spanStart, index) => ({
+    start: spanStart,
+    end: gaps[index]?.start ?? end,
+  }));
+  const ticks: Array<{ x: number; label: string }> = [];
+  let previousDay: string | undefined;
+  for (const span of spans) {
+    for (let time = Math.ceil(span.start / interval) * interval; time <= span.end; time += interval) {
+      const tick = formatTick(time, interval, previousDay);
+      previousDay = tick.day;
+      ticks.push({ x: x(time), label: tick.label });
+    }
+  }
+
+  return (
+    <svg
+      class="timeline-chart"
+      xmlns="http://www.w3.org/2000/svg"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+    >
+      {ticks.map((tick) => (
+        <g class="timeline-tick">
+          <line x1={tick.x} y1={AXIS_HEIGHT - 6} x2={tick.x} y2={height} />
+          <text x={tick.x + 3} y={AXIS_HEIGHT - 10}>
+            {tick.label}
+          </text>
+        </g>
+      ))}
+      {gaps.map((gap) => (
+        <g class="timeline-gap">
+          <title>Idle for {formatDuration(gap.end - gap.start)}</title>
+          <rect x={x(gap.start)} y={AXIS_HEIGHT - 4} width={GAP_WIDTH} height={height - AXIS_HEIGHT} />
+          <text x={x(gap.start) + GAP_WIDTH / 2} y={AXIS_HEIGHT - 10}>
+            {formatDuration(gap.end - gap.start)}
+          </text>
+        </g>
+      ))}
+      {events
+        .filter((event) => event.kind === "compaction")
+        .map((event) => (
+          <line
+            class="timeline-compaction-line"
+            x1={x(event.start)}
+            y1={AXIS_HEIGHT}
+            x2={x(event.start)}
+            y2={height}
+          />
+        ))}
+      {lanes.map((lane) => (
+        <g class="timeline-lane">
+          <text class="timeline-lane-label" x={4} y={lane.top + ROW_HEIGHT - 5}>
+            {lane.label}
+          </text>
+          {lane.segments.map(({ event, x: segmentX, width: segmentWidth }, index) => (
+            <a href={event.href}>
+              <rect
+                class={`timeline-${event.kind}${event.isError ? " timeline-error" : ""}`}
+                x={segmentX}
+                y={lane.top + lane.rows[index]! * (ROW_HEIGHT + ROW_GAP)}
+                width={segmentWidth}
+                height={ROW_HEIGHT}
+                rx={2}
+              >
+                <title>{describeEvent(event)}</title>
+              </rect>
+            </a>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * Timeline page body: title, summary line and chart
+ */
+export function TimelinePage({
+  title,
+  timeline,
+  reports,
+}: {
+  title: string;
+  timeline: Timeline;
+  /** Report pages linked from the navigation bar */
+  reports: PageLink[];
+}): VNode {
+  const { events, gaps } = timeline;
+  const count = (kind: TimelineEvent["kind"]) => events.filter((event) => event.kind === kind).length;
+  const start = events[0]?.start;
+  const end = getEnd(events);
+  const idleMs = gaps.reduce((sum, gap) => sum + gap.end - gap.start, 0);
+
+  const parts = [
+    `${count("prompt")} prompt${count("prompt") !== 1 ? "s" : ""}`,
+    `${count("tool")} tool call${count("tool") !== 1 ? "s" : ""}`,
+    `${count("compaction")} compaction${count("compaction") !== 1 ? "s" : ""}`,
+  ];
+  if (start !== undefined) {
+    parts.push(`${formatDuration(end - start - idleMs)} active`, `${formatDuration(idleMs)} idle`);
+  }
+
+  return (
+    <>
+      <h1>{title}</h1>
+      <ReportPagination current={TIMELINE_FILENAME} reports={reports} />
+      <p class="timeline-summary">{parts.join(" · ")} · times in UTC</p>
+      {events.length > 0 ? (
+        <div class="timeline-scroll">
+          <TimelineChart timeline={timeline} />
+        </div>
+      ) : (
+        <p class="timeline-summary">No timestamped messages to plot.</p>
+      )}
+    </>
+  );
+}
+
+/**
+ * Render the timeline page
+ */
+export function renderTimelinePage(timeline: Timeline, title: string, reports: PageLink[]): string {
+  return renderDocument({
+    title: `${title} - Timeline`,
+    children: <TimelinePage title={title} timeline={timeline} reports={reports} />,
+  });
+}
@@ -0,0 +1,136 @@
+/**
+ * Pair tool results with the calls that produced them
+ *
+ * Results arrive in a later "tool reply" message and are linked back to
+ * their call only through `tool_use_id`. Pairing lets a call and its result
+ * be rendered together as one tool card.
+ */
+
+import type { Message, ToolResultBlock, ToolUseBlock } from "../schemas.js";
+import type { ConversationMessage } from "./pagination.js";
+
+/**
+ * A tool result and when it arrived
+ */
+export interface PairedToolResult {
+  block: ToolResultBlock;
+  timestamp: string;
+}
+
+/**
+ * Calls and results of a list of messages, linked by tool_use_id
+ */
+export interface ToolPairing {
+  /** Results keyed by the id of the call they answer; only calls in the list */
+  results: Map<string, PairedToolResult>;
+  /** Every tool call in the list, keyed by id */
+  calls: Map<string, ToolUseBlock>;
+}
+
+function parseMessage(message: ConversationMessage): Message | null {
+  try {
+    return JSON.parse(message.messageJson) as Message;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Link the tool results of a list of messages to their calls
+ */
+export function pairToolResults(messages: ConversationMessage[]): ToolPairing {
+  const calls = new Map<string, ToolUseBlock>();
+  const candidates: PairedToolResult[] = [];
+
+  for (const message of messages) {
+    const content = parseMessage(message)?.content;
+    if (!Array.isArray(content)) continue;
+
+    for (const block of content) {
+      if (message.type === "assistant" && block.type === "tool_use") {
+        const use = block as ToolUseBlock;
+        calls.set(use.id, use);
+      } else if (message.type === "user" && block.type === "tool_result") {
+        candidates.push({ block: block as ToolResultBlock, timestamp: message.timestamp });
+      }
+    }
+  }
+
+  const results = new Map<string, PairedToolResult>();
+  for (const candidate of candidates) {
+    const id = candidate.block.tool_use_id;
+    if (id && calls.has(id) && !results.has(id)) {
+      results.set(id, candidate);
+    }
+  }
+
+  return { results, calls };
+}
+
+/**
+ * Drop the results that are shown with their call from a tool reply
+ *
+ * @returns The JSON of the remaining message, or null if nothing is left
+ */
+export function removePairedResults(messageJson: string, pairing: ToolPairing): string | null {
+  const message = JSON.parse(messageJson) as Message;
+  if (!Array.isArray(message.content)) {
+    return messageJson;
+  }
+
+  const content = message.content.filter(
+    (block) => block.type !== "tool_result" || !isPairedResult(block as ToolResultBlock, pairing)
+  );
+  if (content.length === message.content.length) {
+    return messageJson;
+  }
+  return content.length > 0 ? JSON.stringify({ ...message, content }) : null;
+}
+
+/**
+ * Check if a tool result is shown with its call
+ */
+export function isPairedResult(block: ToolResultBlock, pairing: ToolPairing): boolean {
+  return Boolean(block.tool_use_id && pairing.results.has(block.tool_use_id));
+}
+
+/**
+ * Get the text of a successful tool result
+ *
+ * @returns null for errors and results with images or other non-text parts,
+ *   which keep the generic rendering
+ */
+export function getResultText(result: ToolResultBlock): string | null {
+  if (result.is_error) {
+    return null;
+  }
+  if (typeof result.content === "string") {
+    return result.content;
+  }
+  const texts = result.content.map((item) =>
+    typeof item === "object" &&
+    item !== null &&
+    "type" in item &&
+    item.type === "text" &&
+    "text" in item &&
+    typeof item.text === "string"
+      ? item.text
+      : null
+  );
+  return texts.every((text) => text !== null) ? texts.join("\n") : null;
+}
+
+/**
+ * Format the time between a call and its result, e.g. "850ms", "4.2s" or "2m 5s"
+ */
+export function formatElapsed(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.max(0, Math.round(ms))}ms`;
+  }
+  if (ms < 60_000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+}
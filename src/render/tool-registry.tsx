@@ -0,0 +1,323 @@
+/**
+ * Tool renderer registry
+ *
+ * Maps tool names and glob patterns to renderers. Custom renderers passed in
+ * `RenderOptions.toolRenderers` are tried before the built-in ones for
+ * Claude Code's file, shell, search, web and todo tools.
+ */
+
+import type { VNode } from "preact";
+import type { ToolResultBlock, ToolUseBlock } from "../schemas.js";
+import type { ToolRenderContext, ToolRenderer, ToolRenderers } from "../types.js";
+import { renderToHtml } from "./jsx.js";
+import { getResultText } from "./tool-pairs.js";
+import { getFileEdits, getFilePath } from "./file-tracker.js";
+import { languageFromPath } from "./highlight.js";
+import {
+  WriteToolBlock,
+  EditToolBlock,
+  BashToolBlock,
+  TodoWriteBlock,
+  ReadToolBlock,
+  ReadResultBlock,
+  GrepToolBlock,
+  GrepResultBlock,
+  GlobToolBlock,
+  GlobResultBlock,
+  WebFetchToolBlock,
+  WebFetchResultBlock,
+  WebSearchToolBlock,
+  WebSearchResultBlock,
+  MultiEditToolBlock,
+  NotebookEditToolBlock,
+} from "./tool-renderers.js";
+
+/**
+ * Looks up the renderers for a tool and runs them
+ */
+export interface ToolRendererRegistry {
+  /** Render a tool call, or return null to use the generic rendering */
+  renderUse(use: ToolUseBlock, result?: ToolResultBlock, context?: ToolRenderContext): string | null;
+  /** Render a tool result, or return null to use the generic rendering */
+  renderResult(result: ToolResultBlock, use: ToolUseBlock): string | null;
+}
+
+const writeRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <WriteToolBlock
+      filePath={String(use.input.file_path || use.input.filePath || "")}
+      content={String(use.input.content || "")}
+      toolId={use.id}
+    />
+  ),
+};
+
+const editRenderer: ToolRenderer = {
+  renderUse: (use, _result, context) => {
+    const filePath = getFilePath(use);
+    const [edit] = getFileEdits(use);
+    return (
+      <EditToolBlock
+        filePath={filePath}
+        oldString={edit!.oldString}
+        newString={edit!.newString}
+        replaceAll={edit!.replaceAll}
+        startLine={context.locateEdits(filePath, [edit!])[0]}
+        toolId={use.id}
+      />
+    );
+  },
+};
+
+const bashRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <BashToolBlock
+      command={String(use.input.command || "")}
+      description={use.input.description ? String(use.input.description) : undefined}
+      toolId={use.id}
+    />
+  ),
+};
+
+const todoWriteRenderer: ToolRenderer = {
+  renderUse: (use) => {
+    const todos = Array.isArray(use.input.todos)
+      ? use.input.todos.map((item: unknown) => {
+          const todo =
+            typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+          return {
+            content: String(todo.content || ""),
+            status: (todo.status as "pending" | "in_progress" | "completed") || "pending",
+          };
+        })
+      : [];
+    return <TodoWriteBlock todos={todos} toolId={use.id} />;
+  },
+};
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === "" ? undefined : String(value);
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(number) ? number : undefined;
+}
+
+const readRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <ReadToolBlock
+      filePath={String(use.input.file_path || use.input.filePath || "")}
+      offset={optionalNumber(use.input.offset)}
+      limit={optionalNumber(use.input.limit)}
+      toolId={use.id}
+    />
+  ),
+  renderResult: (result, use) => {
+    const output = getResultText(result);
+    return output === null ? null : (
+      <ReadResultBlock output={output} language={languageFromPath(getFilePath(use))} />
+    );
+  },
+};
+
+const grepRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <GrepToolBlock
+      pattern={String(use.input.pattern || "")}
+      path={optionalString(use.input.path)}
+      glob={optionalString(use.input.glob ?? use.input.type)}
+      outputMode={optionalString(use.input.output_mode)}
+      caseInsensitive={Boolean(use.input["-i"])}
+      toolId={use.id}
+    />
+  ),
+  renderResult: (result, use) => {
+    const output = getResultText(result);
+    return output === null ? null : (
+      <GrepResultBlock
+        output={output}
+        outputMode={String(use.input.output_mode || "files_with_matches")}
+      />
+    );
+  },
+};
+
+const globRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <GlobToolBlock
+      pattern={String(use.input.pattern || "")}
+      path={optionalString(use.input.path)}
+      toolId={use.id}
+    />
+  ),
+  renderResult: (result) => {
+    const output = getResultText(result);
+    return output === null ? null : <GlobResultBlock output={output} />;
+  },
+};
+
+const webFetchRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <WebFetchToolBlock
+      url={String(use.input.url || "")}
+      prompt={optionalString(use.input.prompt)}
+      toolId={use.id}
+    />
+  ),
+  renderResult: (result) => {
+    const output = getResultText(result);
+    return output === null ? null : <WebFetchResultBlock output={output} />;
+  },
+};
+
+const webSearchRenderer: ToolRenderer = {
+  renderUse: (use) => {
+    const domains = (value: unknown) =>
+      Array.isArray(value) ? value.map((domain) => String(domain)) : undefined;
+    return (
+      <WebSearchToolBlock
+        query={String(use.input.query || "")}
+        allowedDomains={domains(use.input.allowed_domains)}
+        blockedDomains={domains(use.input.blocked_domains)}
+        toolId={use.id}
+      />
+    );
+  },
+  renderResult: (result) => {
+    const output = getResultText(result);
+    return output === null ? null : <WebSearchResultBlock output={output} />;
+  },
+};
+
+const multiEditRenderer: ToolRenderer = {
+  renderUse: (use, _result, context) => {
+    const filePath = getFilePath(use);
+    const edits = Array.isArray(use.input.edits) ? getFileEdits(use) : [];
+    return (
+      <MultiEditToolBlock
+        filePath={filePath}
+        edits={edits}
+        startLines={context.locateEdits(filePath, edits)}
+        toolId={use.id}
+      />
+    );
+  },
+};
+
+const notebookEditRenderer: ToolRenderer = {
+  renderUse: (use) => (
+    <NotebookEditToolBlock
+      notebookPath={String(use.input.notebook_path || use.input.notebookPath || "")}
+      cellId={optionalString(use.input.cell_id)}
+      cellType={optionalString(use.input.cell_type)}
+      editMode={optionalString(use.input.edit_mode)}
+      newSource={String(use.input.new_source || "")}
+      toolId={use.id}
+    />
+  ),
+};
+
+/**
+ * Renderers for the tools Claude Code ships with
+ */
+export const BUILTIN_TOOL_RENDERERS: ToolRenderers = {
+  write: writeRenderer,
+  mcp_write: writeRenderer,
+  edit: editRenderer,
+  mcp_edit: editRenderer,
+  bash: bashRenderer,
+  mcp_bash: bashRenderer,
+  todowrite: todoWriteRenderer,
+  mcp_todowrite: todoWriteRenderer,
+  read: readRenderer,
+  grep: grepRenderer,
+  glob: globRenderer,
+  webfetch: webFetchRenderer,
+  websearch: webSearchRenderer,
+  multiedit: multiEditRenderer,
+  notebookedit: notebookEditRenderer,
+};
+
+function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) =>
+      char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Check if a tool name matches a registry key (a name or glob pattern)
+ */
+export function matchToolName(pattern: string, toolName: string): boolean {
+  return isGlob(pattern)
+    ? globToRegExp(pattern).test(toolName)
+    : pattern.toLowerCase() === toolName.toLowerCase();
+}
+
+/** Context for calls rendered without the rest of the session */
+const NO_CONTEXT: ToolRenderContext = {
+  locateEdits: (_filePath, edits) => edits.map(() => undefined),
+};
+
+function toHtml(output: VNode | string | null | undefined): string | null {
+  if (output === null || output === undefined) {
+    return null;
+  }
+  return typeof output === "string" ? output : renderToHtml(output);
+}
+
+/**
+ * Create a registry from custom renderers, backed by the built-in ones
+ *
+ * @param toolRenderers - Custom renderers keyed by tool name or glob
+ */
+export function createToolRendererRegistry(
+  toolRenderers: ToolRenderers = {}
+): ToolRendererRegistry {
+  // Custom before built-in; within each, exact names before patterns
+  const entries = [toolRenderers, BUILTIN_TOOL_RENDERERS].flatMap((renderers) => {
+    const all = Object.entries(renderers);
+    return [
+      ...all.filter(([pattern]) => !isGlob(pattern)),
+      ...all.filter(([pattern]) => isGlob(pattern)),
+    ];
+  });
+  const cache = new Map<string, ToolRenderer[]>();
+
+  const find = (toolName: string): ToolRenderer[] => {
+    let renderers = cache.get(toolName);
+    if (!renderers) {
+      renderers = entries
+        .filter(([pattern]) => matchToolName(pattern, toolName))
+        .map(([, renderer]) => renderer);
+      cache.set(toolName, renderers);
+    }
+    return renderers;
+  };
+
+  return {
+    renderUse(use, result, context = NO_CONTEXT) {
+      for (const renderer of find(use.name)) {
+        const html = toHtml(renderer.renderUse?.(use, result, context));
+        if (html !== null) return html;
+      }
+      return null;
+    },
+
+    renderResult(result, use) {
+      for (const renderer of find(use.name)) {
+        const html = toHtml(renderer.renderResult?.(result, use));
+        if (html !== null) return html;
+      }
+      return null;
+    },
+  };
+}
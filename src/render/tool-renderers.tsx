@@ -1,11 +1,31 @@
 import type { VNode } from "preact";
+import type { FileEdit } from "../types.js";
 import { Truncatable } from "./jsx.js";
+import { isWebUrl, renderUntrustedMarkdown } from "./markdown.js";
+import { diffLines, toHunks, toSplitRows, type DiffHunk, type DiffLine } from "./diff.js";
+import { highlightCode, highlightLines, languageFromPath } from "./highlight.js";
 
 // Extract filename from path
 function getFilename(filePath: string): string {
   return filePath.includes('/') ? filePath.split('/').pop()! : filePath;
 }
 
+interface CodeBlockProps {
+  code: string;
+  /** Highlight in this language; without one the code is shown plain */
+  language?: string;
+  className: string;
+}
+
+// Code in a <pre>, highlighted when its language is known
+function CodeBlock({ code, language, className }: CodeBlockProps): VNode {
+  return language ? (
+    <pre class={className} dangerouslySetInnerHTML={{ __html: highlightCode(code, language) }} />
+  ) : (
+    <pre class={className}>{code}</pre>
+  );
+}
+
 interface WriteToolProps {
   filePath: string;
   content: string;
@@ -20,7 +40,9 @@ export function WriteToolBlock({ filePath, content, toolId }: WriteToolProps): V
         <span class="file-tool-icon">📝</span> Write <span class="file-tool-path">{filename}</span>
       </div>
       <div class="file-tool-fullpath">{filePath}</div>
-      <Truncatable><pre class="file-content">{content}</pre></Truncatable>
+      <Truncatable>
+        <CodeBlock code={content} language={languageFromPath(filePath)} className="file-content" />
+      </Truncatable>
     </div>
   );
 }
@@ -30,10 +52,19 @@ interface EditToolProps {
   oldString: string;
   newString: string;
   replaceAll?: boolean;
+  /** Line the edit starts on, when an earlier Read shows it */
+  startLine?: number;
   toolId: string;
 }
 
-export function EditToolBlock({ filePath, oldString, newString, replaceAll, toolId }: EditToolProps): VNode {
+export function EditToolBlock({
+  filePath,
+  oldString,
+  newString,
+  replaceAll,
+  startLine,
+  toolId,
+}: EditToolProps): VNode {
   const filename = getFilename(filePath);
   return (
     <div class="file-tool edit-tool" data-tool-id={toolId}>
@@ -43,19 +74,134 @@ export function EditToolBlock({ filePath, oldString, newString, replaceAll, tool
       </div>
       <div class="file-tool-fullpath">{filePath}</div>
       <Truncatable>
-        <div class="edit-section edit-old">
-          <div class="edit-label">−</div>
-          <pre class="edit-content">{oldString}</pre>
-        </div>
-        <div class="edit-section edit-new">
-          <div class="edit-label">+</div>
-          <pre class="edit-content">{newString}</pre>
-        </div>
+        <DiffView
+          oldString={oldString}
+          newString={newString}
+          startLine={startLine}
+          language={languageFromPath(filePath)}
+        />
       </Truncatable>
     </div>
   );
 }
 
+interface DiffTextProps {
+  line: DiffLine | undefined;
+  /** Highlighted HTML of the whole line */
+  html?: string;
+  language?: string;
+}
+
+function DiffText({ line, html, language }: DiffTextProps): VNode {
+  if (!line) return <></>;
+
+  if (line.segments) {
+    // Changed words are highlighted on their own, as they cut across tokens
+    return (
+      <>
+        {line.segments.map((segment) => {
+          const text = language ? (
+            <span dangerouslySetInnerHTML={{ __html: highlightCode(segment.text, language) }} />
+          ) : (
+            segment.text
+          );
+          return segment.changed ? <span class="diff-word">{text}</span> : text;
+        })}
+      </>
+    );
+  }
+  return html !== undefined ? <span dangerouslySetInnerHTML={{ __html: html }} /> : <>{line.text}</>;
+}
+
+const DIFF_SIGNS = { context: " ", removed: "−", added: "+" };
+
+interface DiffViewProps {
+  oldString: string;
+  newString: string;
+  /** Show line numbers from this line; without it the diff is unnumbered */
+  startLine?: number;
+  /** Language of the edited file */
+  language?: string;
+}
+
+/**
+ * Unified and side-by-side diff of an edit, switched with a checkbox
+ */
+export function DiffView({ oldString, newString, startLine, language }: DiffViewProps): VNode {
+  const hunks = toHunks(diffLines(oldString, newString, startLine));
+  if (hunks.length === 0) {
+    return <div class="diff-unchanged">No changes</div>;
+  }
+
+  const firstLine = startLine ?? 1;
+  const oldHtml = language ? highlightLines(oldString, language) : [];
+  const newHtml = language ? highlightLines(newString, language) : [];
+  const text = (line: DiffLine | undefined) => (
+    <DiffText
+      line={line}
+      html={
+        line?.type === "added"
+          ? newHtml[line.newNumber! - firstLine]
+          : line && oldHtml[line.oldNumber! - firstLine]
+      }
+      language={language}
+    />
+  );
+
+  const numbered = startLine !== undefined;
+  // Numbered diffs get a "@@" header per hunk; unnumbered ones just a gap between hunks
+  const hunkHeader = (hunk: DiffHunk, index: number, colspan: number) =>
+    numbered ? (
+      <tr class="diff-hunk">
+        <td colspan={colspan}>
+          @@ -{hunk.oldStart},{hunk.oldCount} +{hunk.newStart},{hunk.newCount} @@
+        </td>
+      </tr>
+    ) : index > 0 ? (
+      <tr class="diff-hunk">
+        <td colspan={colspan}>⋯</td>
+      </tr>
+    ) : null;
+
+  return (
+    <div class="diff">
+      <label class="diff-toggle">
+        <input type="checkbox" class="diff-split-toggle" /> Side by side
+      </label>
+      <table class="diff-table diff-unified">
+        {hunks.map((hunk, index) => (
+          <tbody>
+            {hunkHeader(hunk, index, numbered ? 4 : 2)}
+            {hunk.lines.map((line) => (
+              <tr class={`diff-line diff-${line.type}`}>
+                {numbered && <td class="diff-num">{line.oldNumber}</td>}
+                {numbered && <td class="diff-num">{line.newNumber}</td>}
+                <td class="diff-sign">{DIFF_SIGNS[line.type]}</td>
+                <td class="diff-text">{text(line)}</td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+      <table class="diff-table diff-split">
+        {hunks.map((hunk, index) => (
+          <tbody>
+            {hunkHeader(hunk, index, numbered ? 4 : 2)}
+            {toSplitRows(hunk.lines).map(({ left, right }) => (
+              <tr class="diff-line">
+                {numbered && <td class="diff-num">{left?.oldNumber}</td>}
+                <td class={`diff-text diff-${left?.type ?? "empty"}`}>{text(left)}</td>
+                {numbered && <td class="diff-num">{right?.newNumber}</td>}
+                <td class={`diff-text diff-${right?.type ?? "empty"}`}>{text(right)}</td>
+              </tr>
+            ))}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+}
+
 interface BashToolProps {
   command: string;
   description?: string;
@@ -67,7 +213,9 @@ export function BashToolBlock({ command, description, toolId }: BashToolProps):
     <div class="tool-use bash-tool" data-tool-id={toolId}>
       <div class="tool-header"><span class="tool-icon">$</span> Bash</div>
       {description && <div class="tool-description">{description}</div>}
-      <Truncatable><pre class="bash-command">{command}</pre></Truncatable>
+      <Truncatable>
+        <CodeBlock code={command} language="bash" className="bash-command" />
+      </Truncatable>
     </div>
   );
 }
@@ -106,3 +254,490 @@ export function TodoWriteBlock({ todos, toolId }: TodoWriteProps): VNode {
     </div>
   );
 }
+
+interface ReadToolProps {
+  filePath: string;
+  offset?: number;
+  limit?: number;
+  toolId: string;
+}
+
+export function ReadToolBlock({ filePath, offset, limit, toolId }: ReadToolProps): VNode {
+  const filename = getFilename(filePath);
+  let range: string | null = null;
+  if (offset && limit) {
+    range = `lines ${offset}–${offset + limit - 1}`;
+  } else if (offset) {
+    range = `from line ${offset}`;
+  } else if (limit) {
+    range = `first ${limit} lines`;
+  }
+
+  return (
+    <div class="file-tool read-tool" data-tool-id={toolId}>
+      <div class="file-tool-header read-header">
+        <span class="file-tool-icon">📖</span> Read <span class="file-tool-path">{filename}</span>
+        {range && <span class="read-range">({range})</span>}
+      </div>
+      <div class="file-tool-fullpath">{filePath}</div>
+    </div>
+  );
+}
+
+interface NumberedLine {
+  number: string | null;
+  text: string;
+}
+
+/**
+ * Split Read output ("     1→text") into line numbers and text
+ */
+export function parseNumberedLines(output: string): NumberedLine[] {
+  return output.split("\n").map((line) => {
+    const match = /^\s*(\d+)[→\t](.*)$/.exec(line);
+    return match ? { number: match[1]!, text: match[2]! } : { number: null, text: line };
+  });
+}
+
+interface ReadResultProps {
+  output: string;
+  /** Language of the file that was read */
+  language?: string;
+}
+
+export function ReadResultBlock({ output, language }: ReadResultProps): VNode {
+  const lines = parseNumberedLines(output);
+  // Highlight the file's lines together so multi-line comments and strings stay coloured
+  const html = language ? highlightLines(lines.map((line) => line.text).join("\n"), language) : [];
+
+  return (
+    <div class="tool-result read-result">
+      <Truncatable>
+        <pre class="numbered-lines">
+          {lines.map((line, index) => (
+            <div class="numbered-line">
+              <span class="line-number">{line.number ?? ""}</span>
+              {html[index] !== undefined ? (
+                <span class="line-text" dangerouslySetInnerHTML={{ __html: html[index]! }} />
+              ) : (
+                <span class="line-text">{line.text}</span>
+              )}
+            </div>
+          ))}
+        </pre>
+      </Truncatable>
+    </div>
+  );
+}
+
+interface GrepToolProps {
+  pattern: string;
+  path?: string;
+  glob?: string;
+  outputMode?: string;
+  caseInsensitive?: boolean;
+  toolId: string;
+}
+
+export function GrepToolBlock({
+  pattern,
+  path,
+  glob,
+  outputMode,
+  caseInsensitive,
+  toolId,
+}: GrepToolProps): VNode {
+  const details = [
+    path && `in ${path}`,
+    glob && `files matching ${glob}`,
+    outputMode,
+    caseInsensitive && "case-insensitive",
+  ].filter(Boolean);
+
+  return (
+    <div class="tool-use search-tool grep-tool" data-tool-id={toolId}>
+      <div class="tool-header">
+        <span class="tool-icon">🔍</span> Grep <code class="search-pattern">{pattern}</code>
+      </div>
+      {details.length > 0 && <div class="tool-description">{details.join(" · ")}</div>}
+    </div>
+  );
+}
+
+interface GrepFileGroup {
+  file: string;
+  lines: string[];
+}
+
+/**
+ * Group Grep output by file
+ *
+ * Handles the "files_with_matches" (one path per line), "count"
+ * ("path:count") and "content" ("path:line:text") output modes.
+ */
+export function groupGrepOutput(output: string, outputMode?: string): GrepFileGroup[] {
+  const groups = new Map<string, string[]>();
+  const add = (file: string, line?: string) => {
+    const lines = groups.get(file) ?? [];
+    if (line !== undefined) lines.push(line);
+    groups.set(file, lines);
+  };
+
+  for (const line of output.split("\n")) {
+    if (!line.trim() || line === "--" || /^Found \d+ (files?|lines?|matches?)/.test(line)) continue;
+
+    if (outputMode === "content") {
+      // "path:line:text" with line numbers, "path:text" without
+      const numbered = /^(.+?):(\d+):(.*)$/.exec(line);
+      const plain = /^(.+?):(.*)$/.exec(line);
+      if (numbered) {
+        add(numbered[1]!, `${numbered[2]}: ${numbered[3]}`);
+      } else if (plain) {
+        add(plain[1]!, plain[2]!);
+      } else {
+        add("", line);
+      }
+    } else if (outputMode === "count") {
+      const match = /^(.+):(\d+)$/.exec(line);
+      add(match ? match[1]! : line, match ? `${match[2]} matches` : undefined);
+    } else {
+      add(line);
+    }
+  }
+
+  return Array.from(groups, ([file, lines]) => ({ file, lines }));
+}
+
+export function GrepResultBlock({ output, outputMode }: { output: string; outputMode?: string }): VNode {
+  const groups = groupGrepOutput(output, outputMode);
+  if (groups.length === 0) {
+    return <div class="tool-result grep-result">{output.trim() || "No matches"}</div>;
+  }
+
+  return (
+    <div class="tool-result grep-result">
+      <Truncatable>
+        {groups.map((group) => (
+          <div class="grep-file">
+            {group.file && <div class="grep-file-path">{group.file}</div>}
+            {group.lines.length > 0 && <pre class="grep-matches">{group.lines.join("\n")}</pre>}
+          </div>
+        ))}
+      </Truncatable>
+    </div>
+  );
+}
+
+interface GlobToolProps {
+  pattern: string;
+  path?: string;
+  toolId: string;
+}
+
+export function GlobToolBlock({ pattern, path, toolId }: GlobToolProps): VNode {
+  return (
+    <div class="tool-use search-tool glob-tool" data-tool-id={toolId}>
+      <div class="tool-header">
+        <span class="tool-icon">📁</span> Glob <code class="search-pattern">{pattern}</code>
+      </div>
+      {path && <div class="tool-description">in {path}</div>}
+    </div>
+  );
+}
+
+interface FileTreeNode {
+  children: Map<string, FileTreeNode>;
+  isFile: boolean;
+}
+
+function buildFileTree(paths: string[]): FileTreeNode {
+  const root: FileTreeNode = { children: new Map(), isFile: false };
+  for (const path of paths) {
+    let node = root;
+    for (const part of path.split("/").filter(Boolean)) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map(), isFile: false };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.isFile = true;
+  }
+  return root;
+}
+
+function FileTreeEntries({ node }: { node: FileTreeNode }): VNode {
+  const entries = Array.from(node.children).sort(([a, aNode], [b, bNode]) =>
+    aNode.children.size > 0 === bNode.children.size > 0
+      ? a.localeCompare(b)
+      : aNode.children.size > 0 ? -1 : 1
+  );
+
+  return (
+    <ul>
+      {entries.map(([name, child]) => {
+        // Collapse chains of single directories into one entry ("src/render/")
+        let label = name;
+        let current = child;
+        while (!current.isFile && current.children.size === 1) {
+          const [nextName, next] = Array.from(current.children)[0]!;
+          if (next.children.size === 0) break;
+          label += `/${nextName}`;
+          current = next;
+        }
+
+        return current.children.size > 0 ? (
+          <li class="file-tree-dir">
+            <span class="file-tree-name">{label}/</span>
+            <FileTreeEntries node={current} />
+          </li>
+        ) : (
+          <li class="file-tree-file">
+            <span class="file-tree-name">{label}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Nested list of paths, with their common directory shown once at the top
+ */
+export function FileTree({ paths }: { paths: string[] }): VNode {
+  const split = paths.map((path) => path.split("/"));
+  const common: string[] = [];
+  for (let i = 0; split.every((parts) => parts.length > i + 1); i++) {
+    const part = split[0]![i]!;
+    if (!split.every((parts) => parts[i] === part)) break;
+    common.push(part);
+  }
+  const root = common.join("/");
+
+  return (
+    <div class="file-tree">
+      {common.length > 0 && <div class="file-tree-root">{root || "/"}/</div>}
+      <FileTreeEntries
+        node={buildFileTree(paths.map((path) => path.split("/").slice(common.length).join("/")))}
+      />
+    </div>
+  );
+}
+
+export function GlobResultBlock({ output }: { output: string }): VNode {
+  const paths = output
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !/^No files found/.test(line) && !/^\(Results are truncated/.test(line));
+  if (paths.length === 0) {
+    return <div class="tool-result glob-result">{output.trim() || "No files found"}</div>;
+  }
+
+  return (
+    <div class="tool-result glob-result">
+      <div class="glob-count">{paths.length} file{paths.length !== 1 ? "s" : ""}</div>
+      <Truncatable>
+        <FileTree paths={paths} />
+      </Truncatable>
+    </div>
+  );
+}
+
+interface WebFetchToolProps {
+  url: string;
+  prompt?: string;
+  toolId: string;
+}
+
+export function WebFetchToolBlock({ url, prompt, toolId }: WebFetchToolProps): VNode {
+  return (
+    <div class="tool-use web-tool" data-tool-id={toolId}>
+      <div class="tool-header">
+        <span class="tool-icon">🌐</span> WebFetch{" "}
+        {isWebUrl(url) ? <a href={url} class="web-url">{url}</a> : <code>{url}</code>}
+      </div>
+      {prompt && <div class="tool-description">{prompt}</div>}
+    </div>
+  );
+}
+
+export function WebFetchResultBlock({ output }: { output: string }): VNode {
+  return (
+    <div class="tool-result web-result">
+      <Truncatable>
+        <div dangerouslySetInnerHTML={{ __html: renderUntrustedMarkdown(output) }} />
+      </Truncatable>
+    </div>
+  );
+}
+
+interface WebSearchToolProps {
+  query: string;
+  allowedDomains?: string[];
+  blockedDomains?: string[];
+  toolId: string;
+}
+
+export function WebSearchToolBlock({
+  query,
+  allowedDomains,
+  blockedDomains,
+  toolId,
+}: WebSearchToolProps): VNode {
+  const details = [
+    allowedDomains?.length && `only ${allowedDomains.join(", ")}`,
+    blockedDomains?.length && `excluding ${blockedDomains.join(", ")}`,
+  ].filter(Boolean);
+
+  return (
+    <div class="tool-use web-tool" data-tool-id={toolId}>
+      <div class="tool-header">
+        <span class="tool-icon">🔎</span> WebSearch <code class="search-pattern">{query}</code>
+      </div>
+      {details.length > 0 && <div class="tool-description">{details.join(" · ")}</div>}
+    </div>
+  );
+}
+
+interface WebSource {
+  title: string;
+  url: string;
+}
+
+/**
+ * Pull the "Links: [...]" source list out of WebSearch output
+ *
+ * @returns The sources and the rest of the output
+ */
+export function parseWebSearchOutput(output: string): { sources: WebSource[]; text: string } {
+  const start = output.indexOf("Links: [");
+  if (start === -1) {
+    return { sources: [], text: output };
+  }
+
+  // Titles may contain "]", so try each closing bracket in turn
+  const jsonStart = start + "Links: ".length;
+  for (let end = output.indexOf("]", jsonStart); end !== -1; end = output.indexOf("]", end + 1)) {
+    try {
+      const parsed = JSON.parse(output.slice(jsonStart, end + 1));
+      if (!Array.isArray(parsed)) break;
+      const sources = parsed
+        .filter((item) => item && typeof item.url === "string")
+        .map((item) => ({ title: String(item.title || item.url), url: String(item.url) }));
+      return { sources, text: (output.slice(0, start) + output.slice(end + 1)).trim() };
+    } catch {
+      continue;
+    }
+  }
+  return { sources: [], text: output };
+}
+
+export function WebSearchResultBlock({ output }: { output: string }): VNode {
+  const { sources, text } = parseWebSearchOutput(output);
+
+  return (
+    <div class="tool-result web-result">
+      {sources.length > 0 && (
+        <ul class="web-sources">
+          {sources.map((source) => (
+            <li>
+              {isWebUrl(source.url) ? <a href={source.url}>{source.title}</a> : source.title}
+              <span class="web-source-host">{source.url.replace(/^https?:\/\/([^/]+).*$/i, "$1")}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {text && (
+        <Truncatable>
+          <div dangerouslySetInnerHTML={{ __html: renderUntrustedMarkdown(text) }} />
+        </Truncatable>
+      )}
+    </div>
+  );
+}
+
+interface MultiEditToolProps {
+  filePath: string;
+  edits: FileEdit[];
+  /** Line each edit starts on, when an earlier Read shows it */
+  startLines?: Array<number | undefined>;
+  toolId: string;
+}
+
+export function MultiEditToolBlock({
+  filePath,
+  edits,
+  startLines = [],
+  toolId,
+}: MultiEditToolProps): VNode {
+  const filename = getFilename(filePath);
+  return (
+    <div class="file-tool edit-tool multiedit-tool" data-tool-id={toolId}>
+      <div class="file-tool-header edit-header">
+        <span class="file-tool-icon">✏️</span> MultiEdit <span class="file-tool-path">{filename}</span>
+        <span class="edit-replace-all">({edits.length} edit{edits.length !== 1 ? "s" : ""})</span>
+      </div>
+      <div class="file-tool-fullpath">{filePath}</div>
+      <Truncatable>
+        {edits.map((edit, index) => (
+          <div class="multiedit-hunk">
+            <div class="multiedit-hunk-label">
+              Edit {index + 1}
+              {edit.replaceAll && <span class="edit-replace-all"> (replace all)</span>}
+            </div>
+            <DiffView
+              oldString={edit.oldString}
+              newString={edit.newString}
+              startLine={startLines[index]}
+              language={languageFromPath(filePath)}
+            />
+          </div>
+        ))}
+      </Truncatable>
+    </div>
+  );
+}
+
+interface NotebookEditToolProps {
+  notebookPath: string;
+  cellId?: string;
+  cellType?: string;
+  editMode?: string;
+  newSource: string;
+  toolId: string;
+}
+
+export function NotebookEditToolBlock({
+  notebookPath,
+  cellId,
+  cellType = "code",
+  editMode = "replace",
+  newSource,
+  toolId,
+}: NotebookEditToolProps): VNode {
+  const filename = getFilename(notebookPath);
+  const action = editMode === "insert" ? "Insert" : editMode === "delete" ? "Delete" : "Replace";
+
+  return (
+    <div class="file-tool notebook-tool" data-tool-id={toolId}>
+      <div class="file-tool-header notebook-header">
+        <span class="file-tool-icon">📓</span> NotebookEdit <span class="file-tool-path">{filename}</span>
+        <span class="notebook-edit-mode">
+          {action} {cellType} cell{cellId ? ` ${cellId}` : ""}
+        </span>
+      </div>
+      <div class="file-tool-fullpath">{notebookPath}</div>
+      {editMode === "delete" ? (
+        <div class="notebook-cell notebook-cell-deleted">Cell deleted</div>
+      ) : (
+        <div class={`notebook-cell notebook-cell-${cellType}`}>
+          <div class="notebook-cell-label">{cellType === "markdown" ? "Markdown" : "In [ ]:"}</div>
+          <Truncatable>
+            <pre class="notebook-cell-source">{newSource}</pre>
+          </Truncatable>
+        </div>
+      )}
+    </div>
+  );
+}
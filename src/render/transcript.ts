@@ -4,169 +4,300 @@
 
 import { h } from "preact";
 import type { VNode } from "preact";
-import type { SessionData, Logline, Message, ContentBlock } from "../schemas.js";
-import type { RenderOptions, TranscriptOutput } from "../types.js";
-import { PROMPTS_PER_PAGE } from "../types.js";
-import { parseSessionFile } from "../parse.js";
+import type {
+  SessionData,
+  Logline,
+  Message,
+  MessageContentBlock,
+  ToolUseBlock,
+  ToolResultBlock,
+} from "../schemas.js";
+import type {
+  RenderOptions,
+  ParseOptions,
+  SessionSourceOptions,
+  TranscriptOutput,
+  CommitInfo,
+  SessionMetadata,
+  TokenUsage,
+} from "../types.js";
+import { parseSessionFile, streamLoglines } from "../parse.js";
+import {
+  selectBranch,
+  selectBranchFromFile,
+  applyBranchSelection,
+  filterToBranch,
+} from "../tree.js";
+import {
+  createSubagentCollector,
+  isSubagentToolUse,
+  loadAgentLoglines,
+} from "../subagents.js";
+import { mergeSessions, resolveSessionFiles } from "../sessions.js";
+import { createLoglineFilter, filterLoglines } from "../filter.js";
+import { collectSessionMetadata, createMetadataCollector } from "../metadata.js";
 import { renderDocument, renderToHtml } from "./jsx.js";
-import { renderContentBlock, UserContent } from "./content-blocks.js";
-import { renderMessage, isToolResultMessage } from "./message.js";
+import {
+  renderContentBlock,
+  UserContent,
+  type BlockRenderContext,
+} from "./content-blocks.js";
+import { createToolRendererRegistry, type ToolRendererRegistry } from "./tool-registry.js";
+import { createFileTracker, type FileTracker } from "./file-tracker.js";
+import { createAnchorRegistry, type AnchorRegistry } from "./anchors.js";
+import {
+  renderMessage,
+  AnchoredBlock,
+  AlternatePath,
+  ContinuationSummary,
+  OrphanToolResult,
+  SessionBoundary,
+  SubagentTranscript,
+  ToolCard,
+} from "./message.js";
+import {
+  pairToolResults,
+  removePairedResults,
+  formatElapsed,
+  type ToolPairing,
+} from "./tool-pairs.js";
+import {
+  createConversationGrouper,
+  groupLoglinesToConversations,
+} from "./conversations.js";
 import {
   Pagination,
   IndexPagination,
-  paginateConversations,
-  getPageFilename,
+  createPageBreaker,
+  type PageLink,
   type Conversation,
+  type ConversationMessage,
 } from "./pagination.js";
 import {
   IndexItem,
+  IndexContinuation,
+  SessionHeader,
   IndexCommit,
   IndexSummary,
   IndexItemLongText,
-  analyzeConversation,
+  formatIndexSummary,
+  formatUsage,
 } from "./index-page.js";
 import { renderMarkdown } from "./markdown.js";
+import {
+  getMarkdownPageFilename,
+  renderCommitsMarkdown,
+  renderConversationMarkdown,
+  renderMarkdownHeader,
+  renderPageNavMarkdown,
+  renderPromptListMarkdown,
+  MARKDOWN_FILENAME,
+  MARKDOWN_INDEX_FILENAME,
+} from "./markdown-export.js";
+import {
+  createTimelineCollector,
+  renderTimelinePage,
+  TimelinePage,
+  TIMELINE_FILENAME,
+} from "./timeline.js";
+import {
+  countChangedFiles,
+  createFilesCollector,
+  renderFilesPage,
+  FilesPage,
+  FILES_FILENAME,
+} from "./files-report.js";
+import { createStatsCollector, renderStatsPage, StatsPage, STATS_FILENAME } from "./stats.js";
+import { renderSingleFile, SINGLE_FILE_FILENAME, type SingleFileSection } from "./single-file.js";
+import { addUsage, createUsageCounter, emptyUsage, type UsageCounter } from "../usage.js";
+
+/** Pages about the whole session, linked from the index */
+const REPORT_PAGES: PageLink[] = [
+  { filename: TIMELINE_FILENAME, label: "Timeline" },
+  { filename: FILES_FILENAME, label: "Files" },
+  { filename: STATS_FILENAME, label: "Stats" },
+];
 
-function getUserTextPreview(message: Message): string {
-  const content = message.content;
-  let preview = "";
-
-  if (typeof content === "string") {
-    preview = content;
-  } else if (Array.isArray(content)) {
-    for (const block of content) {
-      if (
-        block &&
-        typeof block === "object" &&
-        "type" in block &&
-        block.type === "text" &&
-        "text" in block &&
-        typeof block.text === "string"
-      ) {
-        preview = block.text;
-        break;
-      }
-    }
-
-    if (!preview && content.length > 0) {
-      const firstBlock = content[0] as { type?: string } | undefined;
-      if (firstBlock?.type) {
-        preview = `[${firstBlock.type}]`;
-      }
-    }
-  }
-
-  const normalized = preview.replace(/\s+/g, " ").trim();
-  if (normalized.length > 100) {
-    return normalized.slice(0, 100) + "...";
-  }
-  return normalized;
-}
-
-function getMessageFromLogline(logline: Logline): Message | null {
-  if (logline.message) {
-    return logline.message;
-  }
-  if (logline.content !== undefined) {
-    return { content: logline.content };
-  }
-  return null;
+/**
+ * Render a tool call together with its result as one card
+ */
+function renderToolCard(
+  block: ToolUseBlock,
+  callHtml: string,
+  callTimestamp: string,
+  pairing: ToolPairing,
+  renderResult: (result: ToolResultBlock) => string
+): string {
+  const result = pairing.results.get(block.id);
+  const elapsed = result ? Date.parse(result.timestamp) - Date.parse(callTimestamp) : NaN;
+
+  return renderToHtml(
+    h(ToolCard, {
+      name: block.name,
+      status: !result ? "missing" : result.block.is_error ? "error" : "ok",
+      elapsed: Number.isNaN(elapsed) ? undefined : formatElapsed(elapsed),
+      callHtml,
+      resultHtml: result ? renderResult(result.block) : "",
+    }) as VNode
+  );
 }
 
-function groupLoglinesToConversations(loglines: Logline[]): Conversation[] {
-  const conversations: Conversation[] = [];
-  let current: Conversation | null = null;
-
-  for (const logline of loglines) {
-    if (logline.type !== "user" && logline.type !== "assistant") {
-      continue;
-    }
+function renderPageBody(
+  conversations: Conversation[],
+  options: RenderOptions,
+  toolRenderers: ToolRendererRegistry,
+  files: FileTracker,
+  anchors: AnchorRegistry
+): string {
+  // `summary` is the compaction summary opening a continuation, shown collapsed
+  const renderMessages = (
+    messages: ConversationMessage[],
+    summary?: ConversationMessage
+  ): string[] => {
+    const pairing = pairToolResults(messages);
+    const context: BlockRenderContext = {
+      githubRepo: options.githubRepo,
+      toolRenderers,
+      getToolUse: (id) => pairing.calls.get(id),
+      getToolResult: (id) => pairing.results.get(id)?.block,
+      toolContext: files,
+    };
+
+    const messageHtml: string[] = [];
+    for (const message of messages) {
+      const msgId = anchors.message(message);
+
+      // Tool calls, results and thinking get their own id and copy-link button
+      const renderAnchoredBlock = (block: MessageContentBlock) => {
+        const blockHtml = renderContentBlock(block, context);
+        const id = anchors.block(block, msgId);
+        return id
+          ? renderToHtml(h(AnchoredBlock, { id, contentHtml: blockHtml }) as VNode)
+          : blockHtml;
+      };
+
+      // In the paired layout, results left in a tool reply have no matching call
+      const renderUserContent = (message: Message) =>
+        renderToHtml(
+          h(UserContent, {
+            content: message.content,
+            renderBlock: (block: MessageContentBlock) => {
+              const blockHtml = renderAnchoredBlock(block);
+              return options.pairToolResults && block.type === "tool_result"
+                ? renderToHtml(h(OrphanToolResult, { contentHtml: blockHtml }) as VNode)
+                : blockHtml;
+            },
+          }) as VNode
+        );
 
-    const message = getMessageFromLogline(logline);
-    if (!message) {
-      continue;
-    }
+      const renderBlock = (block: MessageContentBlock) => {
+        let blockHtml = renderAnchoredBlock(block);
+        if (block.type === "tool_use") {
+          const use = block as ToolUseBlock;
+          files.record(use, pairing.results.get(use.id)?.block);
+        }
 
-    const timestamp = logline.timestamp ?? "";
-    const messageJson = JSON.stringify(message);
+        // Sub-agent runs are nested directly under the Task call that started them
+        const run = isSubagentToolUse(block) ? message.subagents?.[block.id] : undefined;
+        if (run) {
+          const { input } = block as ToolUseBlock;
+          blockHtml += renderToHtml(
+            h(SubagentTranscript, {
+              description: String(input.description || input.subagent_type || "Sub-agent"),
+              messageCount: run.length,
+              contentHtml: renderMessages(run).join("\n"),
+            }) as VNode
+          );
+        }
 
-    if (logline.type === "user") {
-      const startsConversation = !isToolResultMessage(message);
+        if (options.pairToolResults && block.type === "tool_use") {
+          return renderToolCard(
+            block as ToolUseBlock,
+            blockHtml,
+            message.timestamp,
+            pairing,
+            renderAnchoredBlock
+          );
+        }
+        return blockHtml;
+      };
 
-      if (startsConversation) {
-        current = {
-          userText: getUserTextPreview(message),
-          timestamp,
-          messages: [],
-          isContinuation: Boolean(logline.isCompactSummary),
-        };
-        conversations.push(current);
+      if (message.resumed) {
+        messageHtml.push(renderToHtml(h(SessionBoundary, message.resumed) as VNode));
       }
 
-      if (current) {
-        current.messages.push({
-          type: "user",
-          messageJson,
-          timestamp,
-        });
+      const messageJson =
+        options.pairToolResults && message.type === "user"
+          ? removePairedResults(message.messageJson, pairing)
+          : message.messageJson;
+      const html = messageJson
+        ? renderMessage(
+            message.type,
+            messageJson,
+            message.timestamp,
+            msgId,
+            renderBlock,
+            renderUserContent
+          )
+        : "";
+      if (html) {
+        messageHtml.push(
+          message === summary
+            ? renderToHtml(h(ContinuationSummary, { contentHtml: html }) as VNode)
+            : html
+        );
       }
 
-      continue;
-    }
-
-    if (!current) {
-      continue;
+      for (const branch of message.alternates ?? []) {
+        messageHtml.push(
+          renderToHtml(
+            h(AlternatePath, {
+              messageCount: branch.length,
+              contentHtml: renderMessages(branch).join("\n"),
+            }) as VNode
+          )
+        );
+      }
     }
+    return messageHtml;
+  };
 
-    current.messages.push({
-      type: "assistant",
-      messageJson,
-      timestamp,
-    });
-  }
-
-  return conversations;
+  return conversations
+    .flatMap((conversation) =>
+      renderMessages(
+        conversation.messages,
+        conversation.isContinuation ? conversation.messages[0] : undefined
+      )
+    )
+    .join("\n");
 }
 
-function renderPage(
-  conversations: Conversation[],
-  pageNum: number,
-  totalPages: number,
-  options: RenderOptions
-): string {
-  const renderBlock = (block: ContentBlock) =>
-    renderContentBlock(block, options.githubRepo);
-
-  const renderUserContent = (message: Message) =>
-    renderToHtml(h(UserContent, { content: message.content }) as VNode);
-
-  const messageHtml: string[] = [];
-  for (const conversation of conversations) {
-    for (const message of conversation.messages) {
-      const html = renderMessage(
-        message.type,
-        message.messageJson,
-        message.timestamp,
-        renderBlock,
-        renderUserContent
-      );
-      if (html) {
-        messageHtml.push(html);
-      }
-    }
-  }
-
+/**
+ * Render a transcript page between its pagination bars
+ */
+function renderPageContent(bodyHtml: string, pageNum: number, pages: PageLink[]): string {
   const paginationTop = renderToHtml(
-    h(Pagination, { currentPage: pageNum, totalPages }) as VNode
+    h(Pagination, { currentPage: pageNum, pages }) as VNode
   );
   const paginationBottom = renderToHtml(
-    h(Pagination, { currentPage: pageNum, totalPages }) as VNode
+    h(Pagination, { currentPage: pageNum, pages }) as VNode
   );
 
-  const pageHtml = [paginationTop, ...messageHtml, paginationBottom].join("\n");
+  return [paginationTop, bodyHtml, paginationBottom]
+    .filter(Boolean)
+    .join("\n");
+}
 
+function renderPage(
+  pageHtml: string,
+  pageNum: number,
+  pages: PageLink[],
+  title: string,
+  anchorRedirects: Record<string, string>
+): string {
   return renderDocument({
-    title: `Transcript - Page ${pageNum}`,
+    title: `${title} - Page ${pages[pageNum - 1]!.label}`,
+    anchorRedirects,
     children: h("div", { dangerouslySetInnerHTML: { __html: pageHtml } }) as VNode,
   });
 }
@@ -207,10 +338,35 @@ function normalizeToolName(name: string): string {
   return toolNameMap[normalized] || normalized;
 }
 
-function formatConversationToolStats(messages: Conversation["messages"]): string {
-  const toolCounts = new Map<string, number>();
-  
+/**
+ * Count the tokens used answering a conversation, including by sub-agents
+ */
+function countConversationUsage(
+  messages: Conversation["messages"],
+  counter: UsageCounter
+): TokenUsage {
+  let usage = emptyUsage();
   for (const msg of messages) {
+    if (msg.type === "assistant") {
+      usage = addUsage(usage, counter.add(JSON.parse(msg.messageJson) as Message));
+    }
+    for (const run of Object.values(msg.subagents ?? {})) {
+      usage = addUsage(usage, countConversationUsage(run, counter));
+    }
+  }
+  return usage;
+}
+
+function countConversationTools(
+  messages: Conversation["messages"],
+  toolCounts = new Map<string, number>()
+): Map<string, number> {
+  for (const msg of messages) {
+    // Include the tool calls made by sub-agents
+    for (const run of Object.values(msg.subagents ?? {})) {
+      countConversationTools(run, toolCounts);
+    }
+
     if (msg.type !== "assistant") continue;
     
     try {
@@ -228,7 +384,11 @@ function formatConversationToolStats(messages: Conversation["messages"]): string
       continue;
     }
   }
-  
+
+  return toolCounts;
+}
+
+function formatConversationToolStats(toolCounts: Map<string, number>): string {
   if (toolCounts.size === 0) return "";
   
   const sorted = Array.from(toolCounts.entries()).sort((a, b) => b[1] - a[1]);
@@ -274,57 +434,120 @@ function findConversationCommits(
   return commits;
 }
 
-function renderIndexPage(
-  conversations: Conversation[],
-  loglines: Logline[],
-  totalPages: number,
+/**
+ * Index data kept for each conversation once its messages have been rendered
+ */
+interface IndexEntry {
+  userText: string;
+  timestamp: string;
+  toolCounts: Map<string, number>;
+  commits: CommitInfo[];
+  usage: TokenUsage;
+  assistantText: string | null;
+  isContinuation: boolean;
+  /** Filename of the page the conversation is on */
+  pageFile: string;
+  /** Element id of the conversation's first message */
+  msgId: string;
+}
+
+function summarizeConversation(
+  conversation: Conversation,
+  pageFile: string,
+  msgId: string,
+  usageCounter: UsageCounter,
   options: RenderOptions
-): string {
-  const analysis = analyzeConversation(loglines);
-  
-  const totalMessages = loglines.filter(
-    (l) => l.type === "user" || l.type === "assistant"
-  ).length;
-  const totalToolCalls = Array.from(analysis.toolCounts.values()).reduce(
-    (a, b) => a + b,
-    0
-  );
+): IndexEntry {
+  return {
+    pageFile,
+    msgId,
+    userText: conversation.userText,
+    timestamp: conversation.timestamp,
+    toolCounts: countConversationTools(conversation.messages),
+    commits: findConversationCommits(conversation.messages, options.githubRepo),
+    usage: countConversationUsage(conversation.messages, usageCounter),
+    assistantText: getFirstAssistantText(conversation.messages),
+    isContinuation: conversation.isContinuation,
+  };
+}
+
+/**
+ * Count the prompts, tool calls and commits of a transcript
+ */
+function countIndexTotals(entries: IndexEntry[]) {
+  return {
+    // Continuations are generated after a compaction, not typed by the user
+    promptCount: entries.filter((entry) => !entry.isContinuation).length,
+    toolCallCount: entries.reduce(
+      (sum, entry) =>
+        sum + Array.from(entry.toolCounts.values()).reduce((a, b) => a + b, 0),
+      0
+    ),
+    commitCount: entries.reduce((sum, entry) => sum + entry.commits.length, 0),
+  };
+}
 
+/**
+ * Render the index: session header, pagination, totals, and the prompts with
+ * their commits
+ */
+function renderIndexContent(
+  entries: IndexEntry[],
+  messageCount: number,
+  changedFileCount: number,
+  usage: TokenUsage,
+  pages: PageLink[],
+  title: string,
+  metadata: SessionMetadata,
+  options: RenderOptions
+): string {
   const paginationHtml = renderToHtml(
-    h(IndexPagination, { totalPages }) as VNode
+    h(IndexPagination, { pages, reports: REPORT_PAGES }) as VNode
   );
 
   const summaryHtml = renderToHtml(
     h(IndexSummary, {
-      promptCount: conversations.length,
-      messageCount: totalMessages,
-      toolCallCount: totalToolCalls,
-      commitCount: analysis.commits.length,
-      pageCount: totalPages,
+      ...countIndexTotals(entries),
+      messageCount,
+      changedFileCount,
+      pageCount: pages.length,
+      usage,
     }) as VNode
   );
 
-  const itemsWithCommitsHtml = conversations
-    .map((conversation, index) => {
-      const promptNum = index + 1;
-      const pageNum = Math.floor(index / PROMPTS_PER_PAGE) + 1;
-      const toolStats = formatConversationToolStats(conversation.messages);
-      const commits = findConversationCommits(conversation.messages, options.githubRepo);
-      const assistantText = getFirstAssistantText(conversation.messages);
-      const assistantPreviewHtml = assistantText ? renderMarkdown(assistantText) : null;
-      
-      const itemHtml = renderToHtml(
-        h(IndexItem, {
-          promptNum,
-          pageNum,
-          timestamp: conversation.timestamp,
-          contentPreview: conversation.userText,
-          toolStats,
-          assistantPreviewHtml,
-        }) as VNode
-      );
-      
-      const commitsHtml = commits
+  let promptNum = 0;
+  const itemsWithCommitsHtml = entries
+    .map((entry, index) => {
+      const toolStats = formatConversationToolStats(entry.toolCounts);
+      const usageStats = formatUsage(entry.usage);
+      const assistantPreviewHtml = entry.assistantText
+        ? renderMarkdown(entry.assistantText)
+        : null;
+
+      const itemHtml = entry.isContinuation
+        ? renderToHtml(
+            h(IndexContinuation, {
+              pageFile: entry.pageFile,
+              msgId: entry.msgId,
+              timestamp: entry.timestamp,
+              toolStats,
+              usageStats,
+            }) as VNode
+          )
+        : renderToHtml(
+            h(IndexItem, {
+              promptNum: ++promptNum,
+              pageFile: entry.pageFile,
+              msgId: entry.msgId,
+              timestamp: entry.timestamp,
+              contentPreview: entry.userText,
+              toolStats,
+              usageStats,
+              assistantPreviewHtml,
+            }) as VNode
+          );
+
+      const commitsHtml = entry.commits
         .map((commit) =>
           renderToHtml(
             h(IndexCommit, {
@@ -336,53 +559,236 @@ function renderIndexPage(
           )
         )
         .join("\n");
-      
+
       return itemHtml + (commitsHtml ? "\n" + commitsHtml : "");
     })
     .join("\n");
 
-  const indexHtml = [paginationHtml, summaryHtml, itemsWithCommitsHtml]
+  const headerHtml = renderToHtml(h(SessionHeader, { title, metadata }) as VNode);
+
+  return [headerHtml, paginationHtml, summaryHtml, itemsWithCommitsHtml]
     .filter(Boolean)
     .join("\n");
+}
 
+function renderIndexPage(indexHtml: string, pages: PageLink[], title: string): string {
   return renderDocument({
-    title: "Transcript Index",
+    title: `${title} - Index`,
     includeSearchJS: true,
-    totalPages,
+    pageFiles: pages.map((page) => page.filename),
     children: h("div", { dangerouslySetInnerHTML: { __html: indexHtml } }) as VNode,
   });
 }
 
 /**
- * Render a session to HTML pages
+ * Incremental transcript renderer
  *
- * @param session - Parsed session data
- * @param options - Render options (e.g., GitHub repo for commit links)
- * @returns TranscriptOutput with files Map and writeTo method
+ * Conversations are rendered to HTML as they arrive and are then dropped,
+ * keeping only the small `IndexEntry` needed for the index. The rendered size
+ * is what `maxBytesPerPage` pagination measures. Each page also keeps the
+ * old timestamp-based ids of its messages, so links using them still resolve.
  */
-export function renderTranscript(
-  session: SessionData,
-  options: RenderOptions = {}
-): TranscriptOutput {
-  const loglines = session.loglines;
-  const conversations = groupLoglinesToConversations(loglines);
-  const pages = paginateConversations(conversations);
-  const totalPages = pages.length;
-  const files = new Map<string, string>();
-
-  files.set(
-    "index.html",
-    renderIndexPage(conversations, loglines, totalPages, options)
-  );
+interface TranscriptBuilder {
+  addConversation(conversation: Conversation): void;
+  finish(metadata: SessionMetadata): TranscriptOutput;
+}
 
-  pages.forEach((pageConversations, index) => {
-    const pageNum = index + 1;
-    files.set(
-      getPageFilename(pageNum),
-      renderPage(pageConversations, pageNum, totalPages, options)
-    );
-  });
+/** Title used when neither the options nor the session provide one */
+const DEFAULT_TITLE = "Transcript";
+
+function createTranscriptBuilder(options: RenderOptions): TranscriptBuilder {
+  if (options.format === "markdown") {
+    return createMarkdownBuilder(options);
+  }
+
+  const toolRenderers = createToolRendererRegistry(options.toolRenderers);
+  // Pages are rendered in order, so edits can be placed using earlier pages' reads
+  const files = createFileTracker();
+  const pageBreaker = createPageBreaker(options.pagination);
+  const anchors = createAnchorRegistry();
+  const timeline = createTimelineCollector();
+  const fileActivity = createFilesCollector();
+  const stats = createStatsCollector(options.pricing);
+  const usageCounter = createUsageCounter(options.pricing);
+  const entries: IndexEntry[] = [];
+  const pages: Array<PageLink & { bodies: string[]; redirects: Record<string, string> }> = [];
+  let messageCount = 0;
 
+  return {
+    addConversation(conversation) {
+      const bodyHtml = renderPageBody([conversation], options, toolRenderers, files, anchors);
+      const page = pageBreaker.next(conversation, Buffer.byteLength(bodyHtml));
+      if (page) {
+        pages.push({ ...page, bodies: [], redirects: {} });
+      }
+      const current = pages[pages.length - 1]!;
+      if (bodyHtml) {
+        current.bodies.push(bodyHtml);
+      }
+      // The old id of messages sharing a timestamp led to the first of them
+      for (const [legacyId, id] of anchors.takeRedirects()) {
+        current.redirects[legacyId] ??= id;
+      }
+
+      const msgId = conversation.messages[0] ? anchors.message(conversation.messages[0]) : "";
+      entries.push(summarizeConversation(conversation, current.filename, msgId, usageCounter, options));
+      timeline.add(conversation, current.filename, anchors);
+      fileActivity.add(conversation, current.filename, anchors);
+      stats.add(conversation, current.filename, anchors);
+      messageCount += conversation.messages.length;
+    },
+
+    finish(metadata) {
+      const title = options.title ?? metadata.title ?? DEFAULT_TITLE;
+      const files = new Map<string, string>();
+      const touchedFiles = fileActivity.finish();
+      const indexHtml = renderIndexContent(
+        entries,
+        messageCount,
+        countChangedFiles(touchedFiles),
+        usageCounter.finish(),
+        pages,
+        title,
+        metadata,
+        options
+      );
+
+      if (options.singleFile) {
+        const sections: SingleFileSection[] = [
+          { filename: "index.html", label: "Index", html: indexHtml },
+          ...pages.map((page, index) => ({
+            filename: page.filename,
+            label: `Page ${page.label}`,
+            html: renderPageContent(page.bodies.join("\n"), index + 1, pages),
+          })),
+          {
+            filename: TIMELINE_FILENAME,
+            label: "Timeline",
+            html: renderToHtml(h(TimelinePage, { title, timeline: timeline.finish(), reports: REPORT_PAGES }) as VNode),
+          },
+          {
+            filename: FILES_FILENAME,
+            label: "Files",
+            html: renderToHtml(
+              h(FilesPage, {
+                title,
+                files: touchedFiles,
+                cwd: metadata.cwd,
+                reports: REPORT_PAGES,
+                showDiffs: options.fileDiffs,
+              }) as VNode
+            ),
+          },
+          {
+            filename: STATS_FILENAME,
+            label: "Stats",
+            html: renderToHtml(h(StatsPage, { title, stats: stats.finish(), reports: REPORT_PAGES }) as VNode),
+          },
+        ];
+        const redirects = Object.assign({}, ...pages.map((page) => page.redirects));
+        files.set(SINGLE_FILE_FILENAME, renderSingleFile(sections, title, redirects));
+        return createTranscriptOutput(files);
+      }
+
+      files.set("index.html", renderIndexPage(indexHtml, pages, title));
+
+      pages.forEach((page, index) => {
+        files.set(
+          page.filename,
+          renderPage(
+            renderPageContent(page.bodies.join("\n"), index + 1, pages),
+            index + 1,
+            pages,
+            title,
+            page.redirects
+          )
+        );
+      });
+
+      files.set(TIMELINE_FILENAME, renderTimelinePage(timeline.finish(), title, REPORT_PAGES));
+      files.set(
+        FILES_FILENAME,
+        renderFilesPage(touchedFiles, title, metadata.cwd, REPORT_PAGES, options.fileDiffs)
+      );
+      files.set(STATS_FILENAME, renderStatsPage(stats.finish(), title, REPORT_PAGES));
+
+      return createTranscriptOutput(files);
+    },
+  };
+}
+
+/**
+ * Incremental Markdown renderer
+ *
+ * Without a `pagination` option the whole transcript goes in one
+ * `transcript.md`. With one, each page is its own file and `index.md` lists
+ * the prompts and links to the pages.
+ */
+function createMarkdownBuilder(options: RenderOptions): TranscriptBuilder {
+  const paged = options.pagination !== undefined;
+  const pageBreaker = createPageBreaker(options.pagination);
+  const anchors = createAnchorRegistry();
+  const fileActivity = createFilesCollector();
+  const usageCounter = createUsageCounter(options.pricing);
+  const entries: IndexEntry[] = [];
+  const pages: Array<PageLink & { bodies: string[] }> = [];
+  let messageCount = 0;
+  let promptNum = 0;
+
+  return {
+    addConversation(conversation) {
+      if (!conversation.isContinuation) {
+        promptNum++;
+      }
+      const body = renderConversationMarkdown(conversation, promptNum);
+      const page = pageBreaker.next(conversation, Buffer.byteLength(body));
+      if (page) {
+        pages.push({ ...page, filename: getMarkdownPageFilename(page.filename), bodies: [] });
+      }
+      const current = pages[pages.length - 1]!;
+      current.bodies.push(body);
+
+      entries.push(summarizeConversation(conversation, current.filename, "", usageCounter, options));
+      fileActivity.add(conversation, current.filename, anchors);
+      messageCount += conversation.messages.length;
+    },
+
+    finish(metadata) {
+      const title = options.title ?? metadata.title ?? DEFAULT_TITLE;
+      const files = new Map<string, string>();
+      const summary = formatIndexSummary({
+        ...countIndexTotals(entries),
+        messageCount,
+        changedFileCount: countChangedFiles(fileActivity.finish()),
+        pageCount: paged ? pages.length : undefined,
+        usage: usageCounter.finish(),
+      });
+      const header = renderMarkdownHeader(title, metadata, summary);
+      const commits = renderCommitsMarkdown(
+        entries.flatMap((entry) => entry.commits),
+        options.githubRepo
+      );
+      const join = (parts: string[]) => parts.filter(Boolean).join("\n\n") + "\n";
+
+      if (!paged) {
+        files.set(MARKDOWN_FILENAME, join([header, commits, ...pages.flatMap((page) => page.bodies)]));
+        return createTranscriptOutput(files);
+      }
+
+      files.set(MARKDOWN_INDEX_FILENAME, join([header, renderPromptListMarkdown(entries), commits]));
+      pages.forEach((page, index) => {
+        const nav = renderPageNavMarkdown(pages, index);
+        files.set(
+          page.filename,
+          join([`# ${title} · Page ${page.label}`, nav, ...page.bodies, nav])
+        );
+      });
+      return createTranscriptOutput(files);
+    },
+  };
+}
+
+function createTranscriptOutput(files: Map<string, string>): TranscriptOutput {
   return {
     files,
     async writeTo(dir: string): Promise<void> {
@@ -397,16 +803,132 @@ export function renderTranscript(
 }
 
 /**
- * Parse a session file and render to HTML
+ * Render a session to HTML pages
+ *
+ * @param session - Parsed session data
+ * @param options - Render options (e.g., GitHub repo for commit links)
+ * @returns TranscriptOutput with files Map and writeTo method
+ */
+export function renderTranscript(
+  session: SessionData,
+  options: RenderOptions = {}
+): TranscriptOutput {
+  const builder = createTranscriptBuilder(options);
+  const { loglines, alternates } = applyBranchSelection(
+    session.loglines,
+    selectBranch(session.loglines, options.leafUuid)
+  );
+  const filter = createLoglineFilter(options);
+  const conversations = groupLoglinesToConversations(filterLoglines(loglines, filter), {
+    alternates: options.alternateBranches
+      ? new Map(
+          [...alternates].map(([uuid, branches]) => [
+            uuid,
+            branches.map((branch) => filterLoglines(branch, filter)),
+          ])
+        )
+      : undefined,
+    subagents: createSubagentCollector(),
+  });
+
+  for (const conversation of conversations) {
+    builder.addConversation(conversation);
+  }
+
+  return builder.finish(collectSessionMetadata(loglines));
+}
+
+/**
+ * Render a stream of loglines to HTML pages
+ *
+ * Loglines are grouped and rendered as they arrive, so memory use does not
+ * grow with the size of the session beyond the generated HTML itself. They
+ * are rendered in the order given; use `filterToBranch` to restrict a stream
+ * to one branch of the conversation tree first. The `include` and `exclude`
+ * filters apply before grouping; metadata sees every logline. Sidechain
+ * loglines must come before the prompt following their Task call to be
+ * nested under it.
  *
- * @param filePath - Path to JSON or JSONL session file
+ * @param loglines - Loglines, e.g. from `streamLoglines`
  * @param options - Render options
  * @returns TranscriptOutput with files Map and writeTo method
  */
-export async function renderTranscriptFromFile(
-  filePath: string,
+export async function renderTranscriptStream(
+  loglines: AsyncIterable<Logline>,
   options: RenderOptions = {}
 ): Promise<TranscriptOutput> {
-  const session = await parseSessionFile(filePath);
-  return renderTranscript(session, options);
+  const builder = createTranscriptBuilder(options);
+  const grouper = createConversationGrouper({
+    subagents: createSubagentCollector(),
+  });
+  const metadata = createMetadataCollector();
+  const filter = createLoglineFilter(options);
+
+  for await (const logline of loglines) {
+    metadata.add(logline);
+    const kept = filter.apply(logline);
+    const finished = kept && grouper.add(kept);
+    if (finished) {
+      builder.addConversation(finished);
+    }
+  }
+
+  const last = grouper.flush();
+  if (last) {
+    builder.addConversation(last);
+  }
+
+  return builder.finish(metadata.finish());
+}
+
+/**
+ * Parse one or more session files and render to HTML
+ *
+ * A single file is streamed twice: once to reconstruct the conversation tree
+ * and once to render the active branch, so large JSONL sessions are never
+ * fully loaded. Rendering abandoned branches needs the whole session in
+ * memory. Sub-agent files (`agent-*.jsonl`) of the same session are picked
+ * up from the session's directory.
+ *
+ * Several files, or a session id that resolves to several files, are merged
+ * in memory with `mergeSessions` and rendered as one transcript with
+ * "session resumed" markers where the session id changes.
+ *
+ * @param input - Path to a JSON or JSONL session file, a session id, or a list of either
+ * @param options - Render options, plus parse options (`strict`, `onDiagnostic`)
+ *   and session lookup options (`projectsDir`)
+ * @returns TranscriptOutput with files Map and writeTo method
+ */
+export async function renderTranscriptFromFile(
+  input: string | string[],
+  options: RenderOptions & ParseOptions & SessionSourceOptions = {}
+): Promise<TranscriptOutput> {
+  const filePaths = await resolveSessionFiles(Array.isArray(input) ? input : [input], options);
+
+  if (filePaths.length > 1) {
+    const sessions: SessionData[] = [];
+    for (const filePath of filePaths) {
+      sessions.push(await parseSessionFile(filePath, options));
+      sessions.push({ loglines: await loadAgentLoglines(filePath, options) });
+    }
+    return renderTranscript(mergeSessions(sessions), options);
+  }
+
+  const filePath = filePaths[0]!;
+  const agentLoglines = await loadAgentLoglines(filePath, options);
+
+  if (options.alternateBranches) {
+    const session = await parseSessionFile(filePath, options);
+    return renderTranscript(
+      { loglines: [...agentLoglines, ...session.loglines] },
+      options
+    );
+  }
+
+  const selection = await selectBranchFromFile(filePath, options.leafUuid);
+  async function* loglines() {
+    yield* agentLoglines;
+    yield* filterToBranch(streamLoglines(filePath, options), selection);
+  }
+  return renderTranscriptStream(loglines(), options);
 }
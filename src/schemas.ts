@@ -61,14 +61,100 @@ export const ToolResultBlockSchema = z.object({
 });
 
 /**
- * Union of all content block types
+ * Redacted thinking content block - encrypted reasoning
+ */
+export const RedactedThinkingBlockSchema = z.object({
+  type: z.literal("redacted_thinking"),
+  data: z.string(),
+});
+
+/**
+ * Server tool use content block - a tool run by the API (e.g. web search)
+ */
+export const ServerToolUseBlockSchema = z.object({
+  type: z.literal("server_tool_use"),
+  id: z.string(),
+  name: z.string(),
+  input: ToolInputSchema,
+});
+
+/**
+ * Web search tool result content block - results of a server-side web search
+ */
+export const WebSearchResultSchema = z.looseObject({
+  type: z.literal("web_search_result"),
+  url: z.string(),
+  title: z.string(),
+  page_age: z.string().nullable().optional(),
+});
+
+export const WebSearchToolResultErrorSchema = z.looseObject({
+  type: z.literal("web_search_tool_result_error"),
+  error_code: z.string(),
+});
+
+export const WebSearchToolResultBlockSchema = z.object({
+  type: z.literal("web_search_tool_result"),
+  tool_use_id: z.string(),
+  content: z.union([z.array(WebSearchResultSchema), WebSearchToolResultErrorSchema]),
+});
+
+/**
+ * Document content block - an attached PDF or plain text document
+ */
+export const DocumentSourceSchema = z.looseObject({
+  type: z.string(),
+  media_type: z.string().optional(),
+  data: z.string().optional(),
+  url: z.string().optional(),
+});
+
+export const DocumentBlockSchema = z.object({
+  type: z.literal("document"),
+  source: DocumentSourceSchema,
+  title: z.string().nullable().optional(),
+  context: z.string().nullable().optional(),
+});
+
+/**
+ * Union of all known content block types
  */
 export const ContentBlockSchema = z.discriminatedUnion("type", [
   TextBlockSchema,
   ThinkingBlockSchema,
+  RedactedThinkingBlockSchema,
   ImageBlockSchema,
   ToolUseBlockSchema,
   ToolResultBlockSchema,
+  ServerToolUseBlockSchema,
+  WebSearchToolResultBlockSchema,
+  DocumentBlockSchema,
+]);
+
+/**
+ * Block types modelled by `ContentBlockSchema`
+ */
+export const KNOWN_CONTENT_BLOCK_TYPES: ReadonlySet<string> = new Set(
+  ContentBlockSchema.options.map((option) => option.shape.type.value)
+);
+
+/**
+ * Any other content block - kept as-is so newer block types don't
+ * invalidate the whole message
+ */
+export const UnknownContentBlockSchema = z
+  .looseObject({ type: z.string() })
+  .refine((block) => !KNOWN_CONTENT_BLOCK_TYPES.has(block.type), {
+    message: "Known block type with invalid fields",
+    abort: true,
+  });
+
+/**
+ * Block found in message content: a known block or an unknown passthrough
+ */
+export const MessageContentBlockSchema = z.union([
+  ContentBlockSchema,
+  UnknownContentBlockSchema,
 ]);
 
 // ============================================
@@ -80,15 +166,31 @@ export const ContentBlockSchema = z.discriminatedUnion("type", [
  */
 export const MessageContentSchema = z.union([
   z.string(),
-  z.array(ContentBlockSchema),
+  z.array(MessageContentBlockSchema),
 ]);
 
+/**
+ * Token usage reported for an assistant message
+ *
+ * Every logline split from one API response repeats the usage of the whole
+ * response, under the same message `id`.
+ */
+export const UsageSchema = z.looseObject({
+  input_tokens: z.number().nullable().optional(),
+  output_tokens: z.number().nullable().optional(),
+  cache_creation_input_tokens: z.number().nullable().optional(),
+  cache_read_input_tokens: z.number().nullable().optional(),
+});
+
 /**
  * Message structure
  */
 export const MessageSchema = z.object({
+  id: z.string().optional(),
   role: z.enum(["user", "assistant"]).optional(),
   content: MessageContentSchema,
+  model: z.string().optional(),
+  usage: UsageSchema.optional(),
 });
 
 // ============================================
@@ -102,7 +204,7 @@ export const MessageSchema = z.object({
  * - Current: { type, content }
  */
 export const LoglineSchema = z.object({
-  type: z.enum(["user", "assistant", "summary", "tool_use", "tool_result"]),
+  type: z.enum(["user", "assistant", "summary", "system", "tool_use", "tool_result"]),
   timestamp: z.string().optional(),
   message: MessageSchema.optional(),
   content: MessageContentSchema.optional(),
@@ -110,7 +212,13 @@ export const LoglineSchema = z.object({
   sessionId: z.string().optional(),
   cwd: z.string().optional(),
   gitBranch: z.string().optional(),
+  version: z.string().optional(),
   uuid: z.string().optional(),
+  parentUuid: z.string().nullable().optional(),
+  logicalParentUuid: z.string().nullable().optional(),
+  isSidechain: z.boolean().optional(),
+  agentId: z.string().optional(),
+  toolUseResult: z.unknown().optional(),
   summary: z.string().optional(),
   leafUuid: z.string().optional(),
   isMeta: z.boolean().optional(),
@@ -136,7 +244,15 @@ export type ThinkingBlock = z.infer<typeof ThinkingBlockSchema>;
 export type ImageBlock = z.infer<typeof ImageBlockSchema>;
 export type ToolUseBlock = z.infer<typeof ToolUseBlockSchema>;
 export type ToolResultBlock = z.infer<typeof ToolResultBlockSchema>;
+export type RedactedThinkingBlock = z.infer<typeof RedactedThinkingBlockSchema>;
+export type ServerToolUseBlock = z.infer<typeof ServerToolUseBlockSchema>;
+export type WebSearchResult = z.infer<typeof WebSearchResultSchema>;
+export type WebSearchToolResultBlock = z.infer<typeof WebSearchToolResultBlockSchema>;
+export type DocumentBlock = z.infer<typeof DocumentBlockSchema>;
 export type ContentBlock = z.infer<typeof ContentBlockSchema>;
+export type UnknownContentBlock = z.infer<typeof UnknownContentBlockSchema>;
+export type MessageContentBlock = z.infer<typeof MessageContentBlockSchema>;
+export type Usage = z.infer<typeof UsageSchema>;
 export type Message = z.infer<typeof MessageSchema>;
 export type Logline = z.infer<typeof LoglineSchema>;
 export type SessionData = z.infer<typeof SessionDataSchema>;
@@ -0,0 +1,197 @@
+/**
+ * Multi-file sessions
+ *
+ * A single piece of work often spans several session files: resuming with
+ * `--continue` or `--resume` starts a new file that carries on from a
+ * message in the previous one, often repeating earlier lines. These helpers
+ * find the files that belong together and merge them into one session.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { Logline, SessionData } from "./schemas.js";
+import type { SessionSourceOptions } from "./types.js";
+import { streamLoglines } from "./parse.js";
+
+/** Where Claude Code keeps its per-project session files */
+const DEFAULT_PROJECTS_DIR = join(homedir(), ".claude", "projects");
+
+function compareTimestamps(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Merge several sessions into one chronologically ordered session
+ *
+ * Lines repeated across files are kept once, by `uuid`. Lines without a
+ * timestamp stay right after the line they followed in their own file. A
+ * file whose conversation starts from a root of its own, rather than from a
+ * message of an earlier file, is linked to the line before it so that
+ * branch selection keeps both.
+ */
+export function mergeSessions(sessions: SessionData[]): SessionData {
+  const seen = new Set<string>();
+  const entries: { logline: Logline; timestamp: string; source: number }[] = [];
+
+  for (const [source, session] of sessions.entries()) {
+    let timestamp = "";
+    for (const logline of session.loglines) {
+      if (logline.uuid) {
+        if (seen.has(logline.uuid)) continue;
+        seen.add(logline.uuid);
+      }
+      timestamp = logline.timestamp ?? timestamp;
+      entries.push({ logline, timestamp, source });
+    }
+  }
+
+  // Array sort is stable, so lines with equal timestamps keep their order
+  entries.sort((a, b) => compareTimestamps(a.timestamp, b.timestamp));
+
+  let previous: { uuid: string; source: number } | undefined;
+  const loglines = entries.map(({ logline, source }) => {
+    if (!logline.uuid || logline.type === "summary" || logline.isSidechain) {
+      return logline;
+    }
+    const isUnlinkedRoot =
+      previous !== undefined &&
+      previous.source !== source &&
+      logline.parentUuid === null &&
+      !logline.logicalParentUuid;
+    const linked = isUnlinkedRoot ? { ...logline, logicalParentUuid: previous!.uuid } : logline;
+    previous = { uuid: logline.uuid, source };
+    return linked;
+  });
+  return { loglines };
+}
+
+/**
+ * What a session file contributes to the links between files
+ */
+interface SessionFileLinks {
+  path: string;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  sessionIds: Set<string>;
+  uuids: Set<string>;
+  parents: Set<string>;
+}
+
+async function readSessionFileLinks(path: string): Promise<SessionFileLinks> {
+  const links: SessionFileLinks = {
+    path,
+    firstTimestamp: "",
+    lastTimestamp: "",
+    sessionIds: new Set(),
+    uuids: new Set(),
+    parents: new Set(),
+  };
+
+  for await (const logline of streamLoglines(path)) {
+    links.firstTimestamp ||= logline.timestamp ?? "";
+    links.lastTimestamp = logline.timestamp ?? links.lastTimestamp;
+    if (logline.sessionId) links.sessionIds.add(logline.sessionId);
+    if (logline.uuid) links.uuids.add(logline.uuid);
+    const parent = logline.parentUuid ?? logline.logicalParentUuid;
+    if (parent) links.parents.add(parent);
+  }
+
+  return links;
+}
+
+function isLinked(a: SessionFileLinks, b: SessionFileLinks): boolean {
+  for (const parent of a.parents) {
+    if (b.uuids.has(parent)) return true;
+  }
+  for (const parent of b.parents) {
+    if (a.uuids.has(parent)) return true;
+  }
+  return false;
+}
+
+/**
+ * Find the session files that make up a session
+ *
+ * Starting from the files that contain the session id, other files of the
+ * same project are added while they continue from, or are continued by, a
+ * file already found. Every session file of the project is read once.
+ *
+ * @param sessionId - Id of any of the sessions in the chain
+ * @returns The files in chronological order, or an empty list if none match
+ */
+export async function findSessionFiles(
+  sessionId: string,
+  options: SessionSourceOptions = {}
+): Promise<string[]> {
+  const projectsDir = options.projectsDir ?? DEFAULT_PROJECTS_DIR;
+  const projects = await readdir(projectsDir).catch(() => [] as string[]);
+
+  for (const project of projects.sort()) {
+    const dir = join(projectsDir, project);
+    const entries = await readdir(dir).catch(() => [] as string[]);
+    if (!entries.includes(`${sessionId}.jsonl`)) continue;
+
+    const candidates: SessionFileLinks[] = [];
+    for (const entry of entries.sort()) {
+      if (entry.endsWith(".jsonl") && !entry.startsWith("agent-")) {
+        candidates.push(await readSessionFileLinks(join(dir, entry)));
+      }
+    }
+
+    const found = candidates.filter((links) => links.sessionIds.has(sessionId));
+    for (let added = true; added; ) {
+      added = false;
+      for (const candidate of candidates) {
+        if (!found.includes(candidate) && found.some((links) => isLinked(links, candidate))) {
+          found.push(candidate);
+          added = true;
+        }
+      }
+    }
+
+    return found
+      .sort(
+        (a, b) =>
+          compareTimestamps(a.firstTimestamp, b.firstTimestamp) ||
+          compareTimestamps(a.lastTimestamp, b.lastTimestamp)
+      )
+      .map((links) => links.path);
+  }
+
+  return [];
+}
+
+/**
+ * Resolve input paths and session ids to session files
+ *
+ * Inputs naming an existing file are used as is; anything else is looked up
+ * as a session id with `findSessionFiles`.
+ *
+ * @throws Error if an input is neither a file nor a known session id
+ */
+export async function resolveSessionFiles(
+  inputs: string[],
+  options: SessionSourceOptions = {}
+): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    const isFile = await stat(input).then(
+      (stats) => stats.isFile(),
+      () => false
+    );
+    if (isFile) {
+      files.push(input);
+      continue;
+    }
+
+    const sessionFiles = await findSessionFiles(input, options);
+    if (sessionFiles.length === 0) {
+      throw new Error(`No session file or session id found: ${input}`);
+    }
+    files.push(...sessionFiles);
+  }
+
+  return [...new Set(files)];
+}
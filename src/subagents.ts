@@ -0,0 +1,271 @@
+/**
+ * Sub-agent (Task tool) transcripts
+ *
+ * Sub-agents spawned through the `Task` tool log their work as sidechain
+ * messages (`isSidechain`), either inline in the session file or in separate
+ * `agent-<agentId>.jsonl` files next to it. The run is linked back to the
+ * Task call through the `agentId` in the tool result, or failing that by
+ * matching the Task prompt against the sub-agent's first message.
+ */
+
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import type { Logline, MessageContentBlock, ToolUseBlock } from "./schemas.js";
+import type { ParseOptions } from "./types.js";
+import { streamLoglines } from "./parse.js";
+
+/** Tool names that spawn sub-agents */
+const SUBAGENT_TOOL_NAMES: ReadonlySet<string> = new Set(["task", "agent"]);
+
+/**
+ * Check if a content block is a tool call that spawns a sub-agent
+ */
+export function isSubagentToolUse(block: MessageContentBlock): block is ToolUseBlock {
+  return (
+    block.type === "tool_use" &&
+    typeof block.name === "string" &&
+    SUBAGENT_TOOL_NAMES.has(block.name.toLowerCase())
+  );
+}
+
+/**
+ * Collects sidechain loglines and hands them out per Task call
+ */
+export interface SubagentCollector {
+  /**
+   * Offer a logline to the collector
+   *
+   * @returns true if the logline belongs to a sub-agent and was consumed
+   */
+  add(logline: Logline): boolean;
+
+  /**
+   * Take the sub-agent run started by a Task call
+   *
+   * @returns The run's loglines in order, or null if none was found
+   */
+  take(toolUse: ToolUseBlock): Logline[] | null;
+}
+
+interface SubagentRun {
+  loglines: Logline[];
+  claimed: boolean;
+}
+
+function getAgentId(value: unknown): string | undefined {
+  if (typeof value === "object" && value !== null && "agentId" in value) {
+    return typeof value.agentId === "string" ? value.agentId : undefined;
+  }
+  return undefined;
+}
+
+function getFirstPrompt(loglines: Logline[]): string | null {
+  for (const logline of loglines) {
+    if (logline.type !== "user") continue;
+    const content = logline.message?.content ?? logline.content;
+    if (typeof content === "string") {
+      return content.trim();
+    }
+    for (const block of content ?? []) {
+      if (block.type === "text" && typeof block.text === "string") {
+        return block.text.trim();
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a collector for a session's sub-agent runs
+ *
+ * Runs are keyed by `agentId` when the loglines carry one; otherwise each
+ * sidechain chain (followed through `parentUuid`) is a run of its own.
+ *
+ * @param agentLoglines - Loglines from separate agent files, if any
+ */
+export function createSubagentCollector(
+  agentLoglines: Iterable<Logline> = []
+): SubagentCollector {
+  const runs = new Map<string, SubagentRun>();
+  const runByUuid = new Map<string, SubagentRun>();
+  const agentByToolUseId = new Map<string, string>();
+  const seen = new Set<string | Logline>();
+
+  const addSidechain = (logline: Logline) => {
+    const key = logline.uuid ?? logline;
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    let run = logline.agentId ? runs.get(`agent:${logline.agentId}`) : undefined;
+    if (!run && logline.parentUuid) {
+      run = runByUuid.get(logline.parentUuid);
+    }
+    if (!run) {
+      run = { loglines: [], claimed: false };
+      runs.set(
+        logline.agentId ? `agent:${logline.agentId}` : `chain:${runs.size}`,
+        run
+      );
+    }
+
+    run.loglines.push(logline);
+    if (logline.uuid) {
+      runByUuid.set(logline.uuid, run);
+    }
+  };
+
+  for (const logline of agentLoglines) {
+    addSidechain(logline);
+  }
+
+  return {
+    add(logline) {
+      if (logline.isSidechain) {
+        addSidechain(logline);
+        return true;
+      }
+
+      const agentId = getAgentId(logline.toolUseResult);
+      const content = logline.message?.content;
+      if (agentId && Array.isArray(content)) {
+        for (const block of content) {
+          if (block.type === "tool_result" && typeof block.tool_use_id === "string") {
+            agentByToolUseId.set(block.tool_use_id, agentId);
+          }
+        }
+      }
+      return false;
+    },
+
+    take(toolUse) {
+      const agentId = agentByToolUseId.get(toolUse.id);
+      let run = agentId ? runs.get(`agent:${agentId}`) : undefined;
+
+      if (!run) {
+        const prompt = typeof toolUse.input.prompt === "string" ? toolUse.input.prompt.trim() : null;
+        for (const candidate of runs.values()) {
+          if (!candidate.claimed && prompt && getFirstPrompt(candidate.loglines) === prompt) {
+            run = candidate;
+            break;
+          }
+        }
+      }
+
+      if (!run || run.claimed) {
+        return null;
+      }
+      run.claimed = true;
+      return run.loglines;
+    },
+  };
+}
+
+/**
+ * Gather a session's sub-agent runs keyed by the id of their Task call
+ *
+ * @param loglines - Session loglines, including sidechain loglines
+ * @param agentLoglines - Loglines from separate agent files, if any
+ */
+export function collectSubagentRuns(
+  loglines: Iterable<Logline>,
+  agentLoglines: Iterable<Logline> = []
+): Map<string, Logline[]> {
+  const collector = createSubagentCollector(agentLoglines);
+  const toolUses: ToolUseBlock[] = [];
+
+  for (const logline of loglines) {
+    if (collector.add(logline)) continue;
+
+    const content = logline.message?.content;
+    if (logline.type !== "assistant" || !Array.isArray(content)) continue;
+    for (const block of content) {
+      if (isSubagentToolUse(block)) {
+        toolUses.push(block);
+      }
+    }
+  }
+
+  const runs = new Map<string, Logline[]>();
+  for (const toolUse of toolUses) {
+    const run = collector.take(toolUse);
+    if (run) {
+      runs.set(toolUse.id, run);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Read the session id of a file, stopping at its first message
+ *
+ * Lines before the first message, such as summaries, may carry no id.
+ */
+async function readSessionId(filePath: string): Promise<string | undefined> {
+  for await (const logline of streamLoglines(filePath)) {
+    if (logline.sessionId || logline.type === "user" || logline.type === "assistant") {
+      return logline.sessionId;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the sub-agent files belonging to a session file
+ *
+ * Looks for `agent-*.jsonl` next to the session file and in the
+ * `<sessionId>/subagents/` directory used by newer Claude Code versions.
+ */
+async function findAgentFiles(filePath: string, sessionId: string): Promise<string[]> {
+  const dir = dirname(filePath);
+  const candidates = [dir, join(dir, sessionId, "subagents")];
+  const files: string[] = [];
+
+  for (const candidate of candidates) {
+    let entries: string[];
+    try {
+      entries = await readdir(candidate);
+    } catch {
+      continue;
+    }
+    for (const entry of entries.sort()) {
+      const path = join(candidate, entry);
+      if (/^agent-.+\.jsonl$/.test(entry) && path !== filePath && entry !== basename(filePath)) {
+        files.push(path);
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Load the sidechain loglines of a session's sub-agent files
+ *
+ * Agent files of other sessions in the same directory are skipped by
+ * comparing the `sessionId` of their first message, without reading the
+ * rest of them.
+ *
+ * @param filePath - Path to the main session file
+ * @param options - Parse options for the agent files, and the session id of
+ *   the main session; read from the file if omitted
+ */
+export async function loadAgentLoglines(
+  filePath: string,
+  options: ParseOptions & { sessionId?: string } = {}
+): Promise<Logline[]> {
+  const sessionId = options.sessionId ?? (await readSessionId(filePath));
+  if (!sessionId) {
+    return [];
+  }
+
+  const loglines: Logline[] = [];
+  for (const agentFile of await findAgentFiles(filePath, sessionId)) {
+    if ((await readSessionId(agentFile)) !== sessionId) continue;
+    for await (const logline of streamLoglines(agentFile, options)) {
+      if (logline.sessionId === sessionId) {
+        loglines.push({ ...logline, isSidechain: true });
+      }
+    }
+  }
+  return loglines;
+}
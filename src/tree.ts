@@ -0,0 +1,324 @@
+/**
+ * Conversation tree reconstruction
+ *
+ * Claude Code sessions are trees rather than lists: every logline points to
+ * its parent through `parentUuid`, and rewinds, prompt edits and retries add
+ * sibling branches. Rendering the file in order would interleave abandoned
+ * branches with the conversation that actually continued.
+ */
+
+import type { Logline } from "./schemas.js";
+import { streamLoglines } from "./parse.js";
+
+/**
+ * The branch chosen for rendering, and the branches that were abandoned
+ */
+export interface BranchSelection {
+  /** uuid of the last logline on the active branch */
+  leafUuid: string;
+  /** uuids of every logline on the active branch */
+  active: Set<string>;
+  /**
+   * Abandoned branches as lists of uuids in file order, keyed by the uuid of
+   * the active message they fork from
+   */
+  alternates: Map<string, string[][]>;
+}
+
+/**
+ * Loglines split according to a branch selection
+ */
+export interface BranchLoglines {
+  /** Loglines on the active branch, plus those not part of the tree */
+  loglines: Logline[];
+  /** Abandoned branches keyed by the uuid of the message they fork from */
+  alternates: Map<string, Logline[][]>;
+}
+
+interface TreeNode {
+  logline: Logline;
+  index: number;
+  parent: string | null;
+  children: string[];
+}
+
+/**
+ * Check if a logline takes part in the main conversation tree
+ *
+ * Sidechain (sub-agent) loglines form trees of their own and are left alone.
+ */
+function isTreeNode(logline: Logline): logline is Logline & { uuid: string } {
+  return Boolean(logline.uuid) && logline.type !== "summary" && !logline.isSidechain;
+}
+
+function isMessage(logline: Logline): boolean {
+  return logline.type === "user" || logline.type === "assistant";
+}
+
+/**
+ * Compare two nodes by recency: later timestamp first, then later in the file
+ */
+function isMoreRecent(a: TreeNode, b: TreeNode): boolean {
+  const aTime = a.logline.timestamp ?? "";
+  const bTime = b.logline.timestamp ?? "";
+  if (aTime !== bTime) {
+    return aTime > bTime;
+  }
+  return a.index > b.index;
+}
+
+function buildTree(loglines: Iterable<Logline>): Map<string, TreeNode> {
+  const nodes = new Map<string, TreeNode>();
+  let index = 0;
+
+  for (const logline of loglines) {
+    if (isTreeNode(logline) && !nodes.has(logline.uuid)) {
+      nodes.set(logline.uuid, { logline, index, parent: null, children: [] });
+    }
+    index++;
+  }
+
+  for (const [uuid, node] of nodes) {
+    // After a compaction the chain restarts with a null parentUuid and the
+    // previous message is only kept as the logical parent
+    const parent = node.logline.parentUuid ?? node.logline.logicalParentUuid;
+    const parentNode = parent ? nodes.get(parent) : undefined;
+    if (parent && parentNode) {
+      node.parent = parent;
+      parentNode.children.push(uuid);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Find the most recent leaf at or below a node
+ */
+function findLatestLeaf(nodes: Map<string, TreeNode>, uuid: string): string {
+  let best: TreeNode | null = null;
+  let bestUuid = uuid;
+  const stack = [uuid];
+  const seen = new Set<string>();
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+
+    const node = nodes.get(current);
+    if (!node) continue;
+
+    if (node.children.length === 0) {
+      if (!best || isMoreRecent(node, best)) {
+        best = node;
+        bestUuid = current;
+      }
+    } else {
+      stack.push(...node.children);
+    }
+  }
+
+  return bestUuid;
+}
+
+/**
+ * Pick the leaf of the active branch
+ *
+ * An explicit `leafUuid` wins, then the leaf recorded by the last summary
+ * line, then the most recent leaf. If the chosen message has since been
+ * continued, its most recent descendant is used.
+ */
+function chooseLeaf(
+  loglines: Logline[],
+  nodes: Map<string, TreeNode>,
+  leafUuid?: string
+): string | null {
+  if (leafUuid && nodes.has(leafUuid)) {
+    return findLatestLeaf(nodes, leafUuid);
+  }
+
+  for (let i = loglines.length - 1; i >= 0; i--) {
+    const logline = loglines[i];
+    if (logline?.type === "summary" && logline.leafUuid && nodes.has(logline.leafUuid)) {
+      return findLatestLeaf(nodes, logline.leafUuid);
+    }
+  }
+
+  let latest: [string, TreeNode] | null = null;
+  for (const entry of nodes) {
+    const [, node] = entry;
+    if (node.children.length === 0 && (!latest || isMoreRecent(node, latest[1]))) {
+      latest = entry;
+    }
+  }
+  return latest ? latest[0] : null;
+}
+
+/**
+ * Collect a subtree's uuids in file order
+ */
+function collectSubtree(nodes: Map<string, TreeNode>, uuid: string): string[] {
+  const collected: TreeNode[] = [];
+  const uuids = new Map<TreeNode, string>();
+  const stack = [uuid];
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    const node = nodes.get(current);
+    if (!node || uuids.has(node)) continue;
+    uuids.set(node, current);
+    collected.push(node);
+    stack.push(...node.children);
+  }
+
+  return collected
+    .sort((a, b) => a.index - b.index)
+    .map((node) => uuids.get(node)!);
+}
+
+/**
+ * Reconstruct the conversation tree and select the branch to render
+ *
+ * @param loglines - All loglines of the session, in file order
+ * @param leafUuid - Render the branch through this message instead of the default
+ * @returns The selection, or null if the loglines carry no parent links
+ */
+export function selectBranch(
+  loglines: Iterable<Logline>,
+  leafUuid?: string
+): BranchSelection | null {
+  const lines = Array.from(loglines);
+  if (!lines.some((logline) => isTreeNode(logline) && logline.parentUuid !== undefined)) {
+    return null;
+  }
+
+  const nodes = buildTree(lines);
+  const leaf = chooseLeaf(lines, nodes, leafUuid);
+  if (!leaf) {
+    return null;
+  }
+
+  // Walk up from the leaf to the root
+  const path: string[] = [];
+  const active = new Set<string>();
+  for (let uuid: string | null = leaf; uuid && !active.has(uuid); ) {
+    active.add(uuid);
+    path.unshift(uuid);
+    uuid = nodes.get(uuid)?.parent ?? null;
+  }
+
+  // Abandoned branches are attached to the nearest message at or above the
+  // fork point, or to the first message for branches that fork at the root
+  const firstMessage = path.find((uuid) => isMessage(nodes.get(uuid)!.logline));
+  const alternates = new Map<string, string[][]>();
+  const addAlternate = (anchor: string | undefined, root: string) => {
+    if (!anchor) return;
+    const branches = alternates.get(anchor) ?? [];
+    branches.push(collectSubtree(nodes, root));
+    alternates.set(anchor, branches);
+  };
+
+  let anchor = firstMessage;
+  for (const uuid of path) {
+    const node = nodes.get(uuid)!;
+    if (isMessage(node.logline)) {
+      anchor = uuid;
+    }
+    for (const child of node.children) {
+      if (!active.has(child)) {
+        addAlternate(anchor, child);
+      }
+    }
+  }
+
+  for (const [uuid, node] of nodes) {
+    if (node.parent === null && !active.has(uuid)) {
+      addAlternate(firstMessage, uuid);
+    }
+  }
+
+  return { leafUuid: leaf, active, alternates };
+}
+
+/**
+ * Check if a logline should be rendered as part of the active branch
+ *
+ * Loglines outside the tree (no uuid, sidechains, summaries) always are.
+ */
+export function isOnActiveBranch(logline: Logline, selection: BranchSelection): boolean {
+  return !isTreeNode(logline) || selection.active.has(logline.uuid);
+}
+
+/**
+ * Split loglines into the active branch and its abandoned alternates
+ */
+export function applyBranchSelection(
+  loglines: Logline[],
+  selection: BranchSelection | null
+): BranchLoglines {
+  if (!selection) {
+    return { loglines, alternates: new Map() };
+  }
+
+  const byUuid = new Map<string, Logline>();
+  for (const logline of loglines) {
+    if (logline.uuid && !byUuid.has(logline.uuid)) {
+      byUuid.set(logline.uuid, logline);
+    }
+  }
+
+  const alternates = new Map<string, Logline[][]>();
+  for (const [anchor, branches] of selection.alternates) {
+    alternates.set(
+      anchor,
+      branches.map((uuids) =>
+        uuids.map((uuid) => byUuid.get(uuid)).filter((l): l is Logline => Boolean(l))
+      )
+    );
+  }
+
+  return {
+    loglines: loglines.filter((logline) => isOnActiveBranch(logline, selection)),
+    alternates,
+  };
+}
+
+/**
+ * Keep only the loglines of the active branch from a stream
+ */
+export async function* filterToBranch(
+  loglines: AsyncIterable<Logline>,
+  selection: BranchSelection | null
+): AsyncGenerator<Logline> {
+  for await (const logline of loglines) {
+    if (!selection || isOnActiveBranch(logline, selection)) {
+      yield logline;
+    }
+  }
+}
+
+/**
+ * Select the active branch of a session file without loading its content
+ *
+ * Only the fields that link the tree together are kept while scanning, so
+ * this is safe to run as a first pass over very large files.
+ */
+export async function selectBranchFromFile(
+  filePath: string,
+  leafUuid?: string
+): Promise<BranchSelection | null> {
+  const skeleton: Logline[] = [];
+  for await (const logline of streamLoglines(filePath)) {
+    skeleton.push({
+      type: logline.type,
+      timestamp: logline.timestamp,
+      uuid: logline.uuid,
+      parentUuid: logline.parentUuid,
+      logicalParentUuid: logline.logicalParentUuid,
+      isSidechain: logline.isSidechain,
+      leafUuid: logline.leafUuid,
+    });
+  }
+  return selectBranch(skeleton, leafUuid);
+}
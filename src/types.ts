@@ -2,6 +2,9 @@
  * TypeScript type definitions for cc-transcript
  */
 
+import type { VNode } from "preact";
+import type { SessionData, ToolResultBlock, ToolUseBlock } from "./schemas.js";
+
 // Re-export Zod-inferred types
 export type {
   TextBlock,
@@ -9,25 +12,406 @@ export type {
   ImageBlock,
   ToolUseBlock,
   ToolResultBlock,
+  RedactedThinkingBlock,
+  ServerToolUseBlock,
+  WebSearchResult,
+  WebSearchToolResultBlock,
+  DocumentBlock,
   ContentBlock,
+  UnknownContentBlock,
+  MessageContentBlock,
   Message,
   Logline,
   SessionData,
 } from "./schemas.js";
 
+/**
+ * A session file line that was rejected during parsing
+ */
+export interface ParseDiagnostic {
+  /** Path of the file the line is in, as it was given */
+  file: string;
+  /** 1-based line number in the session file */
+  line: number;
+  /** Start of the raw line */
+  snippet: string;
+  /** Path of the invalid field (empty when the line is not valid JSON) */
+  path: PropertyKey[];
+  /** Why the line was rejected */
+  reason: string;
+}
+
+/**
+ * Options for parsing a session file
+ */
+export interface ParseOptions {
+  /** Throw a `SessionParseError` if any line is rejected */
+  strict?: boolean;
+  /** Called for every rejected line as it is found */
+  onDiagnostic?: (diagnostic: ParseDiagnostic) => void;
+}
+
+/**
+ * Session data returned by `parseSessionFile`
+ */
+export interface ParsedSession extends SessionData {
+  /** Lines that were skipped because they failed to parse or validate */
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Options for locating session files by session id
+ */
+export interface SessionSourceOptions {
+  /** Directory holding one folder of session files per project (default: ~/.claude/projects) */
+  projectsDir?: string;
+}
+
+/**
+ * A text replacement made by an Edit or MultiEdit call
+ */
+export interface FileEdit {
+  oldString: string;
+  newString: string;
+  replaceAll?: boolean;
+}
+
+/**
+ * What a tool renderer can look up about the rest of the session
+ */
+export interface ToolRenderContext {
+  /**
+   * Find the line each of a sequence of edits to a file starts on, from the
+   * Read results and edits seen earlier in the session. Edits that cannot
+   * be placed get undefined.
+   */
+  locateEdits(filePath: string, edits: FileEdit[]): Array<number | undefined>;
+}
+
+/**
+ * Custom rendering for a tool
+ *
+ * Either hook may return null to fall back to the next matching renderer,
+ * and finally to the built-in rendering.
+ */
+export interface ToolRenderer {
+  /** Render a call of the tool, given its result if there is one */
+  renderUse?(
+    use: ToolUseBlock,
+    result: ToolResultBlock | undefined,
+    context: ToolRenderContext
+  ): VNode | string | null;
+  /** Render a result of the tool, given the call it answers */
+  renderResult?(result: ToolResultBlock, use: ToolUseBlock): VNode | string | null;
+}
+
+/**
+ * Tool renderers keyed by tool name or glob pattern (`*` and `?`), e.g.
+ * `"mcp__jira__create_issue"` or `"mcp__db__*"`. Names match case-insensitively;
+ * exact names win over patterns, and patterns are tried in insertion order.
+ */
+export type ToolRenderers = Record<string, ToolRenderer>;
+
 /**
  * Options for rendering a transcript
  */
 export interface RenderOptions {
   /** GitHub repository (owner/name) for commit links */
   githubRepo?: string;
+
+  /**
+   * Render the branch of the conversation tree that runs through this
+   * message. Defaults to the leaf recorded in the session summary, or the
+   * most recent leaf.
+   */
+  leafUuid?: string;
+
+  /** Render abandoned branches as collapsible "alternate path" sections */
+  alternateBranches?: boolean;
+
+  /** Transcript title. Defaults to the session summary. */
+  title?: string;
+
+  /**
+   * Render each tool result under its call as one card, with a status badge
+   * and the elapsed time, instead of as a separate "Tool reply" message
+   */
+  pairToolResults?: boolean;
+
+  /** Custom renderers for tools, tried before the built-in ones */
+  toolRenderers?: ToolRenderers;
+
+  /** How conversations are split into pages (default: 5 prompts per page) */
+  pagination?: PaginationStrategy;
+
+  /**
+   * Render only the loglines and content blocks matching this filter. Each
+   * field narrows only what it is about: `{ tools: ["Bash"] }` drops calls to
+   * other tools but keeps text and thinking.
+   */
+  include?: ContentFilter;
+
+  /** Leave out the loglines and content blocks matching this filter */
+  exclude?: ContentFilter;
+
+  /**
+   * Show a before/after diff of each changed file on the files report, from
+   * its replayed Write and Edit calls
+   */
+  fileDiffs?: boolean;
+
+  /** Model prices, used over the built-in ones for the models they cover */
+  pricing?: PricingTable;
+
+  /**
+   * Render the index, the pages and the report pages into one
+   * `transcript.html`, searchable when opened from disk. HTML only.
+   */
+  singleFile?: boolean;
+
+  /**
+   * Output format (default: "html"). Markdown goes in one `transcript.md`,
+   * or with `pagination` set, one file per page and an `index.md`; it has no
+   * report pages, and custom tool renderers are not used.
+   */
+  format?: "html" | "markdown";
+}
+
+/**
+ * Prices of a model in US dollars per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Writing to the prompt cache */
+  cacheWrite: number;
+  /** Reading from the prompt cache */
+  cacheRead: number;
+}
+
+/**
+ * Model prices keyed by model id or id prefix, e.g. `"claude-sonnet-4"`; the
+ * longest key a model id starts with wins
+ */
+export type PricingTable = Record<string, ModelPricing>;
+
+/**
+ * Tokens used by assistant messages, and what they cost
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Cost in US dollars of the tokens of priced models */
+  cost: number;
+  /** Models without a price, whose tokens `cost` leaves out */
+  unpricedModels: string[];
+}
+
+/**
+ * Kinds of content block, for filtering
+ *
+ * Redacted thinking counts as thinking, server tool calls as `tool_use` and
+ * web search results as `tool_result`.
+ */
+export type ContentBlockKind =
+  | "text"
+  | "thinking"
+  | "tool_use"
+  | "tool_result"
+  | "image"
+  | "document";
+
+/**
+ * Logline flags, for filtering
+ */
+export type LoglineFlag = "isMeta" | "isCompactSummary" | "isSidechain";
+
+/**
+ * What part of a session a filter selects
+ *
+ * A filter matches a logline with any of `flags` set, and a content block of
+ * any of `blocks` kinds or belonging to a call to any of `tools`. Filters are
+ * applied before conversations are grouped, so the index stats, commits and
+ * pagination only count what is rendered; a message left with no content is
+ * dropped.
+ */
+export interface ContentFilter {
+  /** Content block kinds */
+  blocks?: ContentBlockKind[];
+  /**
+   * Tool names or glob patterns, e.g. `"Read"` or `"mcp__*"`, matching both
+   * the calls and their results
+   */
+  tools?: string[];
+  /** Logline flags */
+  flags?: LoglineFlag[];
+}
+
+/**
+ * How conversations are split into pages
+ *
+ * Pages always break between conversations, never inside one.
+ * - `promptsPerPage`: a fixed number of conversations per page
+ * - `maxBytesPerPage`: as many conversations as fit in this much rendered
+ *   HTML; a larger conversation gets a page of its own
+ * - `byDay`: one page per UTC calendar day, named `page-YYYY-MM-DD.html`
+ */
+export type PaginationStrategy =
+  | { promptsPerPage: number }
+  | { maxBytesPerPage: number }
+  | { byDay: true };
+
+/**
+ * Session details shown in the index page header
+ */
+export interface SessionMetadata {
+  /** Human-readable title from the session's summary line */
+  title?: string;
+  sessionIds: string[];
+  /** Working directory the session started in */
+  cwd?: string;
+  /** Git branches in the order they were first seen */
+  gitBranches: string[];
+  /** Claude Code versions in the order they were first seen */
+  versions: string[];
+  /** Models that answered, in the order they were first seen */
+  models: string[];
+  /** Earliest and latest logline timestamps */
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * Calls to one tool
+ */
+export interface ToolUsage {
+  name: string;
+  calls: number;
+  /** Calls whose result is an error */
+  errors: number;
+}
+
+/**
+ * Tool calls started in one time bucket, by tool name
+ */
+export interface ToolCallBucket {
+  /** ISO timestamp of the start of the bucket */
+  start: string;
+  counts: Record<string, number>;
+}
+
+/**
+ * What one prompt led to; the work after a compaction counts towards the
+ * prompt it continues
+ */
+export interface PromptStats {
+  text: string;
+  timestamp: string;
+  /** Runs of assistant messages between tool replies */
+  assistantTurns: number;
+  /** Tool calls, including those of sub-agents */
+  toolCalls: number;
+  toolErrors: number;
+  /** Tokens used answering the prompt, including by sub-agents */
+  usage: TokenUsage;
+  /** Link to the prompt, when rendered */
+  href?: string;
+}
+
+/**
+ * A long thinking block, or the content of a long file write
+ */
+export interface LongTextStats {
+  /** "thinking", or the name of the tool that wrote it */
+  type: string;
+  /** Length in characters */
+  length: number;
+  preview: string;
+  timestamp: string;
+  /** Link to the message, when rendered */
+  href?: string;
+}
+
+/**
+ * Context one assistant request took up
+ */
+export interface ContextSample {
+  timestamp: string;
+  /** Input tokens of the request, read from and written to the cache included */
+  tokens: number;
+  model: string;
+  /** Set on the first request after the context was compacted */
+  afterCompaction?: boolean;
+  /** Link to the message, when rendered */
+  href?: string;
+}
+
+/**
+ * Statistics about a whole session
+ */
+export interface SessionStats {
+  /** Tools by number of calls, most called first */
+  tools: ToolUsage[];
+  /** Tool calls over time in buckets of `bucketMs`, empty buckets included */
+  toolCallsOverTime: { bucketMs: number; buckets: ToolCallBucket[] };
+  /** Prompts in order */
+  prompts: PromptStats[];
+  /** Long texts, longest first */
+  longTexts: LongTextStats[];
+  /** Tokens used by the whole session */
+  usage: TokenUsage;
+  /** Tokens used per model, most expensive first */
+  usageByModel: Array<TokenUsage & { model: string }>;
+  /** Context of each request of the main conversation, in order; sub-agents left out */
+  contextGrowth: ContextSample[];
+}
+
+/**
+ * A change to a file that could not be replayed
+ */
+export interface ReconstructionFailure {
+  /** Id of the Write, Edit or MultiEdit call */
+  toolUseId: string;
+  tool: string;
+  /** Why it could not be applied, e.g. "text not found" */
+  reason: string;
+}
+
+/**
+ * The contents of one file before and after a session changed it
+ */
+export interface ReconstructedFile {
+  path: string;
+  /**
+   * Content before the session's first change to it, or null if the file was
+   * created by the session or not read in full before it was changed
+   */
+  before: string | null;
+  /** Content after the session's last change, or null if it is not known */
+  after: string | null;
+  /** Set if the final content is known */
+  complete: boolean;
+  /** Changes that could not be replayed, in order */
+  failures: ReconstructionFailure[];
+}
+
+/**
+ * Files changed by a session, rebuilt from its tool calls
+ */
+export interface FileReconstruction {
+  /** Changed files in order of path */
+  files: ReconstructedFile[];
+  /** Working directory the session started in */
+  cwd?: string;
 }
 
 /**
  * Output from rendering a transcript
  */
 export interface TranscriptOutput {
-  /** Map of filename to HTML content */
+  /** Map of filename to content, HTML or Markdown */
   files: Map<string, string>;
 
   /** Write all files to a directory */
@@ -59,17 +443,30 @@ export interface ConversationStats {
   commits: CommitInfo[];
 }
 
+/**
+ * Message within a grouped conversation
+ */
+export interface ConversationMessage {
+  type: "user" | "assistant";
+  messageJson: string;
+  timestamp: string;
+  /** Logline uuid, used for the message's element id */
+  uuid?: string;
+  /** Abandoned branches that fork from this message */
+  alternates?: ConversationMessage[][];
+  /** Sub-agent runs keyed by the id of the Task call that started them */
+  subagents?: Record<string, ConversationMessage[]>;
+  /** Set on the first message after the conversation moved to another session */
+  resumed?: { sessionId: string; cwd?: string };
+}
+
 /**
  * Grouped conversation (user prompt + assistant responses)
  */
 export interface Conversation {
   userText: string;
   timestamp: string;
-  messages: Array<{
-    type: "user" | "assistant";
-    messageJson: string;
-    timestamp: string;
-  }>;
+  messages: ConversationMessage[];
   isContinuation: boolean;
 }
 
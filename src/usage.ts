@@ -0,0 +1,162 @@
+/**
+ * Token usage and cost
+ *
+ * Assistant messages report the tokens their API request used: input, output,
+ * and input written to or read from the prompt cache. Costs come from a
+ * pricing table per model; usage of models missing from it is counted but
+ * not priced.
+ */
+
+import type { Message } from "./schemas.js";
+import type { ModelPricing, PricingTable, TokenUsage } from "./types.js";
+
+/**
+ * List prices in US dollars per million tokens, with 5-minute cache writes
+ */
+export const DEFAULT_PRICING: PricingTable = {
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+};
+
+/** Model name Claude Code gives messages it made up itself, which use no tokens */
+const SYNTHETIC_MODEL = "<synthetic>";
+
+/** Model name for usage of messages that do not say their model */
+const UNKNOWN_MODEL = "unknown";
+
+/**
+ * Find the price of a model: the entry with the longest key the model id
+ * starts with
+ */
+export function findModelPricing(model: string, pricing: PricingTable): ModelPricing | undefined {
+  let best: string | undefined;
+  for (const key of Object.keys(pricing)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best !== undefined ? pricing[best] : undefined;
+}
+
+/**
+ * Usage of no tokens
+ */
+export function emptyUsage(): TokenUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    cost: 0,
+    unpricedModels: [],
+  };
+}
+
+/**
+ * Add two usages together
+ */
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheCreationTokens: a.cacheCreationTokens + b.cacheCreationTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens,
+    cost: a.cost + b.cost,
+    unpricedModels: [...new Set([...a.unpricedModels, ...b.unpricedModels])],
+  };
+}
+
+/**
+ * Total tokens of a usage, of every kind
+ */
+export function getTotalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+}
+
+/**
+ * Share of input tokens read from the prompt cache
+ *
+ * @returns undefined if there were no input tokens
+ */
+export function getCacheHitRatio(usage: TokenUsage): number | undefined {
+  const input = usage.inputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+  return input > 0 ? usage.cacheReadTokens / input : undefined;
+}
+
+/**
+ * Adds up the usage of assistant messages
+ */
+export interface UsageCounter {
+  /**
+   * Count a message's usage, once per message id
+   *
+   * @returns The usage added, empty for messages without usage or already
+   *   counted
+   */
+  add(message: Message): TokenUsage;
+  /** Usage of every message counted */
+  finish(): TokenUsage;
+  /** Usage of every message counted, by model */
+  byModel(): Map<string, TokenUsage>;
+}
+
+/**
+ * Create a counter pricing models by `pricing` over `DEFAULT_PRICING`
+ */
+export function createUsageCounter(pricing: PricingTable = {}): UsageCounter {
+  const table = { ...DEFAULT_PRICING, ...pricing };
+  const seen = new Set<string>();
+  const models = new Map<string, TokenUsage>();
+  let total = emptyUsage();
+
+  return {
+    add(message) {
+      const { usage, id } = message;
+      const model = message.model ?? UNKNOWN_MODEL;
+      if (!usage || model === SYNTHETIC_MODEL) return emptyUsage();
+      if (id) {
+        if (seen.has(id)) return emptyUsage();
+        seen.add(id);
+      }
+
+      const added: TokenUsage = {
+        inputTokens: usage.input_tokens ?? 0,
+        outputTokens: usage.output_tokens ?? 0,
+        cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+        cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+        cost: 0,
+        unpricedModels: [],
+      };
+      const price = findModelPricing(model, table);
+      if (price) {
+        added.cost =
+          (added.inputTokens * price.input +
+            added.outputTokens * price.output +
+            added.cacheCreationTokens * price.cacheWrite +
+            added.cacheReadTokens * price.cacheRead) /
+          1_000_000;
+      } else {
+        added.unpricedModels.push(model);
+      }
+
+      total = addUsage(total, added);
+      models.set(model, addUsage(models.get(model) ?? emptyUsage(), added));
+      return added;
+    },
+
+    finish() {
+      return total;
+    },
+
+    byModel() {
+      return new Map(models);
+    },
+  };
+}
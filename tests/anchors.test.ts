@@ -0,0 +1,114 @@
+/**
+ * Unit tests for message and block anchors
+ */
+
+import { test, expect, describe } from "bun:test";
+import { createAnchorRegistry, makeLegacyMsgId, makeMsgId } from "../src/render/anchors.ts";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import type { ConversationMessage } from "../src/render/pagination.ts";
+
+function message(timestamp: string, uuid?: string): ConversationMessage {
+  return { type: "user", messageJson: "{}", timestamp, uuid };
+}
+
+describe("makeMsgId", () => {
+  test("uses the uuid, or the sequence number without one", () => {
+    expect(makeMsgId("0b5c7a8e-3f4d", 1)).toBe("msg-0b5c7a8e-3f4d");
+    expect(makeMsgId(undefined, 7)).toBe("msg-7");
+  });
+
+  test("keeps the old timestamp scheme for redirects", () => {
+    expect(makeLegacyMsgId("2025-12-24T10:00:00.000Z")).toBe("msg-2025-12-24T10-00-00-000Z");
+  });
+});
+
+describe("createAnchorRegistry", () => {
+  test("gives each message one unique id", () => {
+    const anchors = createAnchorRegistry();
+    const first = message("2025-12-24T10:00:00.000Z", "same");
+    const second = message("2025-12-24T10:00:00.000Z", "same");
+
+    expect(anchors.message(first)).toBe("msg-same");
+    expect(anchors.message(second)).toBe("msg-same-2");
+    expect(anchors.message(first)).toBe("msg-same");
+    expect(anchors.message(message(""))).toBe("msg-3");
+  });
+
+  test("names blocks after their tool call or message", () => {
+    const anchors = createAnchorRegistry();
+
+    expect(
+      anchors.block({ type: "tool_use", id: "toolu_1", name: "Bash", input: {} }, "msg-a")
+    ).toBe("tool-toolu_1");
+    expect(
+      anchors.block({ type: "tool_result", tool_use_id: "toolu_1", content: "ok" }, "msg-b")
+    ).toBe("result-toolu_1");
+    expect(anchors.block({ type: "thinking", thinking: "Hm" }, "msg-a")).toBe("msg-a-thinking");
+    expect(anchors.block({ type: "thinking", thinking: "Hm" }, "msg-a")).toBe("msg-a-thinking-2");
+    expect(anchors.block({ type: "text", text: "Hi" }, "msg-a")).toBeUndefined();
+  });
+
+  test("hands out each redirect once", () => {
+    const anchors = createAnchorRegistry();
+    anchors.message(message("2025-12-24T10:00:00.000Z", "u1"));
+    anchors.message(message(""));
+
+    expect(anchors.takeRedirects()).toEqual([["msg-2025-12-24T10-00-00-000Z", "msg-u1"]]);
+    expect(anchors.takeRedirects()).toEqual([]);
+  });
+});
+
+describe("renderTranscript", () => {
+  const timestamp = "2025-12-24T10:00:00.000Z";
+  const loglines: Logline[] = [
+    { type: "user", uuid: "u1", timestamp, message: { role: "user", content: "First" } },
+    {
+      type: "assistant",
+      uuid: "a1",
+      timestamp,
+      message: {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Listing files" },
+          { type: "tool_use", id: "toolu_ls", name: "Bash", input: { command: "ls" } },
+        ],
+      },
+    },
+    {
+      type: "user",
+      timestamp,
+      message: {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_ls", content: "a.txt" }],
+      },
+    },
+    { type: "user", uuid: "u2", timestamp, message: { role: "user", content: "Second" } },
+  ];
+
+  test("gives messages sharing a timestamp distinct ids", () => {
+    const output = renderTranscript({ loglines });
+    const page = output.files.get("page-001.html")!;
+
+    expect(page).toContain('id="msg-u1"');
+    expect(page).toContain('id="msg-a1"');
+    expect(page).toContain('id="msg-3"');
+    expect(page).toContain('id="msg-u2"');
+    expect(output.files.get("index.html")).toContain('href="page-001.html#msg-u2"');
+  });
+
+  test("anchors tool calls, results and thinking", () => {
+    const page = renderTranscript({ loglines }).files.get("page-001.html")!;
+
+    expect(page).toContain('<div class="block-anchor" id="msg-a1-thinking"><a href="#msg-a1-thinking" class="anchor-link"');
+    expect(page).toContain('id="tool-toolu_ls"');
+    expect(page).toContain('id="result-toolu_ls"');
+  });
+
+  test("redirects the old timestamp id to the first message", () => {
+    const page = renderTranscript({ loglines }).files.get("page-001.html")!;
+
+    expect(page).toContain('var redirects = {"msg-2025-12-24T10-00-00-000Z":"msg-u1"};');
+    expect(renderTranscript({ loglines }).files.get("index.html")).not.toContain("var redirects");
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Unit tests for line and word diffs
+ */
+
+import { test, expect, describe } from "bun:test";
+import { diffLines, diffWords, toHunks, toSplitRows } from "../src/render/diff.ts";
+
+describe("diffLines", () => {
+  test("keeps unchanged lines as context", () => {
+    const lines = diffLines("a\nb\nc", "a\nB\nc");
+
+    expect(lines.map((line) => [line.type, line.text])).toEqual([
+      ["context", "a"],
+      ["removed", "b"],
+      ["added", "B"],
+      ["context", "c"],
+    ]);
+  });
+
+  test("numbers lines from the start line", () => {
+    const lines = diffLines("a\nb", "a\nx\nb", 40);
+
+    expect(lines.map((line) => [line.oldNumber, line.newNumber])).toEqual([
+      [40, 40],
+      [undefined, 41],
+      [41, 42],
+    ]);
+  });
+
+  test("handles texts too long to align line by line", () => {
+    const oldText = Array.from({ length: 1_000_000 }, (_, i) => `line ${i}`).join("\n");
+    const lines = diffLines(oldText, Array.from({ length: 10 }, (_, i) => `new ${i}`).join("\n"));
+
+    expect(lines).toHaveLength(1_000_010);
+    expect(lines.filter((line) => line.type === "removed")).toHaveLength(1_000_000);
+  });
+
+  test("marks changed words in replaced lines", () => {
+    const [removed, added] = diffLines("const total = 1;", "const sum = 1;");
+
+    expect(removed!.segments).toEqual([
+      { text: "const ", changed: false },
+      { text: "total", changed: true },
+      { text: " = 1;", changed: false },
+    ]);
+    expect(added!.segments?.[1]).toEqual({ text: "sum", changed: true });
+  });
+
+  test("leaves unrelated replacements unmarked", () => {
+    const [removed] = diffLines("alpha", "beta");
+    expect(removed!.segments).toBeUndefined();
+  });
+});
+
+describe("diffWords", () => {
+  test("splits on words, whitespace and punctuation", () => {
+    expect(diffWords("foo(a, b)", "foo(a, c)").new).toEqual([
+      { text: "foo(a, ", changed: false },
+      { text: "c", changed: true },
+      { text: ")", changed: false },
+    ]);
+  });
+});
+
+describe("toHunks", () => {
+  test("drops context far from any change", () => {
+    const old = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const changed = [...old];
+    changed[1] = "changed 2";
+    changed[17] = "changed 18";
+
+    const hunks = toHunks(diffLines(old.join("\n"), changed.join("\n")), 2);
+
+    expect(hunks).toHaveLength(2);
+    expect(hunks.map((hunk) => [hunk.oldStart, hunk.oldCount, hunk.newStart, hunk.newCount])).toEqual([
+      [1, 4, 1, 4],
+      [16, 5, 16, 5],
+    ]);
+  });
+
+  test("returns nothing for identical texts", () => {
+    expect(toHunks(diffLines("same", "same"))).toEqual([]);
+  });
+});
+
+describe("toSplitRows", () => {
+  test("lines up removed lines with their replacements", () => {
+    const rows = toSplitRows(diffLines("a\nb\nc", "a\nB\nC\nD"));
+
+    expect(rows.map(({ left, right }) => [left?.text, right?.text])).toEqual([
+      ["a", "a"],
+      ["b", "B"],
+      ["c", "C"],
+      [undefined, "D"],
+    ]);
+  });
+});
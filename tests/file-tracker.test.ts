@@ -0,0 +1,129 @@
+/**
+ * Unit tests for following file contents through Read, Write and Edit calls
+ */
+
+import { test, expect, describe } from "bun:test";
+import { createFileTracker } from "../src/render/file-tracker.ts";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline, ToolResultBlock, ToolUseBlock } from "../src/schemas.ts";
+
+function call(name: string, input: Record<string, unknown>): ToolUseBlock {
+  return { type: "tool_use", id: `toolu_${name.toLowerCase()}`, name, input };
+}
+
+function ok(content: string): ToolResultBlock {
+  return { type: "tool_result", tool_use_id: "toolu_x", content };
+}
+
+const readOutput = "    10→function add(a, b) {\n    11→  return a + b;\n    12→}\n    13→";
+
+describe("createFileTracker", () => {
+  test("places edits using an earlier Read", () => {
+    const files = createFileTracker();
+    files.record(call("Read", { file_path: "/work/math.js", offset: 10 }), ok(readOutput));
+
+    expect(
+      files.locateEdits("/work/math.js", [{ oldString: "  return a + b;\n}", newString: "" }])
+    ).toEqual([11]);
+    expect(files.locateEdits("/work/other.js", [{ oldString: "x", newString: "y" }])).toEqual([
+      undefined,
+    ]);
+  });
+
+  test("follows line shifts through earlier edits", () => {
+    const files = createFileTracker();
+    files.record(call("Read", { file_path: "/work/math.js" }), ok(readOutput));
+    files.record(
+      call("Edit", {
+        file_path: "/work/math.js",
+        old_string: "function add(a, b) {",
+        new_string: "// Sum\nfunction add(a, b) {",
+      }),
+      ok("The file has been updated.")
+    );
+
+    expect(files.locateEdits("/work/math.js", [{ oldString: "}", newString: "};" }])).toEqual([13]);
+  });
+
+  test("places each edit of a MultiEdit after the ones before it", () => {
+    const files = createFileTracker();
+    files.record(call("Write", { file_path: "/work/a.txt", content: "one\ntwo\nthree" }), ok(""));
+
+    expect(
+      files.locateEdits("/work/a.txt", [
+        { oldString: "one", newString: "zero\none" },
+        { oldString: "three", newString: "3" },
+      ])
+    ).toEqual([1, 4]);
+  });
+
+  test("ignores failed calls and ambiguous text", () => {
+    const files = createFileTracker();
+    files.record(call("Write", { file_path: "/work/a.txt", content: "x\nx" }), {
+      ...ok("Permission denied"),
+      is_error: true,
+    });
+    expect(files.locateEdits("/work/a.txt", [{ oldString: "x", newString: "y" }])).toEqual([
+      undefined,
+    ]);
+
+    files.record(call("Write", { file_path: "/work/a.txt", content: "x\nx" }), ok(""));
+    expect(files.locateEdits("/work/a.txt", [{ oldString: "x", newString: "y" }])).toEqual([
+      undefined,
+    ]);
+    expect(
+      files.locateEdits("/work/a.txt", [{ oldString: "x", newString: "y", replaceAll: true }])
+    ).toEqual([1]);
+  });
+});
+
+describe("renderTranscript", () => {
+  test("numbers Edit diffs with the lines shown by an earlier Read", () => {
+    const loglines: Logline[] = [
+      {
+        type: "user",
+        timestamp: "2025-12-24T10:00:00.000Z",
+        message: { role: "user", content: "Fix add" },
+      },
+      {
+        type: "assistant",
+        timestamp: "2025-12-24T10:00:01.000Z",
+        message: {
+          role: "assistant",
+          content: [{ ...call("Read", { file_path: "/work/math.js" }), id: "toolu_read" }],
+        },
+      },
+      {
+        type: "user",
+        timestamp: "2025-12-24T10:00:02.000Z",
+        message: {
+          role: "user",
+          content: [{ ...ok(readOutput), tool_use_id: "toolu_read" }],
+        },
+      },
+      {
+        type: "assistant",
+        timestamp: "2025-12-24T10:00:03.000Z",
+        message: {
+          role: "assistant",
+          content: [
+            {
+              ...call("Edit", {
+                file_path: "/work/math.js",
+                old_string: "  return a + b;",
+                new_string: "  return a - b;",
+              }),
+              id: "toolu_edit",
+            },
+          ],
+        },
+      },
+    ];
+
+    const html = renderTranscript({ loglines }).files.get("page-001.html")!;
+
+    expect(html).toContain("@@ -11,1 +11,1 @@");
+    expect(html).toContain('<td class="diff-num">11</td>');
+    expect(html).toContain('<span class="diff-word"><span>-</span></span>');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the files touched report
+ */
+
+import { test, expect, describe } from "bun:test";
+import { buildFilesReportTree, type FileActivity } from "../src/render/files-report.tsx";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { call, prompt, turn } from "./fixtures.ts";
+
+function activity(path: string): FileActivity {
+  return { path, counts: { Read: 1 }, edits: [], changed: false };
+}
+
+describe("buildFilesReportTree", () => {
+  test("shows paths relative to the working directory and merges lone directories", () => {
+    const tree = buildFilesReportTree(
+      [
+        activity("/work/src/render/a.ts"),
+        activity("/work/src/render/b.ts"),
+        activity("/work/README.md"),
+        activity("/etc/hosts"),
+      ],
+      "/work/"
+    );
+
+    expect(tree.directories.map((directory) => directory.name)).toEqual(["/etc", "src/render"]);
+    expect(tree.directories[1]!.files.map((file) => file.name)).toEqual(["a.ts", "b.ts"]);
+    expect(tree.files.map((file) => file.name)).toEqual(["README.md"]);
+  });
+});
+
+describe("files page", () => {
+  const edit = call("Edit", {
+    file_path: "/work/src/a.ts",
+    old_string: "a\nb",
+    new_string: "a\nB\nC",
+  });
+  const loglines: Logline[] = [
+    prompt("2025-12-24T10:00:00.000Z", "Tidy up", { cwd: "/work" }),
+    ...turn(call("Read", { file_path: "/work/src/a.ts" }), {
+      timestamp: "2025-12-24T10:00:01.000Z",
+    }),
+    ...turn(edit, { timestamp: "2025-12-24T10:00:02.000Z" }),
+    ...turn(
+      call("MultiEdit", {
+        file_path: "/work/src/a.ts",
+        edits: [
+          { old_string: "x", new_string: "y" },
+          { old_string: "z", new_string: "" },
+        ],
+      }),
+      { timestamp: "2025-12-24T10:00:03.000Z" }
+    ),
+    ...turn(call("Write", { file_path: "/work/b.ts", content: "1" }), {
+      timestamp: "2025-12-24T10:00:04.000Z",
+      isError: true,
+    }),
+    ...turn(
+      call("NotebookEdit", { notebook_path: "/work/nb.ipynb", cell_id: "c1", edit_mode: "insert" }),
+      { timestamp: "2025-12-24T10:00:05.000Z" }
+    ),
+  ];
+  const output = renderTranscript({ loglines });
+  const page = output.files.get("files.html")!;
+
+  test("counts the operations on each file", () => {
+    expect(page).toContain("3 files touched · 2 changed");
+    expect(page).toContain('<span class="file-entry-counts">1 Read · 1 Edit · 1 MultiEdit</span>');
+    expect(output.files.get("index.html")).toContain("2 files changed");
+    expect(output.files.get("index.html")).toContain('<a href="files.html" class="report-link">Files</a>');
+  });
+
+  test("lists the edits of each file with links to the calls", () => {
+    expect(page).toContain('<span class="files-report-dir-name">src/</span>');
+    expect(page).toContain(`<a href="page-001.html#tool-${edit.id}">`);
+    expect(page).toContain('<span class="file-edit-tool">Edit</span> −1 +2 lines');
+    expect(page).toContain('<span class="file-edit-tool">MultiEdit</span> 2 edits, −2 +2 lines');
+    expect(page).toContain('<span class="file-edit-tool">NotebookEdit</span> insert cell c1');
+    expect(page).toContain(
+      '<span class="file-edit-tool">Write</span> 1 line written<span class="file-edit-failed">failed</span>'
+    );
+  });
+
+  test("follows the MCP file tools as their built-in twins", () => {
+    const mcp = renderTranscript({
+      loglines: [
+        loglines[0]!,
+        ...turn(
+          call("mcp_edit", { file_path: "/work/c.ts", old_string: "a", new_string: "b" }),
+          { timestamp: "2025-12-24T10:00:01.000Z" }
+        ),
+      ],
+    }).files.get("files.html")!;
+
+    expect(mcp).toContain("1 file touched · 1 changed");
+    expect(mcp).toContain('<span class="file-entry-counts">1 Edit</span>');
+    expect(mcp).toContain('<span class="file-edit-tool">mcp_edit</span> −1 +1 lines');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Unit tests for content filtering
+ */
+
+import { test, expect, describe } from "bun:test";
+import { createLoglineFilter, filterLoglines } from "../src/filter.ts";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+
+const loglines: Logline[] = [
+  {
+    type: "user",
+    timestamp: "2025-12-24T10:00:00.000Z",
+    message: { role: "user", content: "Check the repo" },
+  },
+  {
+    type: "user",
+    isMeta: true,
+    timestamp: "2025-12-24T10:00:00.500Z",
+    message: { role: "user", content: "<command-name>/clear</command-name>" },
+  },
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T10:00:01.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Look around first" },
+        { type: "text", text: "Looking." },
+        { type: "tool_use", id: "toolu_read", name: "Read", input: { file_path: "/a.ts" } },
+        { type: "tool_use", id: "toolu_jira", name: "mcp__jira__get", input: {} },
+        { type: "tool_use", id: "toolu_git", name: "Bash", input: { command: "git commit" } },
+      ],
+    },
+  },
+  {
+    type: "user",
+    timestamp: "2025-12-24T10:00:02.000Z",
+    message: {
+      role: "user",
+      content: [
+        { type: "tool_result", tool_use_id: "toolu_read", content: "export {}" },
+        { type: "tool_result", tool_use_id: "toolu_jira", content: "PROJ-1" },
+        { type: "tool_result", tool_use_id: "toolu_git", content: "[main abc1234] Fix" },
+      ],
+    },
+  },
+];
+
+// Summarize content as block types, with the tool name or id of tool blocks
+function blockTypes(filtered: Logline[]): string[] {
+  return filtered.flatMap((logline) => {
+    const content = logline.message!.content;
+    if (typeof content === "string") {
+      return ["string"];
+    }
+    return content.map((block) => {
+      if ("name" in block) return `${block.type}:${block.name}`;
+      if ("tool_use_id" in block) return `${block.type}:${block.tool_use_id}`;
+      return block.type;
+    });
+  });
+}
+
+describe("createLoglineFilter", () => {
+  test("keeps everything without filters", () => {
+    const filter = createLoglineFilter({});
+    expect(loglines.map((logline) => filter.apply(logline))).toEqual(loglines);
+  });
+
+  test("drops block kinds and messages left empty", () => {
+    const filtered = filterLoglines(
+      loglines,
+      createLoglineFilter({ exclude: { blocks: ["thinking", "tool_use", "tool_result"] } })
+    );
+
+    expect(blockTypes(filtered)).toEqual(["string", "string", "text"]);
+  });
+
+  test("drops the calls to excluded tools together with their results", () => {
+    const filtered = filterLoglines(
+      loglines,
+      createLoglineFilter({ exclude: { tools: ["read", "mcp__*"] } })
+    );
+
+    expect(blockTypes(filtered)).toEqual([
+      "string",
+      "string",
+      "thinking",
+      "text",
+      "tool_use:Bash",
+      "tool_result:toolu_git",
+    ]);
+  });
+
+  test("narrows to included tools and flags", () => {
+    const tools = filterLoglines(loglines, createLoglineFilter({ include: { tools: ["Read"] } }));
+    expect(blockTypes(tools)).toEqual([
+      "string",
+      "string",
+      "thinking",
+      "text",
+      "tool_use:Read",
+      "tool_result:toolu_read",
+    ]);
+
+    const meta = filterLoglines(loglines, createLoglineFilter({ include: { flags: ["isMeta"] } }));
+    expect(meta).toEqual([loglines[1]!]);
+  });
+
+  test("drops flagged loglines", () => {
+    const filtered = filterLoglines(loglines, createLoglineFilter({ exclude: { flags: ["isMeta"] } }));
+    expect(filtered).toHaveLength(3);
+    expect(filtered.some((logline) => logline.isMeta)).toBe(false);
+  });
+});
+
+describe("renderTranscript", () => {
+  test("counts only the rendered tool calls and commits in the index", () => {
+    const output = renderTranscript(
+      { loglines },
+      { exclude: { blocks: ["thinking"], tools: ["Bash"] } }
+    );
+    const index = output.files.get("index.html")!;
+    const page = output.files.get("page-001.html")!;
+
+    expect(index).toContain("2 tool calls · 0 commits");
+    expect(page).not.toContain('class="thinking"');
+    expect(page).not.toContain("git commit");
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Loglines for tests: prompts, tool calls and their results
+ */
+
+import type { Logline, ToolUseBlock } from "../src/schemas.ts";
+
+let id = 0;
+
+/**
+ * A tool call with an id of its own
+ */
+export function call(name: string, input: Record<string, unknown> = {}): ToolUseBlock {
+  return { type: "tool_use", id: `toolu_${++id}`, name, input };
+}
+
+/**
+ * A user prompt
+ */
+export function prompt(timestamp: string, text: string, extra: Partial<Logline> = {}): Logline {
+  return { type: "user", timestamp, message: { role: "user", content: text }, ...extra };
+}
+
+/**
+ * An assistant message making a tool call, and the reply carrying its result
+ */
+export function turn(
+  use: ToolUseBlock,
+  {
+    timestamp,
+    result = "ok",
+    isError = false,
+  }: { timestamp?: string; result?: string; isError?: boolean } = {}
+): Logline[] {
+  return [
+    { type: "assistant", timestamp, message: { role: "assistant", content: [use] } },
+    {
+      type: "user",
+      timestamp,
+      message: {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: use.id, content: result, is_error: isError }],
+      },
+    },
+  ];
+}
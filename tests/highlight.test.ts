@@ -0,0 +1,66 @@
+/**
+ * Unit tests for syntax highlighting
+ */
+
+import { test, expect, describe } from "bun:test";
+import { getLanguage, highlightLines, languageFromPath } from "../src/render/highlight.ts";
+import { renderMarkdown } from "../src/render/markdown.ts";
+import { createToolRendererRegistry } from "../src/render/tool-registry.tsx";
+
+describe("languages", () => {
+  test("reads the language from a fence info string", () => {
+    expect(getLanguage("ts title=app.ts")).toBe("ts");
+    expect(getLanguage("Python")).toBe("python");
+    expect(getLanguage("not-a-language")).toBeUndefined();
+    expect(getLanguage("")).toBeUndefined();
+  });
+
+  test("guesses the language from a file path", () => {
+    expect(languageFromPath("/work/src/app.tsx")).toBe("tsx");
+    expect(languageFromPath("/work/scripts/build.mjs")).toBe("javascript");
+    expect(languageFromPath("/work/Dockerfile")).toBe("dockerfile");
+    expect(languageFromPath("/work/notes.unknown")).toBeUndefined();
+    expect(languageFromPath("/work/LICENSE")).toBeUndefined();
+  });
+});
+
+describe("highlightLines", () => {
+  test("reopens spans that run across lines", () => {
+    expect(highlightLines("/* one\ntwo */ x", "javascript")).toEqual([
+      '<span class="hljs-comment">/* one</span>',
+      '<span class="hljs-comment">two */</span> x',
+    ]);
+  });
+});
+
+describe("rendering", () => {
+  test("highlights fenced code in a known language", () => {
+    const html = renderMarkdown("```python\ndef f():\n    return 1\n```");
+
+    expect(html).toContain('<pre><code class="hljs language-python">');
+    expect(html).toContain('<span class="hljs-keyword">def</span>');
+  });
+
+  test("leaves other fenced code to marked", () => {
+    expect(renderMarkdown("```\n<b>x</b>\n```")).toBe("<pre><code>&lt;b&gt;x&lt;/b&gt;\n</code></pre>\n");
+  });
+
+  test("highlights written files and shell commands", () => {
+    const registry = createToolRendererRegistry();
+    const write = registry.renderUse({
+      type: "tool_use",
+      id: "toolu_write",
+      name: "Write",
+      input: { file_path: "/work/a.py", content: "import os" },
+    })!;
+    const bash = registry.renderUse({
+      type: "tool_use",
+      id: "toolu_bash",
+      name: "Bash",
+      input: { command: "echo 'hi'" },
+    })!;
+
+    expect(write).toContain('<pre class="file-content"><span class="hljs-keyword">import</span> os</pre>');
+    expect(bash).toContain('<span class="hljs-string">&#x27;hi&#x27;</span>');
+  });
+});
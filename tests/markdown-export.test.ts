@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the Markdown export
+ */
+
+import { test, expect, describe } from "bun:test";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { call, prompt, turn } from "./fixtures.ts";
+
+const loglines: Logline[] = [
+  prompt("2025-12-24T10:00:00.000Z", "Fix the build", { cwd: "/work" }),
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T10:00:01.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Check the Makefile" },
+        { type: "text", text: "Running **make**." },
+      ],
+    },
+  },
+  ...turn(call("Bash", { command: "make", description: "Build" }), {
+    timestamp: "2025-12-24T10:00:02.000Z",
+    result: "[main abc1234f] Fix the build\n 1 file changed",
+  }),
+  ...turn(
+    call("Edit", { file_path: "/work/Makefile", old_string: "cc a.c", new_string: "gcc a.c" }),
+    { timestamp: "2025-12-24T10:00:03.000Z" }
+  ),
+  ...turn(call("Write", { file_path: "/work/notes.md", content: "Use ```make```\n" }), {
+    timestamp: "2025-12-24T10:00:04.000Z",
+  }),
+  ...turn(call("Read", { file_path: "/work/log.txt" }), {
+    timestamp: "2025-12-24T10:00:05.000Z",
+    result: Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n"),
+  }),
+  prompt("2025-12-24T10:30:00.000Z", "Summary of the work so far", { isCompactSummary: true }),
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T10:30:05.000Z",
+    message: { role: "assistant", content: [{ type: "text", text: "Carrying on" }] },
+  },
+  prompt("2025-12-24T11:00:00.000Z", "Thanks"),
+];
+
+describe("markdown export", () => {
+  const output = renderTranscript({ loglines }, { format: "markdown", githubRepo: "o/r" });
+  const markdown = output.files.get("transcript.md")!;
+
+  test("writes a single transcript.md", () => {
+    expect([...output.files.keys()]).toEqual(["transcript.md"]);
+  });
+
+  test("starts with the session details, totals and commits", () => {
+    expect(markdown).toStartWith("# Transcript\n\n- **Directory:** `/work`\n");
+    expect(markdown).toContain("*2 prompts · 13 messages · 4 tool calls · 1 commit · 2 files changed*");
+    expect(markdown).toContain(
+      "## Commits\n\n- [`abc1234`](https://github.com/o/r/commit/abc1234f) Fix the build · 2025-12-24 10:00:02 UTC"
+    );
+  });
+
+  test("has a heading per prompt and quotes the prompt", () => {
+    expect(markdown).toContain(
+      "## 1. Fix the build\n\n**User** · 2025-12-24 10:00:00 UTC\n\n> Fix the build"
+    );
+    expect(markdown).toContain("## 2. Thanks");
+  });
+
+  test("collapses thinking and keeps assistant text as Markdown", () => {
+    expect(markdown).toContain(
+      "<details>\n<summary>Thinking</summary>\n\nCheck the Makefile\n\n</details>\n\nRunning **make**."
+    );
+  });
+
+  test("fences commands and written files, with results under their call", () => {
+    expect(markdown).toContain(
+      "**Bash** — Build\n\n```bash\nmake\n```\n\n*Output:*\n\n```\n[main abc1234f] Fix the build"
+    );
+    expect(markdown).toContain("**Write** `/work/notes.md`\n\n````md\nUse ```make```\n````");
+  });
+
+  test("shows edits as diff fences", () => {
+    expect(markdown).toContain("**Edit** `/work/Makefile`\n\n```diff\n-cc a.c\n+gcc a.c\n```");
+  });
+
+  test("collapses long tool output", () => {
+    expect(markdown).toContain("<details>\n<summary>Output (30 lines)</summary>\n\n```\nline 0\n");
+  });
+
+  test("collapses the summary of a compaction", () => {
+    expect(markdown).toContain(
+      "### Context compacted · 2025-12-24 10:30:00 UTC\n\n<details>\n<summary>Summary</summary>\n\nSummary of the work so far\n\n</details>\n\nCarrying on"
+    );
+  });
+
+  test("shows the input of other tools as plain JSON", () => {
+    const markdown = renderTranscript(
+      {
+        loglines: [
+          prompt("2025-12-24T10:00:00.000Z", "Search"),
+          ...turn(call("mcp__search__find", { pattern: "a<b && c" }), {
+            timestamp: "2025-12-24T10:00:01.000Z",
+          }),
+        ],
+      },
+      { format: "markdown" }
+    ).files.get("transcript.md")!;
+
+    expect(markdown).toContain(
+      '**mcp__search__find**\n\n```json\n{\n  "pattern": "a<b && c"\n}\n```'
+    );
+  });
+
+  test("splits into pages with an index when paginated", () => {
+    const paged = renderTranscript(
+      { loglines },
+      { format: "markdown", pagination: { promptsPerPage: 2 } }
+    ).files;
+
+    expect([...paged.keys()]).toEqual(["index.md", "page-001.md", "page-002.md"]);
+    expect(paged.get("index.md")).toContain(
+      "## Prompts\n\n1. [Fix the build](page-001.md) · 2025-12-24 10:00:00 UTC\n   - [Context compacted](page-001.md)"
+    );
+    expect(paged.get("page-002.md")).toStartWith(
+      "# Transcript · Page 2\n\n[Index](index.md) · [← Page 1](page-001.md) · Page 2 of 2\n\n## 2. Thanks"
+    );
+  });
+});
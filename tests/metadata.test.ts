@@ -0,0 +1,97 @@
+/**
+ * Unit tests for session metadata
+ */
+
+import { test, expect, describe } from "bun:test";
+import { collectSessionMetadata } from "../src/metadata.ts";
+import { renderTranscript, renderTranscriptFromFile } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { join } from "path";
+
+const fixturesDir = join(import.meta.dir, "..", "fixtures", "input");
+
+const loglines: Logline[] = [
+  { type: "summary", summary: "Old title", leafUuid: "a1" },
+  {
+    type: "user",
+    sessionId: "s1",
+    cwd: "/work/project",
+    gitBranch: "main",
+    version: "1.0.80",
+    timestamp: "2025-12-24T10:00:00.000Z",
+    message: { role: "user", content: "Fix the build" },
+  },
+  {
+    type: "assistant",
+    sessionId: "s1",
+    cwd: "/work/project",
+    gitBranch: "fix-build",
+    version: "1.0.81",
+    timestamp: "2025-12-24T12:05:30.000Z",
+    message: {
+      role: "assistant",
+      model: "claude-sonnet-4-5",
+      content: [{ type: "text", text: "Fixed" }],
+    },
+  },
+  {
+    type: "assistant",
+    sessionId: "s1",
+    timestamp: "2025-12-24T11:00:00.000Z",
+    message: { role: "assistant", model: "<synthetic>", content: [{ type: "text", text: "" }] },
+  },
+  { type: "summary", summary: "Fix the build" },
+];
+
+describe("collectSessionMetadata", () => {
+  test("collects title, directory, branches, versions and models", () => {
+    const metadata = collectSessionMetadata(loglines);
+
+    expect(metadata.title).toBe("Fix the build");
+    expect(metadata.sessionIds).toEqual(["s1"]);
+    expect(metadata.cwd).toBe("/work/project");
+    expect(metadata.gitBranches).toEqual(["main", "fix-build"]);
+    expect(metadata.versions).toEqual(["1.0.80", "1.0.81"]);
+    expect(metadata.models).toEqual(["claude-sonnet-4-5"]);
+  });
+
+  test("spans the earliest to the latest timestamp", () => {
+    const metadata = collectSessionMetadata(loglines);
+
+    expect(metadata.startTime).toBe("2025-12-24T10:00:00.000Z");
+    expect(metadata.endTime).toBe("2025-12-24T12:05:30.000Z");
+  });
+});
+
+describe("index page session header", () => {
+  test("shows the session details", () => {
+    const index = renderTranscript({ loglines }).files.get("index.html")!;
+
+    expect(index).toContain('<div class="session-header"><h1>Fix the build</h1>');
+    expect(index).toContain("<code>/work/project</code>");
+    expect(index).toContain("<dt>Branches</dt><dd>main, fix-build</dd>");
+    expect(index).toContain("<dd>1.0.80, 1.0.81</dd>");
+    expect(index).toContain("<dt>Model</dt><dd>claude-sonnet-4-5</dd>");
+    expect(index).toContain("<dt>Duration</dt><dd>2h 5m</dd>");
+  });
+
+  test("sets the title of every page", () => {
+    const output = renderTranscript({ loglines });
+
+    expect(output.files.get("index.html")).toContain("<title>Fix the build - Index</title>");
+    expect(output.files.get("page-001.html")).toContain("<title>Fix the build - Page 1</title>");
+  });
+
+  test("lets the title be overridden", () => {
+    const output = renderTranscript({ loglines }, { title: "Build fix" });
+
+    expect(output.files.get("index.html")).toContain("<h1>Build fix</h1>");
+    expect(output.files.get("page-001.html")).toContain("<title>Build fix - Page 1</title>");
+  });
+
+  test("uses the summary line of a streamed file", async () => {
+    const output = await renderTranscriptFromFile(join(fixturesDir, "sample_session.jsonl"));
+
+    expect(output.files.get("index.html")).toContain("<h1>Test session for JSONL parsing</h1>");
+  });
+});
@@ -2,9 +2,16 @@
  * Unit tests for JSON/JSONL parsing
  */
 
-import { test, expect, describe } from "bun:test";
-import { parseSessionFile } from "../src/parse.ts";
+import { test, expect, describe, beforeAll } from "bun:test";
+import {
+  parseSessionFile,
+  streamLoglines,
+  formatDiagnostic,
+  SessionParseError,
+} from "../src/parse.ts";
 import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, writeFile } from "fs/promises";
 
 const fixturesDir = join(import.meta.dir, "..", "fixtures", "input");
 
@@ -113,3 +120,122 @@ describe("parseSessionFile content validation", () => {
     }
   });
 });
+
+describe("streamLoglines", () => {
+  async function collect(filePath: string) {
+    const loglines = [];
+    for await (const logline of streamLoglines(filePath)) {
+      loglines.push(logline);
+    }
+    return loglines;
+  }
+
+  test("yields the same loglines as parseSessionFile for JSONL", async () => {
+    const filePath = join(fixturesDir, "sample_session.jsonl");
+    const session = await parseSessionFile(filePath);
+
+    expect(await collect(filePath)).toEqual(session.loglines);
+  });
+
+  test("yields the same loglines as parseSessionFile for JSON", async () => {
+    const filePath = join(fixturesDir, "sample_session.json");
+    const session = await parseSessionFile(filePath);
+
+    expect(await collect(filePath)).toEqual(session.loglines);
+  });
+
+  test("yields message and summary loglines", async () => {
+    const loglines = await collect(join(fixturesDir, "sample_session.jsonl"));
+
+    expect(loglines.length).toBeGreaterThan(0);
+    expect(loglines[0]?.type).toBe("summary");
+    for (const logline of loglines) {
+      expect(["user", "assistant", "summary", "system"]).toContain(logline.type);
+    }
+  });
+
+  test("throws error for non-existent file", async () => {
+    await expect(
+      collect(join(fixturesDir, "non_existent.jsonl"))
+    ).rejects.toThrow();
+  });
+});
+
+describe("parse diagnostics", () => {
+  let invalidFile: string;
+
+  beforeAll(async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-transcript-parse-"));
+    invalidFile = join(dir, "invalid.jsonl");
+    await writeFile(
+      invalidFile,
+      [
+        JSON.stringify({ type: "user", message: { content: "Hello" } }),
+        "{not json",
+        "",
+        JSON.stringify({ type: "assistant", message: { content: [{ type: "text" }] } }),
+        JSON.stringify({ type: "assistant", message: { content: [{ type: "text", text: "Hi" }] } }),
+      ].join("\n")
+    );
+  });
+
+  test("valid sample files have no diagnostics", async () => {
+    const session = await parseSessionFile(join(fixturesDir, "sample_session.jsonl"));
+    expect(session.diagnostics).toEqual([]);
+  });
+
+  test("reports every rejected line with line number, snippet, path and reason", async () => {
+    const session = await parseSessionFile(invalidFile);
+
+    expect(session.loglines).toHaveLength(2);
+    expect(session.diagnostics).toHaveLength(2);
+
+    const [syntaxError, schemaError] = session.diagnostics;
+    expect(syntaxError?.file).toBe(invalidFile);
+    expect(syntaxError?.line).toBe(2);
+    expect(syntaxError?.snippet).toBe("{not json");
+    expect(syntaxError?.path).toEqual([]);
+    expect(syntaxError?.reason).toContain("Invalid JSON");
+
+    expect(schemaError?.line).toBe(4);
+    expect(schemaError?.path).toEqual(["message", "content", 0, "text"]);
+    expect(schemaError?.reason).toBeTruthy();
+  });
+
+  test("passes diagnostics to onDiagnostic while streaming", async () => {
+    const lines: number[] = [];
+    for await (const _ of streamLoglines(invalidFile, {
+      onDiagnostic: (diagnostic) => lines.push(diagnostic.line),
+    })) {
+      // consume the stream
+    }
+    expect(lines).toEqual([2, 4]);
+  });
+
+  test("strict mode throws SessionParseError aggregating all diagnostics", async () => {
+    const error = await parseSessionFile(invalidFile, { strict: true }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SessionParseError);
+    expect(error.diagnostics).toHaveLength(2);
+    expect(error.message).toContain("2 invalid lines");
+  });
+
+  test("strict mode accepts valid files", async () => {
+    const session = await parseSessionFile(join(fixturesDir, "sample_session.jsonl"), {
+      strict: true,
+    });
+    expect(session.loglines.length).toBeGreaterThan(0);
+  });
+
+  test("formatDiagnostic includes line, path and reason", () => {
+    expect(
+      formatDiagnostic({
+        file: "s.jsonl",
+        line: 7,
+        snippet: "{}",
+        path: ["message", "content"],
+        reason: "Required",
+      })
+    ).toBe("line 7: message.content: Required");
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for file reconstruction
+ */
+
+import { test, expect, describe } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { reconstructFiles, writeReconstructedFiles } from "../src/reconstruct.ts";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { call, turn } from "./fixtures.ts";
+
+const numbered = (...lines: string[]) =>
+  lines.map((line, i) => `${String(i + 1).padStart(6)}→${line}`).join("\n");
+
+const prompt: Logline = { type: "user", cwd: "/work", message: { role: "user", content: "Go" } };
+
+describe("reconstructFiles", () => {
+  test("replays edits on top of a full Read", () => {
+    const { files, cwd } = reconstructFiles({
+      loglines: [
+        prompt,
+        ...turn(call("Read", { file_path: "/work/a.ts" }), {
+          result: numbered("one", "two", "three"),
+        }),
+        ...turn(call("Edit", { file_path: "/work/a.ts", old_string: "two", new_string: "2" })),
+        ...turn(
+          call("MultiEdit", {
+            file_path: "/work/a.ts",
+            edits: [
+              { old_string: "one", new_string: "1" },
+              { old_string: "e", new_string: "E", replace_all: true },
+            ],
+          })
+        ),
+      ],
+    });
+
+    expect(cwd).toBe("/work");
+    expect(files).toEqual([
+      {
+        path: "/work/a.ts",
+        before: "one\ntwo\nthree\n",
+        after: "1\n2\nthrEE\n",
+        complete: true,
+        failures: [],
+      },
+    ]);
+  });
+
+  test("starts from a Write and skips calls that failed in the session", () => {
+    const { files } = reconstructFiles({
+      loglines: [
+        prompt,
+        ...turn(call("Write", { file_path: "/work/new.ts", content: "let x = 1;\n" })),
+        ...turn(
+          call("Edit", { file_path: "/work/new.ts", old_string: "missing", new_string: "" }),
+          { result: "String not found", isError: true }
+        ),
+        ...turn(call("Edit", { file_path: "/work/new.ts", old_string: "1", new_string: "2" })),
+      ],
+    });
+
+    expect(files[0]).toMatchObject({ before: null, after: "let x = 2;\n", complete: true });
+  });
+
+  test("reports edits that cannot be replayed", () => {
+    const unread = call("Edit", { file_path: "/work/b.ts", old_string: "a", new_string: "b" });
+    const ambiguous = call("MultiEdit", {
+      file_path: "/work/c.ts",
+      edits: [
+        { old_string: "x", new_string: "y" },
+        { old_string: "a", new_string: "b" },
+      ],
+    });
+    const { files } = reconstructFiles({
+      loglines: [
+        prompt,
+        // A partial Read is not a starting point
+        ...turn(call("Read", { file_path: "/work/b.ts", offset: 10 }), { result: "    10→a" }),
+        ...turn(unread),
+        ...turn(call("Read", { file_path: "/work/c.ts" }), { result: numbered("a", "a", "x") }),
+        ...turn(ambiguous),
+      ],
+    });
+
+    expect(files.map((file) => [file.path, file.complete, file.after])).toEqual([
+      ["/work/b.ts", false, null],
+      ["/work/c.ts", false, null],
+    ]);
+    expect(files[0]!.failures).toEqual([
+      { toolUseId: unread.id, tool: "Edit", reason: "content not known" },
+    ]);
+    expect(files[1]!.failures).toEqual([
+      { toolUseId: ambiguous.id, tool: "MultiEdit", reason: "edit 2 of 2: text found 2 times" },
+    ]);
+  });
+
+  test("picks up changes made outside the file tools from a later Read", () => {
+    const { files } = reconstructFiles({
+      loglines: [
+        prompt,
+        ...turn(call("Write", { file_path: "/work/a.ts", content: "a\n" })),
+        ...turn(call("Bash", { command: "echo b >> a.ts" })),
+        ...turn(call("Read", { file_path: "/work/a.ts" }), { result: numbered("a", "b") }),
+      ],
+    });
+
+    expect(files[0]!.after).toBe("a\nb\n");
+  });
+
+  test("keeps a written file's final newline when a Read shows the same lines", () => {
+    const { files } = reconstructFiles({
+      loglines: [
+        prompt,
+        ...turn(call("Write", { file_path: "/work/a.ts", content: "a" })),
+        ...turn(call("Read", { file_path: "/work/a.ts" }), { result: numbered("a") }),
+      ],
+    });
+
+    expect(files[0]!.after).toBe("a");
+  });
+});
+
+describe("writeReconstructedFiles", () => {
+  test("writes known files relative to the working directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "reconstruct-"));
+    try {
+      const written = await writeReconstructedFiles(
+        {
+          cwd: "/work",
+          files: [
+            { path: "/work/src/a.ts", before: null, after: "a\n", complete: true, failures: [] },
+            { path: "/etc/hosts", before: null, after: "h\n", complete: true, failures: [] },
+            { path: "/work/b.ts", before: null, after: null, complete: false, failures: [] },
+          ],
+        },
+        dir
+      );
+
+      expect(written).toEqual(["src/a.ts", "etc/hosts"]);
+      expect(await readFile(join(dir, "src/a.ts"), "utf-8")).toBe("a\n");
+      expect(await readFile(join(dir, "etc/hosts"), "utf-8")).toBe("h\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("files page diffs", () => {
+  const loglines: Logline[] = [
+    prompt,
+    ...turn(call("Read", { file_path: "/work/a.ts" }), { result: numbered("one", "two") }),
+    ...turn(call("Edit", { file_path: "/work/a.ts", old_string: "two", new_string: "2" })),
+    ...turn(call("Edit", { file_path: "/work/b.ts", old_string: "x", new_string: "y" })),
+  ];
+
+  test("are left out unless asked for", () => {
+    const html = renderTranscript({ loglines }).files.get("files.html")!;
+    expect(html).not.toContain('class="file-diff"');
+  });
+
+  test("show each changed file before and after, and what could not be replayed", () => {
+    const html = renderTranscript({ loglines }, { fileDiffs: true }).files.get("files.html")!;
+
+    expect(html).toContain('class="file-diff"');
+    expect(html).toContain("@@ -1,3 +1,3 @@");
+    expect(html).toContain("Final content not known");
+    expect(html).toMatch(
+      /<a href="page-001.html#tool-toolu_\d+">Edit<\/a> could not be replayed: content not known/
+    );
+  });
+});
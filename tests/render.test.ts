@@ -3,8 +3,12 @@
  */
 
 import { test, expect, describe, beforeAll } from "bun:test";
-import { renderTranscript, renderTranscriptFromFile } from "../src/render/transcript.ts";
-import { parseSessionFile } from "../src/parse.ts";
+import {
+  renderTranscript,
+  renderTranscriptStream,
+  renderTranscriptFromFile,
+} from "../src/render/transcript.ts";
+import { parseSessionFile, streamLoglines } from "../src/parse.ts";
 import { join } from "path";
 import { tmpdir } from "os";
 import { mkdtemp, rm, readdir, readFile } from "fs/promises";
@@ -120,6 +124,33 @@ describe("renderTranscriptFromFile", () => {
   });
 });
 
+describe("renderTranscriptStream", () => {
+  test("produces the same files as renderTranscript", async () => {
+    const filePath = join(fixturesDir, "sample_session.jsonl");
+    const session = await parseSessionFile(filePath);
+
+    const expected = renderTranscript(session);
+    const actual = await renderTranscriptStream(streamLoglines(filePath));
+
+    expect(Array.from(actual.files.keys())).toEqual(Array.from(expected.files.keys()));
+    for (const [filename, html] of expected.files) {
+      expect(actual.files.get(filename)).toBe(html);
+    }
+  });
+
+  test("accepts any async iterable of loglines", async () => {
+    const session = await parseSessionFile(join(fixturesDir, "sample_session.json"));
+    async function* loglines() {
+      yield* session.loglines;
+    }
+
+    const output = await renderTranscriptStream(loglines());
+
+    expect(output.files.has("index.html")).toBe(true);
+    expect(output.files.has("page-001.html")).toBe(true);
+  });
+});
+
 describe("writeTo method", () => {
   let tempDir: string;
 
@@ -237,3 +268,229 @@ describe("renderTranscript content", () => {
     }
   });
 });
+
+describe("renderTranscript content block types", () => {
+  const session = {
+    loglines: [
+      {
+        type: "user" as const,
+        timestamp: "2025-12-24T10:00:00.000Z",
+        message: { role: "user" as const, content: "Look this up" },
+      },
+      {
+        type: "assistant" as const,
+        timestamp: "2025-12-24T10:00:05.000Z",
+        message: {
+          role: "assistant" as const,
+          content: [
+            { type: "redacted_thinking" as const, data: "encrypted" },
+            {
+              type: "server_tool_use" as const,
+              id: "srvtoolu_001",
+              name: "web_search",
+              input: { query: "bun test" },
+            },
+            {
+              type: "web_search_tool_result" as const,
+              tool_use_id: "srvtoolu_001",
+              content: [{ type: "web_search_result" as const, url: "https://bun.sh", title: "Bun" }],
+            },
+            { type: "future_block", payload: "kept" },
+          ],
+        },
+      },
+    ],
+  };
+
+  test("renders unknown blocks with the unknown-block fallback", () => {
+    const page = renderTranscript(session).files.get("page-001.html");
+
+    expect(page).toContain('class="unknown-block"');
+    expect(page).toContain("future_block");
+  });
+
+  test("renders newer known block types", () => {
+    const page = renderTranscript(session).files.get("page-001.html");
+
+    expect(page).toContain("Thinking (redacted)");
+    expect(page).toContain("web_search");
+    expect(page).toContain('href="https://bun.sh"');
+  });
+
+  test("does not link search results or documents with non-web URLs", () => {
+    const page = renderTranscript({
+      loglines: [
+        session.loglines[0]!,
+        {
+          type: "assistant" as const,
+          timestamp: "2025-12-24T10:00:05.000Z",
+          message: {
+            role: "assistant" as const,
+            content: [
+              {
+                type: "web_search_tool_result" as const,
+                tool_use_id: "srvtoolu_001",
+                content: [
+                  { type: "web_search_result" as const, url: "javascript:alert(1)", title: "Bad" },
+                ],
+              },
+              { type: "document" as const, source: { type: "url", url: "javascript:alert(2)" } },
+            ],
+          },
+        },
+      ],
+    }).files.get("page-001.html")!;
+
+    expect(page).not.toContain('href="javascript:');
+    expect(page).toContain("<code>javascript:alert(1)</code>");
+    expect(page).toContain("<code>javascript:alert(2)</code>");
+  });
+});
+
+describe("renderTranscript compaction continuations", () => {
+  const session = {
+    loglines: [
+      {
+        type: "user" as const,
+        timestamp: "2025-12-24T10:00:00.000Z",
+        message: { role: "user" as const, content: "Build the parser" },
+      },
+      {
+        type: "assistant" as const,
+        timestamp: "2025-12-24T10:00:01.000Z",
+        message: {
+          role: "assistant" as const,
+          content: [{ type: "text" as const, text: "Working on it" }],
+        },
+      },
+      {
+        type: "user" as const,
+        timestamp: "2025-12-24T11:00:00.000Z",
+        isCompactSummary: true,
+        message: {
+          role: "user" as const,
+          content: "This session is being continued from a previous conversation.",
+        },
+      },
+      {
+        type: "assistant" as const,
+        timestamp: "2025-12-24T11:00:01.000Z",
+        message: {
+          role: "assistant" as const,
+          content: [
+            { type: "tool_use" as const, id: "toolu_001", name: "Bash", input: { command: "ls" } },
+          ],
+        },
+      },
+    ],
+  };
+
+  test("collapses the continuation summary on the page", () => {
+    const page = renderTranscript(session).files.get("page-001.html")!;
+
+    expect(page).toContain('<details class="continuation"><summary>Session continuation summary</summary>');
+    expect(page.indexOf('<details class="continuation">')).toBeLessThan(
+      page.indexOf("This session is being continued")
+    );
+  });
+
+  test("marks the continuation as context compacted in the index", () => {
+    const index = renderTranscript(session).files.get("index.html")!;
+
+    expect(index).toContain('<div class="index-continuation">');
+    expect(index).toContain("Context compacted");
+    expect(index).not.toContain("This session is being continued");
+    expect(index).not.toContain(`index-item-number">#2`);
+  });
+
+  test("leaves continuations out of the prompt count", () => {
+    const index = renderTranscript(session).files.get("index.html")!;
+
+    expect(index).toContain("1 prompt · 4 messages · 1 tool call");
+  });
+
+  test("collapses the summary, not the session boundary, after a resume", () => {
+    const [first, reply, summary, next] = session.loglines;
+    const resumed = {
+      loglines: [
+        { ...first!, sessionId: "s1" },
+        { ...reply!, sessionId: "s1" },
+        { ...summary!, sessionId: "s2" },
+        { ...next!, sessionId: "s2" },
+      ],
+    };
+    const page = renderTranscript(resumed).files.get("page-001.html")!;
+
+    expect(page.indexOf('<div class="session-boundary">')).toBeLessThan(
+      page.indexOf('<details class="continuation">')
+    );
+    expect(page).not.toMatch(/<details class="continuation">.*session-boundary/s);
+    expect(page.indexOf('<details class="continuation">')).toBeLessThan(
+      page.indexOf("This session is being continued")
+    );
+  });
+});
+
+describe("renderTranscript pagination", () => {
+  const prompt = (day: number, hour: number, text: string) => ({
+    type: "user" as const,
+    timestamp: `2025-12-${day}T${String(hour).padStart(2, "0")}:00:00.000Z`,
+    message: { role: "user" as const, content: text },
+  });
+  const session = {
+    loglines: [
+      prompt(24, 9, "First"),
+      prompt(24, 10, "Second ".repeat(200)),
+      prompt(25, 9, "Third"),
+    ],
+  };
+
+  test("puts a fixed number of prompts on each page", () => {
+    const output = renderTranscript(session, { pagination: { promptsPerPage: 2 } });
+
+    expect([...output.files.keys()]).toEqual([
+      "index.html",
+      "page-001.html",
+      "page-002.html",
+      "timeline.html",
+      "files.html",
+      "stats.html",
+    ]);
+    expect(output.files.get("index.html")).toContain('href="page-002.html#msg-3"');
+  });
+
+  test("breaks pages to stay under a size budget", () => {
+    const output = renderTranscript(session, { pagination: { maxBytesPerPage: 1000 } });
+
+    // The long prompt is over budget on its own, so it gets a page of its own
+    expect([...output.files.keys()]).toEqual([
+      "index.html",
+      "page-001.html",
+      "page-002.html",
+      "page-003.html",
+      "timeline.html",
+      "files.html",
+      "stats.html",
+    ]);
+  });
+
+  test("makes one page per day", () => {
+    const output = renderTranscript(session, { pagination: { byDay: true } });
+    const index = output.files.get("index.html")!;
+
+    expect([...output.files.keys()]).toEqual([
+      "index.html",
+      "page-2025-12-24.html",
+      "page-2025-12-25.html",
+      "timeline.html",
+      "files.html",
+      "stats.html",
+    ]);
+    expect(index).toContain('href="page-2025-12-25.html#msg-3"');
+    expect(index).toContain('var pageFiles = ["page-2025-12-24.html","page-2025-12-25.html"];');
+    expect(output.files.get("page-2025-12-25.html")).toContain(
+      '<a href="page-2025-12-24.html">← Prev</a>'
+    );
+    expect(output.files.get("page-2025-12-25.html")).toContain("<title>Transcript - Page 2025-12-25</title>");
+  });
+});
@@ -12,6 +12,7 @@ import {
   ToolUseBlockSchema,
   ToolResultBlockSchema,
   MessageSchema,
+  MessageContentBlockSchema,
   LoglineSchema,
 } from "../src/schemas.ts";
 
@@ -105,6 +106,74 @@ describe("ContentBlockSchema", () => {
   });
 });
 
+describe("newer content block types", () => {
+  test("validates redacted_thinking block", () => {
+    const result = ContentBlockSchema.safeParse({ type: "redacted_thinking", data: "abc" });
+    expect(result.success).toBe(true);
+  });
+
+  test("validates server_tool_use block", () => {
+    const result = ContentBlockSchema.safeParse({
+      type: "server_tool_use",
+      id: "srvtoolu_001",
+      name: "web_search",
+      input: { query: "zod discriminated union" },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("validates web_search_tool_result block", () => {
+    const result = ContentBlockSchema.safeParse({
+      type: "web_search_tool_result",
+      tool_use_id: "srvtoolu_001",
+      content: [
+        {
+          type: "web_search_result",
+          url: "https://zod.dev",
+          title: "Zod",
+          encrypted_content: "xyz",
+          page_age: null,
+        },
+      ],
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("validates web_search_tool_result error", () => {
+    const result = ContentBlockSchema.safeParse({
+      type: "web_search_tool_result",
+      tool_use_id: "srvtoolu_001",
+      content: { type: "web_search_tool_result_error", error_code: "max_uses_exceeded" },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  test("validates document block", () => {
+    const result = ContentBlockSchema.safeParse({
+      type: "document",
+      source: { type: "text", media_type: "text/plain", data: "Hello" },
+      title: "notes.txt",
+    });
+    expect(result.success).toBe(true);
+  });
+});
+
+describe("MessageContentBlockSchema", () => {
+  test("passes unknown block types through unchanged", () => {
+    const block = { type: "future_block", payload: { nested: true } };
+    const result = MessageContentBlockSchema.safeParse(block);
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual(block);
+    }
+  });
+
+  test("still rejects known block types with invalid fields", () => {
+    const result = MessageContentBlockSchema.safeParse({ type: "text" });
+    expect(result.success).toBe(false);
+  });
+});
+
 describe("MessageSchema", () => {
   test("validates message with string content", () => {
     const message = { role: "user", content: "Hello world" };
@@ -124,6 +193,18 @@ describe("MessageSchema", () => {
     expect(result.success).toBe(true);
   });
 
+  test("keeps messages containing unknown block types", () => {
+    const message = {
+      role: "assistant",
+      content: [
+        { type: "text", text: "Searching..." },
+        { type: "container_upload", file_id: "file_001" },
+      ],
+    };
+    const result = MessageSchema.safeParse(message);
+    expect(result.success).toBe(true);
+  });
+
   test("validates message without role", () => {
     const message = { content: "Hello" };
     const result = MessageSchema.safeParse(message);
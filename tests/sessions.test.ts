@@ -0,0 +1,154 @@
+/**
+ * Unit tests for multi-file sessions
+ */
+
+import { test, expect, describe } from "bun:test";
+import { mergeSessions, findSessionFiles, resolveSessionFiles } from "../src/sessions.ts";
+import { renderTranscriptFromFile } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdir, mkdtemp, writeFile } from "fs/promises";
+
+function line(
+  sessionId: string,
+  uuid: string,
+  parentUuid: string | null,
+  text: string,
+  second: number
+): Logline {
+  const type = uuid.startsWith("u") ? "user" : "assistant";
+  return {
+    type,
+    uuid,
+    parentUuid,
+    sessionId,
+    cwd: `/work/${sessionId}`,
+    timestamp: `2025-12-24T10:00:${String(second).padStart(2, "0")}.000Z`,
+    message:
+      type === "user"
+        ? { role: "user", content: text }
+        : { role: "assistant", content: [{ type: "text", text }] },
+  };
+}
+
+// The resumed session repeats the first exchange before carrying on
+const first: Logline[] = [
+  line("first", "u1", null, "Start the work", 0),
+  line("first", "a1", "u1", "Started", 1),
+];
+const resumed: Logline[] = [
+  line("first", "u1", null, "Start the work", 0),
+  line("first", "a1", "u1", "Started", 1),
+  line("resumed", "u2", "a1", "Carry on", 10),
+  line("resumed", "a2", "u2", "Finished", 11),
+];
+
+const toJsonl = (loglines: Logline[]) => loglines.map((l) => JSON.stringify(l)).join("\n");
+
+async function writeProject(): Promise<string> {
+  const projectsDir = await mkdtemp(join(tmpdir(), "cc-transcript-"));
+  const project = join(projectsDir, "-work-project");
+  await mkdir(project);
+  await writeFile(join(project, "first.jsonl"), toJsonl(first));
+  await writeFile(join(project, "resumed.jsonl"), toJsonl(resumed));
+  await writeFile(
+    join(project, "unrelated.jsonl"),
+    toJsonl([line("unrelated", "u9", null, "Something else", 5)])
+  );
+  return projectsDir;
+}
+
+describe("mergeSessions", () => {
+  test("dedupes repeated lines by uuid", () => {
+    const merged = mergeSessions([{ loglines: first }, { loglines: resumed }]);
+    expect(merged.loglines.map((l) => l.uuid)).toEqual(["u1", "a1", "u2", "a2"]);
+  });
+
+  test("orders lines chronologically regardless of file order", () => {
+    const merged = mergeSessions([{ loglines: resumed.slice(2) }, { loglines: first }]);
+    expect(merged.loglines.map((l) => l.uuid)).toEqual(["u1", "a1", "u2", "a2"]);
+  });
+
+  test("keeps lines without a timestamp after their predecessor", () => {
+    const summary: Logline = { type: "summary", summary: "Work", leafUuid: "a1" };
+    const merged = mergeSessions([
+      { loglines: resumed.slice(2) },
+      { loglines: [...first, summary] },
+    ]);
+    expect(merged.loglines.map((l) => l.uuid ?? l.type)).toEqual([
+      "u1",
+      "a1",
+      "summary",
+      "u2",
+      "a2",
+    ]);
+  });
+});
+
+describe("findSessionFiles", () => {
+  test("finds the files linked to a session id", async () => {
+    const projectsDir = await writeProject();
+    const project = join(projectsDir, "-work-project");
+
+    expect(await findSessionFiles("resumed", { projectsDir })).toEqual([
+      join(project, "first.jsonl"),
+      join(project, "resumed.jsonl"),
+    ]);
+    expect(await findSessionFiles("missing", { projectsDir })).toEqual([]);
+  });
+
+  test("rejects inputs that are neither files nor session ids", async () => {
+    const projectsDir = await writeProject();
+    await expect(resolveSessionFiles(["missing"], { projectsDir })).rejects.toThrow(
+      "No session file or session id found: missing"
+    );
+  });
+});
+
+describe("resumed session rendering", () => {
+  test("renders several files as one transcript with a boundary", async () => {
+    const projectsDir = await writeProject();
+    const project = join(projectsDir, "-work-project");
+
+    const output = await renderTranscriptFromFile([
+      join(project, "resumed.jsonl"),
+      join(project, "first.jsonl"),
+    ]);
+    const page = output.files.get("page-001.html")!;
+
+    expect(page.match(/Start the work/g)?.length).toBe(1);
+    expect(page).toContain('<div class="session-boundary">');
+    expect(page).toContain("<code>resumed</code> in <code>/work/resumed</code>");
+    expect(page.indexOf("Started")).toBeLessThan(page.indexOf('<div class="session-boundary">'));
+    expect(page.indexOf('<div class="session-boundary">')).toBeLessThan(page.indexOf("Carry on"));
+  });
+
+  test("keeps files whose conversations are not linked", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-transcript-"));
+    await writeFile(join(dir, "s1.jsonl"), toJsonl(first));
+    await writeFile(
+      join(dir, "s2.jsonl"),
+      toJsonl([line("s2", "u3", null, "New task", 20), line("s2", "a3", "u3", "Done", 21)])
+    );
+
+    const output = await renderTranscriptFromFile([join(dir, "s1.jsonl"), join(dir, "s2.jsonl")]);
+    const page = output.files.get("page-001.html")!;
+
+    expect(page).toContain("Start the work");
+    expect(page).toContain("Started");
+    expect(page.indexOf("Started")).toBeLessThan(page.indexOf('<div class="session-boundary">'));
+    expect(page.indexOf('<div class="session-boundary">')).toBeLessThan(page.indexOf("New task"));
+  });
+
+  test("resolves a session id to its files", async () => {
+    const projectsDir = await writeProject();
+
+    const output = await renderTranscriptFromFile("first", { projectsDir });
+    const page = output.files.get("page-001.html")!;
+
+    expect(page).toContain("Start the work");
+    expect(page).toContain("Finished");
+    expect(page).not.toContain("Something else");
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Unit tests for the single-file output
+ */
+
+import { test, expect, describe } from "bun:test";
+import { renderTranscript } from "../src/render/transcript.ts";
+import { getSingleFileJS } from "../src/assets/scripts.ts";
+import type { Logline } from "../src/schemas.ts";
+
+const exchange = (n: number): Logline[] => [
+  {
+    type: "user",
+    uuid: `u${n}`,
+    timestamp: `2025-12-24T10:0${n}:00.000Z`,
+    message: { role: "user", content: `Prompt ${n}` },
+  },
+  {
+    type: "assistant",
+    uuid: `a${n}`,
+    timestamp: `2025-12-24T10:0${n}:05.000Z`,
+    message: { role: "assistant", content: [{ type: "text", text: `Answer ${n}` }] },
+  },
+];
+
+describe("single-file output", () => {
+  const loglines = [1, 2, 3].flatMap(exchange);
+  const output = renderTranscript(
+    { loglines },
+    { singleFile: true, pagination: { promptsPerPage: 2 } }
+  );
+  const html = output.files.get("transcript.html")!;
+
+  test("is the only file written", () => {
+    expect([...output.files.keys()]).toEqual(["transcript.html"]);
+    expect(html).toStartWith("<!DOCTYPE html>");
+  });
+
+  test("has a section per page, in order", () => {
+    const ids = [...html.matchAll(/<section class="single-file-section" id="([^"]+)"/g)].map(
+      (match) => match[1]
+    );
+    expect(ids).toEqual([
+      "index.html",
+      "page-001.html",
+      "page-002.html",
+      "timeline.html",
+      "files.html",
+      "stats.html",
+    ]);
+  });
+
+  test("holds every message, still linked by page filename", () => {
+    expect(html).toContain('id="msg-u3"');
+    expect(html).toContain("Answer 3");
+    expect(html).toContain('href="page-002.html#msg-u3"');
+  });
+
+  test("searches without fetching pages", () => {
+    expect(html).toContain('id="search-modal"');
+    expect(html).not.toContain("fetch(");
+    expect(() => new Function(getSingleFileJS())).not.toThrow();
+  });
+});
@@ -184,8 +184,8 @@ describe("HTML Parity - Page Content", () => {
     if (!actualHtml) return;
     
     expect(actualHtml).toContain('class="file-tool edit-tool"');
-    expect(actualHtml).toContain('class="edit-section edit-old"');
-    expect(actualHtml).toContain('class="edit-section edit-new"');
+    expect(actualHtml).toContain('class="diff-table diff-unified"');
+    expect(actualHtml).toContain('class="diff-line diff-added"');
   });
 
   test("page contains bash tool blocks", async () => {
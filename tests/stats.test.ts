@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the statistics page and analyzeSession
+ */
+
+import { test, expect, describe } from "bun:test";
+import { analyzeSession } from "../src/render/stats.tsx";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { call, prompt, turn } from "./fixtures.ts";
+
+const loglines: Logline[] = [
+  prompt("2025-12-24T10:00:00.000Z", "Fix the build", { uuid: "p1" }),
+  ...turn(call("Bash", { command: "make" }), {
+    timestamp: "2025-12-24T10:00:10.000Z",
+    isError: true,
+  }),
+  ...turn(call("Bash", { command: "make" }), { timestamp: "2025-12-24T10:01:10.000Z" }),
+  ...turn(call("Write", { file_path: "a.ts", content: "x".repeat(800) }), {
+    timestamp: "2025-12-24T10:03:00.000Z",
+  }),
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T10:04:00.000Z",
+    message: { role: "assistant", content: [{ type: "thinking", thinking: "y".repeat(600) }] },
+  },
+  prompt("2025-12-24T10:30:00.000Z", "Summary of the work so far", {
+    uuid: "p2",
+    isCompactSummary: true,
+  }),
+  ...turn(call("Read", { file_path: "a.ts" }), { timestamp: "2025-12-24T10:31:00.000Z" }),
+  prompt("2025-12-24T11:00:00.000Z", "Thanks", { uuid: "p3" }),
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T11:00:05.000Z",
+    message: { role: "assistant", content: [{ type: "text", text: "You're welcome" }] },
+  },
+];
+
+describe("analyzeSession", () => {
+  const stats = analyzeSession({ loglines });
+
+  test("counts calls and errors per tool, most called first", () => {
+    expect(stats.tools).toEqual([
+      { name: "Bash", calls: 2, errors: 1 },
+      { name: "Read", calls: 1, errors: 0 },
+      { name: "Write", calls: 1, errors: 0 },
+    ]);
+  });
+
+  test("counts turns and calls per prompt, continuing prompts across compactions", () => {
+    expect(stats.prompts).toMatchObject([
+      {
+        text: "Fix the build",
+        timestamp: "2025-12-24T10:00:00.000Z",
+        assistantTurns: 5,
+        toolCalls: 4,
+        toolErrors: 1,
+      },
+      {
+        text: "Thanks",
+        timestamp: "2025-12-24T11:00:00.000Z",
+        assistantTurns: 1,
+        toolCalls: 0,
+        toolErrors: 0,
+      },
+    ]);
+  });
+
+  test("buckets tool calls by the smallest size that keeps the chart short", () => {
+    const { bucketMs, buckets } = stats.toolCallsOverTime;
+    expect(bucketMs).toBe(60_000);
+    expect(buckets).toHaveLength(32);
+    expect(buckets[0]).toEqual({ start: "2025-12-24T10:00:00.000Z", counts: { Bash: 1 } });
+    expect(buckets[2]).toEqual({ start: "2025-12-24T10:02:00.000Z", counts: {} });
+    expect(buckets[31]).toEqual({ start: "2025-12-24T10:31:00.000Z", counts: { Read: 1 } });
+  });
+
+  test("lists long thinking blocks and writes, longest first", () => {
+    expect(stats.longTexts.map((text) => [text.type, text.length])).toEqual([
+      ["Write", 800],
+      ["thinking", 600],
+    ]);
+  });
+});
+
+describe("stats page", () => {
+  const output = renderTranscript({ loglines });
+  const page = output.files.get("stats.html")!;
+
+  test("is linked from the index", () => {
+    expect(output.files.get("index.html")).toContain(
+      '<a href="stats.html" class="report-link">Stats</a>'
+    );
+  });
+
+  test("shows the totals and links prompts and long texts to their messages", () => {
+    expect(page).toContain("2 prompts · 6 assistant turns · 4 tool calls · 1 error (25%)");
+    expect(page).toContain("1 of 2 (50%)");
+    expect(page).toContain('<a href="page-001.html#msg-p1">Fix the build</a>');
+    expect(page).toMatch(/<a href="page-001.html#msg-\d+">thinking<\/a>/);
+  });
+});
+
+describe("context growth", () => {
+  const reply = (
+    id: string,
+    timestamp: string,
+    model: string,
+    input: number,
+    cacheRead: number
+  ): Logline => ({
+    type: "assistant",
+    timestamp,
+    message: {
+      id,
+      role: "assistant",
+      model,
+      content: [{ type: "text", text: "Done" }],
+      usage: { input_tokens: input, output_tokens: 50, cache_read_input_tokens: cacheRead },
+    },
+  });
+  const loglines: Logline[] = [
+    prompt("2025-12-24T10:00:00.000Z", "Start", { uuid: "p1" }),
+    reply("msg_1", "2025-12-24T10:00:05.000Z", "claude-sonnet-4-5", 1_000, 0),
+    reply("msg_1", "2025-12-24T10:00:05.000Z", "claude-sonnet-4-5", 1_000, 0),
+    reply("msg_2", "2025-12-24T10:01:00.000Z", "claude-sonnet-4-5", 500, 90_000),
+    prompt("2025-12-24T10:30:00.000Z", "Summary", { uuid: "p2", isCompactSummary: true }),
+    reply("msg_3", "2025-12-24T10:30:05.000Z", "claude-sonnet-4-5", 8_000, 0),
+    prompt("2025-12-24T11:00:00.000Z", "Go on", { uuid: "p3" }),
+    reply("msg_4", "2025-12-24T11:00:05.000Z", "claude-opus-4-1", 2_000, 8_000),
+  ];
+
+  test("samples the input of each request once and marks compactions", () => {
+    expect(analyzeSession({ loglines }).contextGrowth).toEqual([
+      { timestamp: "2025-12-24T10:00:05.000Z", tokens: 1_000, model: "claude-sonnet-4-5" },
+      { timestamp: "2025-12-24T10:01:00.000Z", tokens: 90_500, model: "claude-sonnet-4-5" },
+      {
+        timestamp: "2025-12-24T10:30:05.000Z",
+        tokens: 8_000,
+        model: "claude-sonnet-4-5",
+        afterCompaction: true,
+      },
+      { timestamp: "2025-12-24T11:00:05.000Z", tokens: 10_000, model: "claude-opus-4-1" },
+    ]);
+  });
+
+  test("is drawn on the stats page with compaction and model markers", () => {
+    const page = renderTranscript({ loglines }).files.get("stats.html")!;
+
+    expect(page).toContain("<h2>Context growth</h2>");
+    expect(page).toContain("Peak 90.5k tokens");
+    expect(page.match(/class="stats-marker-compaction"/g)).toHaveLength(1);
+    expect(page).toContain("Model changed from claude-sonnet-4-5 to claude-opus-4-1");
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Unit tests for sub-agent transcripts
+ */
+
+import { test, expect, describe } from "bun:test";
+import { collectSubagentRuns, loadAgentLoglines } from "../src/subagents.ts";
+import { renderTranscript, renderTranscriptFromFile } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, writeFile } from "fs/promises";
+
+const SESSION_ID = "session-1";
+
+function line(
+  type: "user" | "assistant",
+  uuid: string,
+  parentUuid: string | null,
+  content: Logline["content"],
+  extra: Partial<Logline> = {}
+): Logline {
+  return {
+    type,
+    uuid,
+    parentUuid,
+    sessionId: SESSION_ID,
+    timestamp: "2025-12-24T10:00:00.000Z",
+    message: { role: type, content },
+    ...extra,
+  };
+}
+
+const taskCall: Logline = line("assistant", "a1", "u1", [
+  {
+    type: "tool_use",
+    id: "toolu_task",
+    name: "Task",
+    input: { description: "Find config files", prompt: "Look for config files" },
+  },
+]);
+
+const taskResult = (extra: Partial<Logline> = {}): Logline =>
+  line(
+    "user",
+    "u2",
+    "a1",
+    [{ type: "tool_result", tool_use_id: "toolu_task", content: "Found two files" }],
+    extra
+  );
+
+const sidechain: Logline[] = [
+  line("user", "s1", null, "Look for config files", { isSidechain: true }),
+  line(
+    "assistant",
+    "s2",
+    "s1",
+    [{ type: "tool_use", id: "toolu_glob", name: "Glob", input: { pattern: "**/*.json" } }],
+    { isSidechain: true }
+  ),
+  line(
+    "user",
+    "s3",
+    "s2",
+    [{ type: "tool_result", tool_use_id: "toolu_glob", content: "a.json\nb.json" }],
+    { isSidechain: true }
+  ),
+];
+
+const session: Logline[] = [
+  line("user", "u1", null, "Where is the config?"),
+  taskCall,
+  ...sidechain,
+  taskResult(),
+  line("assistant", "a2", "u2", [{ type: "text", text: "There are two config files." }]),
+];
+
+describe("collectSubagentRuns", () => {
+  test("matches inline sidechains to the Task call by prompt", () => {
+    const runs = collectSubagentRuns(session);
+
+    expect(Array.from(runs.keys())).toEqual(["toolu_task"]);
+    expect(runs.get("toolu_task")?.map((l) => l.uuid)).toEqual(["s1", "s2", "s3"]);
+  });
+
+  test("matches agent files through the agentId in the tool result", () => {
+    const agentLoglines = sidechain.map((l) => ({
+      ...l,
+      agentId: "abc123",
+      message: l.uuid === "s1" ? { role: "user", content: "A different prompt" } : l.message,
+    }));
+    const loglines = [
+      line("user", "u1", null, "Where is the config?"),
+      taskCall,
+      taskResult({ toolUseResult: { agentId: "abc123", status: "completed" } }),
+    ];
+
+    const runs = collectSubagentRuns(loglines, agentLoglines);
+
+    expect(runs.get("toolu_task")?.map((l) => l.uuid)).toEqual(["s1", "s2", "s3"]);
+  });
+
+  test("ignores sidechains that match no Task call", () => {
+    const runs = collectSubagentRuns([line("user", "u1", null, "Hello"), ...sidechain]);
+    expect(runs.size).toBe(0);
+  });
+});
+
+describe("sub-agent rendering", () => {
+  test("nests the sub-agent transcript under its Task call", () => {
+    const output = renderTranscript({ loglines: session });
+    const page = output.files.get("page-001.html")!;
+
+    expect(page).toContain('<details class="subagent">');
+    expect(page).toContain("Sub-agent: Find config files (3 messages)");
+    expect(page.indexOf('<details class="subagent">')).toBeGreaterThan(
+      page.indexOf("Look for config files")
+    );
+    expect(page).toContain("a.json");
+    // The sub-agent prompt does not start a conversation of its own
+    expect(output.files.get("index.html")).toContain("1 prompt ·");
+  });
+
+  test("counts sub-agent tool calls in the index stats", () => {
+    const output = renderTranscript({ loglines: session });
+    const index = output.files.get("index.html")!;
+
+    expect(index).toContain("1 task");
+    expect(index).toContain("1 glob");
+    expect(index).toContain("2 tool calls");
+  });
+
+  test("loads agent files from the session directory", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-transcript-"));
+    const toJsonl = (loglines: Logline[]) => loglines.map((l) => JSON.stringify(l)).join("\n");
+
+    const filePath = join(dir, "session.jsonl");
+    await writeFile(
+      filePath,
+      toJsonl([line("user", "u1", null, "Where is the config?"), taskCall, taskResult()])
+    );
+    await writeFile(
+      join(dir, "agent-abc123.jsonl"),
+      toJsonl(sidechain.map((l) => ({ ...l, isSidechain: undefined })))
+    );
+    await writeFile(
+      join(dir, "agent-other.jsonl"),
+      toJsonl([line("user", "x1", null, "Look for config files", { sessionId: "other" })])
+    );
+
+    const agentLoglines = await loadAgentLoglines(filePath);
+    expect(agentLoglines.map((l) => l.uuid)).toEqual(["s1", "s2", "s3"]);
+    expect(agentLoglines.every((l) => l.isSidechain)).toBe(true);
+
+    const output = await renderTranscriptFromFile(filePath);
+    expect(output.files.get("page-001.html")).toContain("Sub-agent: Find config files");
+  });
+
+  test("reports invalid lines of agent files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-transcript-"));
+    const toJsonl = (loglines: Logline[]) => loglines.map((l) => JSON.stringify(l)).join("\n");
+
+    const filePath = join(dir, "session.jsonl");
+    await writeFile(filePath, toJsonl([line("user", "u1", null, "Where is the config?")]));
+    await writeFile(join(dir, "agent-abc123.jsonl"), `${toJsonl(sidechain)}\n{not json`);
+
+    const diagnostics: unknown[] = [];
+    await renderTranscriptFromFile(filePath, { onDiagnostic: (d) => diagnostics.push(d) });
+    expect(diagnostics).toHaveLength(1);
+
+    await expect(renderTranscriptFromFile(filePath, { strict: true })).rejects.toThrow(
+      "agent-abc123.jsonl"
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the terminal transcript
+ */
+
+import { test, expect, describe } from "bun:test";
+import { renderTerminal } from "../src/render/terminal.ts";
+import type { Logline } from "../src/schemas.ts";
+import { call, prompt, turn } from "./fixtures.ts";
+
+const loglines: Logline[] = [
+  prompt("2025-12-24T10:00:00.000Z", "Fix the **build**"),
+  {
+    type: "assistant",
+    timestamp: "2025-12-24T10:00:01.000Z",
+    message: {
+      role: "assistant",
+      content: [
+        { type: "thinking", thinking: "Check the Makefile" },
+        { type: "text", text: "## Plan\n\n- run `make`\n- fix it" },
+      ],
+    },
+  },
+  ...turn(call("Bash", { command: "make", description: "Build" }), {
+    timestamp: "2025-12-24T10:00:02.000Z",
+    result: Array.from({ length: 15 }, (_, i) => `line ${i}`).join("\n"),
+  }),
+  ...turn(
+    call("Edit", { file_path: "/work/Makefile", old_string: "cc a.c", new_string: "gcc a.c" }),
+    {
+      timestamp: "2025-12-24T10:00:03.000Z",
+      result: "File has been modified since read",
+      isError: true,
+    }
+  ),
+  prompt("2025-12-24T10:30:00.000Z", "Summary of the work so far", { isCompactSummary: true }),
+  prompt("2025-12-24T11:00:00.000Z", "Thanks"),
+];
+
+describe("terminal transcript", () => {
+  const { text, promptLines } = renderTerminal({ loglines }, { color: false });
+  const lines = text.split("\n");
+
+  test("has a header per prompt and records where each starts", () => {
+    expect(promptLines).toHaveLength(2);
+    expect(lines[promptLines[0]!]).toMatch(/^━+$/);
+    expect(lines[promptLines[0]! + 2]).toBe("#1 User · 2025-12-24 10:00:00 UTC");
+    expect(lines[promptLines[1]! + 2]).toBe("#2 User · 2025-12-24 11:00:00 UTC");
+  });
+
+  test("turns Markdown into terminal text", () => {
+    expect(text).toContain("Fix the build\n\nAssistant · 2025-12-24 10:00:01 UTC");
+    expect(text).toContain("Plan\n\n• run make\n• fix it");
+    expect(text).toContain("✻ Check the Makefile");
+  });
+
+  test("shows commands and diffs, with results under their call", () => {
+    expect(text).toContain("⏺ Bash Build\n  $ make\n  ⎿ line 0\n    line 1\n");
+    expect(text).toContain("⏺ Edit /work/Makefile\n  -cc a.c\n  +gcc a.c\n  ⎿ File has been modified since read");
+  });
+
+  test("shows the input of other tools as plain JSON", () => {
+    const { text: generic } = renderTerminal(
+      {
+        loglines: [
+          prompt("2025-12-24T10:00:00.000Z", "Search"),
+          ...turn(call("mcp__search__find", { pattern: "a<b" }), {
+            timestamp: "2025-12-24T10:00:01.000Z",
+          }),
+        ],
+      },
+      { color: false }
+    );
+    expect(generic).toContain('⏺ mcp__search__find\n  {\n    "pattern": "a<b"\n  }');
+  });
+
+  test("cuts long tool output", () => {
+    expect(text).toContain("    line 9\n    … 5 more lines");
+    expect(text).not.toContain("line 10");
+  });
+
+  test("marks a compaction without counting it as a prompt", () => {
+    expect(text).toContain("Context compacted · 2025-12-24 10:30:00 UTC\n\nSummary of the work so far");
+  });
+
+  test("applies content filters", () => {
+    const filtered = renderTerminal(
+      { loglines },
+      { color: false, exclude: { blocks: ["thinking", "tool_use", "tool_result"] } }
+    ).text;
+    expect(filtered).not.toContain("Check the Makefile");
+    expect(filtered).not.toContain("⏺");
+  });
+
+  test("escapes control sequences from the session", () => {
+    const hostile = "\u001b]0;title\u0007\u001b]52;c;Y2xpcA==\u0007\u001b[2J\u009b";
+    const session = {
+      loglines: [
+        prompt("2025-12-24T10:00:00.000Z", `Prompt ${hostile}`),
+        ...turn(call("Bash", { command: "cat log" }), {
+          timestamp: "2025-12-24T10:00:01.000Z",
+          result: `Output ${hostile}`,
+        }),
+      ],
+    };
+    const escaped = renderTerminal(session, { color: false }).text;
+
+    expect(escaped).toContain("Prompt ^[]0;title^G^[]52;c;Y2xpcA==^G^[[2J<9B>");
+    expect(escaped).toContain("⎿ Output ^[]0;title^G");
+    expect(escaped).not.toMatch(/[\x00-\x08\x0b-\x1f\x7f-\x9f]/);
+    // Only the renderer's own colour codes reach the terminal
+    expect(renderTerminal(session).text).not.toMatch(/\x1b(?!\[[0-9;]*m)/);
+  });
+
+  test("uses ANSI colours unless turned off", () => {
+    const colored = renderTerminal({ loglines }).text;
+    expect(colored).toContain("\x1b[1;34m#1 User\x1b[0m");
+    expect(colored).toContain("\x1b[31m-cc a.c\x1b[0m");
+    expect(text).not.toContain("\x1b[");
+  });
+});
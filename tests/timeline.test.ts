@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the session timeline
+ */
+
+import { test, expect, describe } from "bun:test";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+
+const loglines: Logline[] = [
+  {
+    type: "user",
+    uuid: "u1",
+    timestamp: "2025-12-24T10:00:00.000Z",
+    message: { role: "user", content: "List the files" },
+  },
+  {
+    type: "assistant",
+    uuid: "a1",
+    timestamp: "2025-12-24T10:00:04.000Z",
+    message: {
+      role: "assistant",
+      content: [{ type: "tool_use", id: "toolu_ls", name: "Bash", input: { command: "ls" } }],
+    },
+  },
+  {
+    type: "user",
+    uuid: "r1",
+    timestamp: "2025-12-24T10:00:06.500Z",
+    message: {
+      role: "user",
+      content: [{ type: "tool_result", tool_use_id: "toolu_ls", content: "a.txt", is_error: true }],
+    },
+  },
+  {
+    type: "assistant",
+    uuid: "a2",
+    timestamp: "2025-12-24T10:00:09.000Z",
+    message: { role: "assistant", content: [{ type: "text", text: "One file." }] },
+  },
+  {
+    type: "user",
+    uuid: "c1",
+    isCompactSummary: true,
+    timestamp: "2025-12-24T12:00:00.000Z",
+    message: { role: "user", content: "This session is being continued..." },
+  },
+];
+
+describe("timeline page", () => {
+  const output = renderTranscript({ loglines });
+  const timeline = output.files.get("timeline.html")!;
+
+  test("is generated and linked from the index", () => {
+    expect([...output.files.keys()]).toContain("timeline.html");
+    expect(output.files.get("index.html")).toContain(
+      '<a href="timeline.html" class="report-link">Timeline</a>'
+    );
+    expect(timeline).toContain("<title>Transcript - Timeline</title>");
+    expect(timeline).toContain("1 prompt · 1 tool call · 1 compaction · 9s active · 1h 59m idle");
+  });
+
+  test("links each segment to its anchor", () => {
+    expect(timeline).toContain('<a href="page-001.html#msg-u1"><rect class="timeline-prompt"');
+    expect(timeline).toContain('<a href="page-001.html#tool-toolu_ls"><rect class="timeline-tool timeline-error"');
+    expect(timeline).toContain('<a href="page-001.html#msg-c1"><rect class="timeline-compaction"');
+  });
+
+  test("times tool calls and assistant turns", () => {
+    expect(timeline).toContain("<title>Bash · 2.5s · error</title>");
+    // Turns are timed from the message they answer
+    expect(timeline).toContain("<title>Assistant · 4.0s</title>");
+    expect(timeline).toContain("<title>Assistant · 2.5s</title>");
+  });
+
+  test("cuts idle gaps out of the axis", () => {
+    expect(timeline).toContain("<title>Idle for 1h 59m</title>");
+    expect(timeline).toContain('class="timeline-compaction-line"');
+  });
+
+  test("says so when nothing has a timestamp", () => {
+    const empty = renderTranscript({
+      loglines: [{ type: "user", message: { role: "user", content: "Hi" } }],
+    }).files.get("timeline.html")!;
+
+    expect(empty).toContain("No timestamped messages to plot.");
+    expect(empty).not.toContain("<svg");
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Unit tests for pairing tool results with their calls
+ */
+
+import { test, expect, describe } from "bun:test";
+import { pairToolResults, formatElapsed } from "../src/render/tool-pairs.ts";
+import { toConversationMessage } from "../src/render/conversations.ts";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline } from "../src/schemas.ts";
+
+const session: { loglines: Logline[] } = {
+  loglines: [
+    {
+      type: "user",
+      timestamp: "2025-12-24T10:00:00.000Z",
+      message: { role: "user", content: "List and check" },
+    },
+    {
+      type: "assistant",
+      timestamp: "2025-12-24T10:00:01.000Z",
+      message: {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "toolu_ls", name: "Bash", input: { command: "ls" } },
+          { type: "tool_use", id: "toolu_cat", name: "Bash", input: { command: "cat missing" } },
+          { type: "tool_use", id: "toolu_slow", name: "Bash", input: { command: "sleep 100" } },
+        ],
+      },
+    },
+    {
+      type: "user",
+      timestamp: "2025-12-24T10:00:03.500Z",
+      message: {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "toolu_ls", content: "README.md" },
+          { type: "tool_result", tool_use_id: "toolu_cat", content: "No such file", is_error: true },
+          { type: "tool_result", tool_use_id: "toolu_gone", content: "Stray output" },
+        ],
+      },
+    },
+  ],
+};
+
+describe("pairToolResults", () => {
+  test("links results to calls by tool_use_id", () => {
+    const messages = session.loglines.map(toConversationMessage).filter((m) => m !== null);
+    const pairing = pairToolResults(messages);
+
+    expect(Array.from(pairing.calls.keys())).toEqual(["toolu_ls", "toolu_cat", "toolu_slow"]);
+    expect(Array.from(pairing.results.keys())).toEqual(["toolu_ls", "toolu_cat"]);
+    expect(pairing.results.get("toolu_ls")?.timestamp).toBe("2025-12-24T10:00:03.500Z");
+  });
+});
+
+describe("formatElapsed", () => {
+  test("formats milliseconds, seconds and minutes", () => {
+    expect(formatElapsed(850)).toBe("850ms");
+    expect(formatElapsed(4200)).toBe("4.2s");
+    expect(formatElapsed(125_000)).toBe("2m 5s");
+    expect(formatElapsed(120_000)).toBe("2m");
+  });
+});
+
+describe("paired tool layout", () => {
+  test("keeps tool replies as separate messages by default", () => {
+    const page = renderTranscript(session).files.get("page-001.html")!;
+
+    expect(page).toContain('class="message tool-reply"');
+    expect(page).not.toContain('<details class="tool-card');
+  });
+
+  test("renders each result under its call with status and elapsed time", () => {
+    const page = renderTranscript(session, { pairToolResults: true }).files.get("page-001.html")!;
+
+    expect(page).toContain(
+      '<span class="tool-status tool-status-ok">ok</span><span class="tool-elapsed">2.5s</span>'
+    );
+    expect(page).toContain('<details class="tool-card tool-card-error" open>');
+    expect(page.indexOf("README.md")).toBeLessThan(page.indexOf('data-tool-id="toolu_cat"'));
+  });
+
+  test("flags calls without a result", () => {
+    const page = renderTranscript(session, { pairToolResults: true }).files.get("page-001.html")!;
+
+    expect(page).toContain('<details class="tool-card tool-card-missing" open>');
+    expect(page).toContain('<span class="tool-status tool-status-missing">no result</span>');
+  });
+
+  test("flags results without a call and drops the paired ones from the reply", () => {
+    const page = renderTranscript(session, { pairToolResults: true }).files.get("page-001.html")!;
+    const reply = page.slice(page.indexOf('class="message tool-reply"'));
+
+    expect(reply).toContain('<div class="tool-orphan">');
+    expect(reply).toContain("Stray output");
+    expect(reply).not.toContain("README.md");
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the tool renderer registry
+ */
+
+import { test, expect, describe } from "bun:test";
+import { h } from "preact";
+import { createToolRendererRegistry, matchToolName } from "../src/render/tool-registry.tsx";
+import { renderTranscript } from "../src/render/transcript.ts";
+import type { Logline, ToolUseBlock } from "../src/schemas.ts";
+
+const jiraCall: ToolUseBlock = {
+  type: "tool_use",
+  id: "toolu_jira",
+  name: "mcp__jira__create_issue",
+  input: { summary: "Fix login" },
+};
+
+const session: { loglines: Logline[] } = {
+  loglines: [
+    {
+      type: "user",
+      timestamp: "2025-12-24T10:00:00.000Z",
+      message: { role: "user", content: "File a ticket" },
+    },
+    {
+      type: "assistant",
+      timestamp: "2025-12-24T10:00:01.000Z",
+      message: { role: "assistant", content: [jiraCall] },
+    },
+    {
+      type: "user",
+      timestamp: "2025-12-24T10:00:02.000Z",
+      message: {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_jira", content: "PROJ-42" }],
+      },
+    },
+  ],
+};
+
+describe("matchToolName", () => {
+  test("matches exact names case-insensitively", () => {
+    expect(matchToolName("bash", "Bash")).toBe(true);
+    expect(matchToolName("bash", "BashOutput")).toBe(false);
+  });
+
+  test("matches glob patterns", () => {
+    expect(matchToolName("mcp__jira__*", "mcp__jira__create_issue")).toBe(true);
+    expect(matchToolName("mcp__db__*", "mcp__jira__create_issue")).toBe(false);
+    expect(matchToolName("mcp__?ira__*", "mcp__jira__create_issue")).toBe(true);
+  });
+});
+
+describe("createToolRendererRegistry", () => {
+  test("renders built-in tools through the registry", () => {
+    const registry = createToolRendererRegistry();
+    const html = registry.renderUse({
+      type: "tool_use",
+      id: "toolu_bash",
+      name: "Bash",
+      input: { command: "ls" },
+    });
+
+    expect(html).toContain('class="tool-use bash-tool"');
+  });
+
+  test("returns null for tools without a renderer", () => {
+    expect(createToolRendererRegistry().renderUse(jiraCall)).toBeNull();
+  });
+
+  test("prefers exact names over patterns and custom over built-in", () => {
+    const registry = createToolRendererRegistry({
+      "mcp__*": { renderUse: () => "pattern" },
+      mcp__jira__create_issue: { renderUse: () => "exact" },
+      bash: { renderUse: () => "custom bash" },
+    });
+
+    expect(registry.renderUse(jiraCall)).toBe("exact");
+    expect(registry.renderUse({ ...jiraCall, name: "Bash" })).toBe("custom bash");
+  });
+
+  test("falls through when a renderer returns null", () => {
+    const registry = createToolRendererRegistry({
+      mcp__jira__create_issue: { renderUse: () => null },
+      "mcp__jira__*": { renderUse: () => "fallback" },
+    });
+
+    expect(registry.renderUse(jiraCall)).toBe("fallback");
+  });
+});
+
+describe("RenderOptions.toolRenderers", () => {
+  test("renders calls with their result and customises results", () => {
+    const page = renderTranscript(session, {
+      toolRenderers: {
+        "mcp__jira__*": {
+          renderUse: (use, result) =>
+            h("div", { class: "jira-call" }, `${use.input.summary} → ${result?.content}`),
+          renderResult: (result) => `<div class="jira-result">Created ${result.content}</div>`,
+        },
+      },
+    }).files.get("page-001.html")!;
+
+    expect(page).toContain('<div class="jira-call">Fix login → PROJ-42</div>');
+    expect(page).toContain('<div class="jira-result">Created PROJ-42</div>');
+  });
+
+  test("falls back to the JSON dump without a matching renderer", () => {
+    const page = renderTranscript(session).files.get("page-001.html")!;
+
+    expect(page).toContain("mcp__jira__create_issue");
+    expect(page).not.toContain("jira-call");
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for the built-in tool renderers
+ */
+
+import { test, expect, describe } from "bun:test";
+import { createToolRendererRegistry } from "../src/render/tool-registry.tsx";
+import {
+  groupGrepOutput,
+  parseNumberedLines,
+  parseWebSearchOutput,
+} from "../src/render/tool-renderers.tsx";
+import type { ToolResultBlock, ToolUseBlock } from "../src/schemas.ts";
+
+const registry = createToolRendererRegistry();
+
+function call(name: string, input: Record<string, unknown>): ToolUseBlock {
+  return { type: "tool_use", id: `toolu_${name.toLowerCase()}`, name, input };
+}
+
+function result(content: ToolResultBlock["content"], isError = false): ToolResultBlock {
+  return { type: "tool_result", tool_use_id: "toolu_x", content, is_error: isError };
+}
+
+describe("Read", () => {
+  const read = call("Read", { file_path: "/work/src/app.ts", offset: 10, limit: 5 });
+
+  test("shows the file and line range", () => {
+    const html = registry.renderUse(read)!;
+    expect(html).toContain('<span class="file-tool-path">app.ts</span>');
+    expect(html).toContain("lines 10–14");
+  });
+
+  test("renders the output with its line numbers", () => {
+    expect(parseNumberedLines("    10→const a = 1;\n    11→")).toEqual([
+      { number: "10", text: "const a = 1;" },
+      { number: "11", text: "" },
+    ]);
+
+    const html = registry.renderResult(result("    10→const a = 1;"), read)!;
+    expect(html).toContain('<span class="line-number">10</span>');
+    expect(html).toContain(
+      '<span class="line-text"><span class="hljs-keyword">const</span> a = <span class="hljs-number">1</span>;</span>'
+    );
+  });
+
+  test("leaves errors and images to the generic rendering", () => {
+    expect(registry.renderResult(result("File does not exist.", true), read)).toBeNull();
+    const image = { type: "image", source: { type: "base64", media_type: "image/png", data: "" } };
+    expect(registry.renderResult(result([image]), read)).toBeNull();
+  });
+});
+
+describe("Grep", () => {
+  test("groups content matches by file", () => {
+    expect(
+      groupGrepOutput("src/a.ts:3:foo()\nsrc/a.ts:9:foo(1)\nsrc/b-c.ts:1:foo", "content")
+    ).toEqual([
+      { file: "src/a.ts", lines: ["3: foo()", "9: foo(1)"] },
+      { file: "src/b-c.ts", lines: ["1: foo"] },
+    ]);
+  });
+
+  test("lists matching files and counts", () => {
+    expect(groupGrepOutput("Found 2 files\nsrc/a.ts\nsrc/b.ts")).toEqual([
+      { file: "src/a.ts", lines: [] },
+      { file: "src/b.ts", lines: [] },
+    ]);
+    expect(groupGrepOutput("src/a.ts:4", "count")).toEqual([
+      { file: "src/a.ts", lines: ["4 matches"] },
+    ]);
+  });
+
+  test("shows the pattern and options", () => {
+    const grep = call("Grep", { pattern: "foo\\(", path: "src", output_mode: "content", "-i": true });
+    const html = registry.renderUse(grep)!;
+
+    expect(html).toContain('<code class="search-pattern">foo\\(</code>');
+    expect(html).toContain("in src · content · case-insensitive");
+    expect(registry.renderResult(result("src/a.ts:3:foo()"), grep)).toContain(
+      '<div class="grep-file-path">src/a.ts</div>'
+    );
+  });
+});
+
+describe("Glob", () => {
+  test("renders matches as a file tree", () => {
+    const glob = call("Glob", { pattern: "**/*.ts" });
+    const html = registry.renderResult(
+      result("/work/src/index.ts\n/work/src/render/page.ts\n/work/README.md"),
+      glob
+    )!;
+
+    expect(html).toContain("3 files");
+    expect(html).toContain('<div class="file-tree-root">/work/</div>');
+    expect(html).toContain('<span class="file-tree-name">src/</span>');
+    expect(html).toContain('<span class="file-tree-name">page.ts</span>');
+  });
+});
+
+describe("WebFetch and WebSearch", () => {
+  test("links the fetched URL and renders the answer as markdown", () => {
+    const fetch = call("WebFetch", { url: "https://example.com/docs", prompt: "Summarise" });
+
+    expect(registry.renderUse(fetch)).toContain(
+      '<a href="https://example.com/docs" class="web-url">https://example.com/docs</a>'
+    );
+    expect(registry.renderResult(result("The **docs** say hi"), fetch)).toContain(
+      "<strong>docs</strong>"
+    );
+  });
+
+  test("does not link non-web URLs", () => {
+    const fetch = call("WebFetch", { url: "javascript:alert(1)" });
+    expect(registry.renderUse(fetch)).not.toContain("href=");
+  });
+
+  test("escapes HTML in fetched and searched content", () => {
+    const payload =
+      '<img src=x onerror=alert(1)> <script>alert(2)</script>\n\n[click](javascript:alert(3))';
+
+    const tools = [call("WebFetch", { url: "https://example.com" }), call("WebSearch", { query: "x" })];
+    for (const tool of tools) {
+      const html = registry.renderResult(result(payload), tool)!;
+      expect(html).toContain("&lt;img src=x onerror=alert(1)&gt; &lt;script&gt;alert(2)&lt;/script&gt;");
+      expect(html).not.toContain("<script");
+      expect(html).not.toContain("<img");
+      expect(html).not.toContain("javascript:");
+    }
+  });
+
+  test("lists search sources", () => {
+    const output =
+      'Web search results for query: "bun"\n\nLinks: [{"title":"Bun [docs]","url":"https://bun.sh/docs"},{"title":"Bad","url":"javascript:x"}]\n\nBun is fast.';
+
+    const parsed = parseWebSearchOutput(output);
+    expect(parsed.sources.map((s) => s.title)).toEqual(["Bun [docs]", "Bad"]);
+    expect(parsed.text).toContain("Bun is fast.");
+    expect(parsed.text).not.toContain("Links:");
+
+    const html = registry.renderResult(result(output), call("WebSearch", { query: "bun" }))!;
+    expect(html).toContain('<a href="https://bun.sh/docs">Bun [docs]</a>');
+    expect(html).not.toContain('href="javascript:x"');
+  });
+});
+
+describe("MultiEdit and NotebookEdit", () => {
+  test("numbers each edit", () => {
+    const html = registry.renderUse(
+      call("MultiEdit", {
+        file_path: "/work/a.ts",
+        edits: [
+          { old_string: "one", new_string: "1" },
+          { old_string: "two", new_string: "2", replace_all: true },
+        ],
+      })
+    )!;
+
+    expect(html).toContain("(2 edits)");
+    expect(html).toContain("Edit 2");
+    expect(html).toContain("(replace all)");
+    expect(html.match(/class="diff-table diff-unified"/g)?.length).toBe(2);
+  });
+
+  test("shows the edited cell", () => {
+    const html = registry.renderUse(
+      call("NotebookEdit", {
+        notebook_path: "/work/analysis.ipynb",
+        cell_id: "c3",
+        cell_type: "markdown",
+        edit_mode: "insert",
+        new_source: "# Results",
+      })
+    )!;
+
+    expect(html).toContain("Insert markdown cell c3");
+    expect(html).toContain('<pre class="notebook-cell-source"># Results</pre>');
+    expect(
+      registry.renderUse(
+        call("NotebookEdit", { notebook_path: "/work/a.ipynb", edit_mode: "delete", new_source: "" })
+      )
+    ).toContain("Cell deleted");
+  });
+});
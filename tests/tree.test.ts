@@ -0,0 +1,172 @@
+/**
+ * Unit tests for conversation tree reconstruction
+ */
+
+import { test, expect, describe, beforeAll } from "bun:test";
+import { selectBranch, applyBranchSelection } from "../src/tree.ts";
+import { renderTranscript, renderTranscriptFromFile } from "../src/render/transcript.ts";
+import { parseSessionFile } from "../src/parse.ts";
+import type { Logline } from "../src/schemas.ts";
+import { join } from "path";
+import { tmpdir } from "os";
+import { mkdtemp, writeFile } from "fs/promises";
+
+const fixturesDir = join(import.meta.dir, "..", "fixtures", "input");
+
+function user(uuid: string, parentUuid: string | null, text: string, second: number): Logline {
+  return {
+    type: "user",
+    uuid,
+    parentUuid,
+    timestamp: `2025-12-24T10:00:${String(second).padStart(2, "0")}.000Z`,
+    message: { role: "user", content: text },
+  };
+}
+
+function assistant(uuid: string, parentUuid: string, text: string, second: number): Logline {
+  return {
+    type: "assistant",
+    uuid,
+    parentUuid,
+    timestamp: `2025-12-24T10:00:${String(second).padStart(2, "0")}.000Z`,
+    message: { role: "assistant", content: [{ type: "text", text }] },
+  };
+}
+
+// u1 -> a1 -> u2 (abandoned) -> a2
+//          -> u3 (edited prompt) -> a3
+const branched: Logline[] = [
+  user("u1", null, "First prompt", 0),
+  assistant("a1", "u1", "First answer", 1),
+  user("u2", "a1", "Abandoned prompt", 2),
+  assistant("a2", "u2", "Abandoned answer", 3),
+  user("u3", "a1", "Edited prompt", 4),
+  assistant("a3", "u3", "Final answer", 5),
+];
+
+describe("selectBranch", () => {
+  test("returns null when loglines have no parent links", async () => {
+    const session = await parseSessionFile(join(fixturesDir, "sample_session.jsonl"));
+    expect(selectBranch(session.loglines)).toBeNull();
+  });
+
+  test("selects the latest leaf by default", () => {
+    const selection = selectBranch(branched);
+
+    expect(selection?.leafUuid).toBe("a3");
+    expect(Array.from(selection?.active ?? [])).toEqual(["a3", "u3", "a1", "u1"]);
+  });
+
+  test("records abandoned branches at their fork point", () => {
+    const selection = selectBranch(branched);
+
+    expect(selection?.alternates.get("a1")).toEqual([["u2", "a2"]]);
+  });
+
+  test("prefers the leaf recorded by the summary line", () => {
+    const selection = selectBranch([
+      { type: "summary", summary: "Session", leafUuid: "a2" },
+      ...branched,
+    ]);
+
+    expect(selection?.leafUuid).toBe("a2");
+    expect(selection?.active.has("u3")).toBe(false);
+    expect(selection?.alternates.get("a1")).toEqual([["u3", "a3"]]);
+  });
+
+  test("follows a summary leaf to its latest descendant", () => {
+    const selection = selectBranch([
+      { type: "summary", summary: "Session", leafUuid: "u3" },
+      ...branched,
+    ]);
+
+    expect(selection?.leafUuid).toBe("a3");
+  });
+
+  test("explicit leafUuid overrides the default", () => {
+    expect(selectBranch(branched, "a2")?.leafUuid).toBe("a2");
+  });
+
+  test("links compacted sessions through logicalParentUuid", () => {
+    const selection = selectBranch([
+      ...branched,
+      {
+        type: "system",
+        uuid: "s1",
+        parentUuid: null,
+        logicalParentUuid: "a3",
+        timestamp: "2025-12-24T10:00:06.000Z",
+      },
+      user("u4", "s1", "Continue after compaction", 7),
+    ]);
+
+    expect(selection?.leafUuid).toBe("u4");
+    expect(selection?.active.has("u1")).toBe(true);
+  });
+
+  test("ignores sidechain loglines", () => {
+    const selection = selectBranch([
+      ...branched,
+      { ...user("side1", null, "Sub-agent task", 9), isSidechain: true },
+    ]);
+
+    expect(selection?.leafUuid).toBe("a3");
+  });
+});
+
+describe("applyBranchSelection", () => {
+  test("keeps only the active branch", () => {
+    const { loglines, alternates } = applyBranchSelection(branched, selectBranch(branched));
+
+    expect(loglines.map((l) => l.uuid)).toEqual(["u1", "a1", "u3", "a3"]);
+    expect(alternates.get("a1")?.[0]?.map((l) => l.uuid)).toEqual(["u2", "a2"]);
+  });
+
+  test("leaves loglines unchanged without a selection", () => {
+    const { loglines } = applyBranchSelection(branched, null);
+    expect(loglines).toBe(branched);
+  });
+});
+
+describe("rendering branches", () => {
+  let branchedFile: string;
+
+  beforeAll(async () => {
+    const dir = await mkdtemp(join(tmpdir(), "cc-transcript-tree-"));
+    branchedFile = join(dir, "branched.jsonl");
+    await writeFile(branchedFile, branched.map((l) => JSON.stringify(l)).join("\n"));
+  });
+
+  test("renders only the active branch", () => {
+    const page = renderTranscript({ loglines: branched }).files.get("page-001.html");
+
+    expect(page).toContain("Edited prompt");
+    expect(page).not.toContain("Abandoned prompt");
+  });
+
+  test("renders abandoned branches as alternate paths when requested", () => {
+    const page = renderTranscript(
+      { loglines: branched },
+      { alternateBranches: true }
+    ).files.get("page-001.html");
+
+    expect(page).toContain('<details class="alternate-path">');
+    expect(page).toContain("Abandoned prompt");
+  });
+
+  test("renderTranscriptFromFile streams the active branch", async () => {
+    const output = await renderTranscriptFromFile(branchedFile);
+    const page = output.files.get("page-001.html");
+
+    expect(page).toContain("Edited prompt");
+    expect(page).not.toContain("Abandoned prompt");
+    expect(output.files.get("index.html")).toContain("2 prompts");
+  });
+
+  test("renderTranscriptFromFile renders alternate paths when requested", async () => {
+    const output = await renderTranscriptFromFile(branchedFile, { alternateBranches: true });
+
+    expect(output.files.get("page-001.html")).toContain("Abandoned prompt");
+    expect(output.files.get("index.html")).toContain("2 prompts");
+  });
+});
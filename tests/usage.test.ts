@@ -0,0 +1,112 @@
+/**
+ * Unit tests for token usage and cost
+ */
+
+import { test, expect, describe } from "bun:test";
+import {
+  createUsageCounter,
+  findModelPricing,
+  getCacheHitRatio,
+  DEFAULT_PRICING,
+} from "../src/usage.ts";
+import { analyzeSession } from "../src/render/stats.tsx";
+import { renderTranscript } from "../src/render/transcript.ts";
+import { LoglineSchema, type Logline, type Message } from "../src/schemas.ts";
+
+const reply = (id: string, model: string, usage: Message["usage"]): Message => ({
+  id,
+  role: "assistant",
+  model,
+  content: [{ type: "text", text: "Done" }],
+  usage,
+});
+
+describe("findModelPricing", () => {
+  test("picks the longest matching prefix", () => {
+    expect(findModelPricing("claude-opus-4-5-20251101", DEFAULT_PRICING)?.input).toBe(5);
+    expect(findModelPricing("claude-opus-4-1-20250805", DEFAULT_PRICING)?.input).toBe(15);
+    expect(findModelPricing("gpt-4o", DEFAULT_PRICING)).toBeUndefined();
+  });
+});
+
+describe("createUsageCounter", () => {
+  test("prices every kind of token and counts each message id once", () => {
+    const counter = createUsageCounter();
+    const message = reply("msg_1", "claude-sonnet-4-5-20250929", {
+      input_tokens: 1_000,
+      output_tokens: 2_000,
+      cache_creation_input_tokens: 10_000,
+      cache_read_input_tokens: 100_000,
+    });
+
+    expect(counter.add(message).cost).toBeCloseTo(0.003 + 0.03 + 0.0375 + 0.03);
+    // Later loglines of the same response repeat its usage
+    expect(counter.add(message).inputTokens).toBe(0);
+
+    const total = counter.finish();
+    expect(total).toMatchObject({
+      inputTokens: 1_000,
+      outputTokens: 2_000,
+      cacheCreationTokens: 10_000,
+      cacheReadTokens: 100_000,
+      unpricedModels: [],
+    });
+    expect(getCacheHitRatio(total)).toBeCloseTo(100_000 / 111_000);
+  });
+
+  test("takes prices from the overrides and leaves unknown models unpriced", () => {
+    const counter = createUsageCounter({
+      "claude-sonnet-4": { input: 1, output: 1, cacheWrite: 1, cacheRead: 1 },
+    });
+    counter.add(reply("a", "claude-sonnet-4-20250514", { input_tokens: 1_000_000 }));
+    counter.add(reply("b", "local-model", { input_tokens: 500 }));
+    counter.add(reply("c", "<synthetic>", { input_tokens: 0, output_tokens: 0 }));
+
+    expect(counter.finish()).toMatchObject({
+      inputTokens: 1_000_500,
+      cost: 1,
+      unpricedModels: ["local-model"],
+    });
+    expect([...counter.byModel().keys()]).toEqual(["claude-sonnet-4-20250514", "local-model"]);
+  });
+});
+
+describe("session usage", () => {
+  const assistant = (timestamp: string, message: Message): Logline => ({
+    type: "assistant",
+    timestamp,
+    message,
+  });
+  const prompt = (timestamp: string, text: string): Logline => ({
+    type: "user",
+    timestamp,
+    message: { role: "user", content: text },
+  });
+  const usage = { input_tokens: 100, output_tokens: 900, cache_read_input_tokens: 9_000 };
+  const loglines: Logline[] = [
+    prompt("2025-12-24T10:00:00.000Z", "First"),
+    assistant("2025-12-24T10:00:01.000Z", reply("msg_1", "claude-opus-4-1", usage)),
+    assistant("2025-12-24T10:00:01.000Z", reply("msg_1", "claude-opus-4-1", usage)),
+    prompt("2025-12-24T10:01:00.000Z", "Second"),
+    assistant("2025-12-24T10:01:01.000Z", reply("msg_2", "claude-opus-4-1", usage)),
+  ];
+
+  test("is kept by the schema", () => {
+    expect(LoglineSchema.parse(loglines[1]).message).toMatchObject({ id: "msg_1", usage });
+  });
+
+  test("is given per prompt and for the session by analyzeSession", () => {
+    const stats = analyzeSession({ loglines });
+
+    expect(stats.prompts.map((p) => p.usage.outputTokens)).toEqual([900, 900]);
+    expect(stats.usage.outputTokens).toBe(1_800);
+    expect(stats.usageByModel.map((model) => model.model)).toEqual(["claude-opus-4-1"]);
+  });
+
+  test("is shown on the index, per prompt and in total", () => {
+    const index = renderTranscript({ loglines }).files.get("index.html")!;
+
+    expect(index).toContain('<span class="index-item-usage">10k tokens · $0.08</span>');
+    expect(index).toContain("20k tokens · $0.17 · 99% cache hits");
+  });
+});